@@ -23,6 +23,12 @@ export { splitPorts } from './src/configureWorkspace/configUtils';
 export { configPrefix } from './src/constants';
 export { ProcessProvider } from './src/debugging/coreclr/ChildProcessProvider';
 export { DockerBuildImageOptions, DockerClient } from './src/debugging/coreclr/CliDockerClient';
+export { DockerComposeDocument } from './src/dockerCompose/dockerComposeDocument';
+export { ComposeEnvironment, getComposeEnvironment, getComposeVariableProblems, getComposeVariables, getServiceEnvFileVariables, interpolateComposeDocument, parseEnvFile, resolveComposeVariable } from './src/dockerCompose/dockerComposeInterpolation';
+export { getComposeKeyInfo } from './src/dockerCompose/dockerComposeKeyInfo';
+export { IComposeMapping } from './src/dockerCompose/dockerComposeParser';
+export { getComposeSymbols } from './src/dockerCompose/dockerComposeSymbols';
+export { validateComposeDocument } from './src/dockerCompose/dockerComposeValidator';
 export { CommandLineBuilder } from './src/utils/commandLineBuilder';
 export { DotNetClient } from './src/debugging/coreclr/CommandLineDotNetClient';
 export { compareBuildImageOptions, LaunchOptions } from './src/debugging/coreclr/dockerManager';
@@ -39,7 +45,22 @@ export { nonNullProp } from './src/utils/nonNull';
 export { getDockerOSType, isWindows10RS3OrNewer, isWindows10RS4OrNewer, isWindows10RS5OrNewer, isWindows1019H1OrNewer } from "./src/utils/osUtils";
 export { Platform, PlatformOS } from './src/utils/platform';
 export { DefaultTerminalProvider } from './src/utils/TerminalProvider';
+export { getContainerPathType, listContainerDirectory, readContainerFile } from './src/utils/containerFileSystem';
+export { groupContainerChanges, IContainerChange } from './src/utils/containerChanges';
+export { getContainerDetails, IContainerDetailsCategory } from './src/utils/containerDetails';
+export { getContainerNotification } from './src/utils/containerNotifications';
+export { ContainerLogParser, defaultContainerLogsOptions, formatLogLine, IContainerLogLine, IContainerLogsOptions, insertLogLines, matchesLogFilter } from './src/utils/containerLogs';
+export { ContainerStatsManager, IContainerStatsSample, parseContainerStats } from './src/utils/ContainerStatsManager';
+export { DockerEventsListener, IDockerEvent } from './src/utils/DockerEventsListener';
+export { IDiskUsage, IDiskUsageCategory, summarizeDiskUsage } from './src/utils/diskUsage';
+export { dockerContextNameRegExp, IDockerContextListItem, parseDockerContextList } from './src/utils/dockerContexts';
+export { formatBytes } from './src/utils/formatBytes';
+export { isValidImageName } from './src/utils/getValidImageName';
+export { ILabelFilter, IPruneFilters, matchesPruneFilters, parsePruneFilters } from './src/utils/pruneFilters';
 export { trimWithElipsis } from './src/utils/trimWithElipsis';
+export { getLayerInstruction } from './src/tree/images/ImageLayerTreeItem';
+export { LocalGroupTreeItemBase } from './src/tree/LocalGroupTreeItemBase';
+export { ITreeFilterTerm, parseTreeFilter } from './src/tree/settings/TreeFilter';
 export { recursiveFindTaskByType } from './src/tasks/TaskHelper';
 export { TaskDefinitionBase } from './src/tasks/TaskDefinitionBase';
 export { DebugConfigurationBase } from './src/debugging/DockerDebugConfigurationBase';
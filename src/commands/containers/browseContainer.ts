@@ -53,6 +53,15 @@ function parsePortAndProtocol(portAndProtocol: string): { port: number, protocol
     return undefined;
 }
 
+/**
+ * Gets the url for browsing to a container port through the host port it's published on
+ */
+export function getContainerPortUrl(containerPort: number, hostIp: string, hostPort: string): string {
+    const protocol = commonSslPorts.find(port => port === containerPort) !== undefined ? 'https' : 'http';
+    const host = !hostIp || hostIp === '0.0.0.0' || hostIp === '::' ? 'localhost' : hostIp;
+    return `${protocol}://${host}:${hostPort}`;
+}
+
 export async function browseContainer(context: IActionContext, node?: ContainerTreeItem): Promise<void> {
     const telemetryProperties = <BrowseTelemetryProperties>context.telemetry.properties;
 
@@ -117,9 +126,7 @@ export async function browseContainer(context: IActionContext, node?: ContainerT
 
     const mappedPort = selectedPort.mappings[0];
 
-    const protocol = commonSslPorts.find(port => port === selectedPort.containerPort.port) !== undefined ? 'https' : 'http';
-    const host = mappedPort.HostIp === '0.0.0.0' ? 'localhost' : mappedPort.HostIp;
-    const url = `${protocol}://${host}:${mappedPort.HostPort}`;
+    const url = getContainerPortUrl(selectedPort.containerPort.port, mappedPort.HostIp, mappedPort.HostPort);
 
     /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
     vscode.env.openExternal(vscode.Uri.parse(url));
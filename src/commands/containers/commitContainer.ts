@@ -0,0 +1,93 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from 'dockerode';
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+import { getValidImageName, isValidImageName } from '../../utils/getValidImageName';
+
+// The only Dockerfile instructions allowed by `docker commit --change`
+const changeInstructionRegExp: RegExp = /^(CMD|ENTRYPOINT|ENV|EXPOSE|LABEL|ONBUILD|USER|VOLUME|WORKDIR)\s+\S/i;
+
+export async function commitContainer(context: IActionContext, node: ContainerTreeItem | undefined): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.allContextRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No containers are available to commit'
+        });
+    }
+
+    const imageName: string = await ext.ui.showInputBox({
+        prompt: `Enter the name of the new image to create from container "${node.containerName}"`,
+        // Not the container's own image, which would be overwritten if this is accepted as-is
+        value: getValidImageName(node.containerName, 'latest'),
+        validateInput: (value: string): string | undefined => {
+            return isValidImageName(value) ? undefined : 'Enter a valid image name, e.g. "myregistry.azurecr.io/myapp:1.0". Repository names must be lowercase.';
+        }
+    });
+
+    const author: string = await ext.ui.showInputBox({ prompt: 'Enter the author of the image (optional), e.g. "Jane Doe <jane@example.com>"' });
+    const comment: string = await ext.ui.showInputBox({ prompt: 'Enter a commit message (optional)' });
+    const changes: string[] = await getChanges();
+    context.telemetry.properties.hasAuthor = String(!!author);
+    context.telemetry.properties.hasComment = String(!!comment);
+    context.telemetry.properties.changeCount = String(changes.length);
+
+    let repo: string = imageName;
+    let tag: string = 'latest';
+    if (imageName.lastIndexOf(':') > imageName.lastIndexOf('/')) {
+        repo = imageName.slice(0, imageName.lastIndexOf(':'));
+        tag = imageName.slice(imageName.lastIndexOf(':') + 1);
+    }
+
+    const container: Container = node.getContainer();
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Committing container "${node.containerName}"...` }, async () => {
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => container.commit({
+            repo,
+            tag,
+            author: author || undefined,
+            comment: comment || undefined,
+            changes: changes.length > 0 ? changes.join('\n') : undefined
+        }), context);
+    });
+
+    await ext.imagesTree.refresh();
+
+    // don't wait
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(`Created image "${repo}:${tag}" from container "${node.containerName}".`);
+}
+
+/**
+ * Prompts for Dockerfile instructions (e.g. `ENV DEBUG=true`) one at a time until an empty value is entered
+ */
+async function getChanges(): Promise<string[]> {
+    const changes: string[] = [];
+    let change: string;
+    do {
+        change = (await ext.ui.showInputBox({
+            prompt: changes.length === 0 ?
+                'Enter a Dockerfile instruction to apply to the image (optional), e.g. "ENV DEBUG=true"' :
+                `Enter another Dockerfile instruction, or leave empty to finish (${changes.length} so far)`,
+            validateInput: (value: string): string | undefined => {
+                if (value.trim() && !changeInstructionRegExp.test(value.trim())) {
+                    return 'Only CMD, ENTRYPOINT, ENV, EXPOSE, LABEL, ONBUILD, USER, VOLUME and WORKDIR instructions are supported.';
+                }
+
+                return undefined;
+            }
+        })).trim();
+
+        if (change) {
+            changes.push(change);
+        }
+    } while (change);
+
+    return changes;
+}
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from 'dockerode';
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerGroupTreeItem } from '../../tree/containers/ContainerGroupTreeItem';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+
+async function pickComposeProject(context: IActionContext, node: ContainerGroupTreeItem | undefined): Promise<ContainerGroupTreeItem> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerGroupTreeItem>(ContainerGroupTreeItem.composeProjectContextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No Docker Compose projects are available. Group the containers explorer by "ComposeProjectName" to see them.'
+        });
+    }
+
+    return node;
+}
+
+async function runOnContainers(context: IActionContext, node: ContainerGroupTreeItem, title: string, regExp: RegExp, callback: (container: Container) => Promise<void>): Promise<void> {
+    const nodes: ContainerTreeItem[] = node.containers.filter(n => regExp.test(n.contextValue));
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title }, async () => {
+        await Promise.all(nodes.map(async n => {
+            const container: Container = n.getContainer();
+            await callDockerodeWithErrorHandling(async () => callback(container), context);
+        }));
+    });
+}
+
+function runComposeCommand(node: ContainerGroupTreeItem, command: string): void {
+    const workingDir = node.composeWorkingDir;
+    const configFiles = node.composeConfigFiles;
+    if (!workingDir && configFiles.length === 0) {
+        throw new Error(`Unable to find the compose files for project "${node.group}". The project may have been created by an older version of Docker Compose.`);
+    }
+
+    const terminal: vscode.Terminal = ext.terminalProvider.createTerminal(`Docker Compose: ${node.group}`);
+    if (workingDir) {
+        terminal.sendText(`cd "${workingDir}"`);
+    }
+
+    const fileArgs = configFiles.map(f => `-f "${f}"`).join(' ');
+    terminal.sendText(`docker-compose -p "${node.group}" ${fileArgs} ${command}`);
+    terminal.show();
+}
+
+export async function startComposeProject(context: IActionContext, node: ContainerGroupTreeItem | undefined): Promise<void> {
+    node = await pickComposeProject(context, node);
+    await runOnContainers(context, node, `Starting project "${node.group}"...`, /^(created|dead|exited|paused)Container$/i, async c => c.start());
+}
+
+export async function stopComposeProject(context: IActionContext, node: ContainerGroupTreeItem | undefined): Promise<void> {
+    node = await pickComposeProject(context, node);
+    await runOnContainers(context, node, `Stopping project "${node.group}"...`, /^(paused|restarting|running)Container$/i, async c => c.stop());
+}
+
+export async function restartComposeProject(context: IActionContext, node: ContainerGroupTreeItem | undefined): Promise<void> {
+    node = await pickComposeProject(context, node);
+    await runOnContainers(context, node, `Restarting project "${node.group}"...`, /^(created|dead|exited|paused|running)Container$/i, async c => c.restart());
+}
+
+export async function downComposeProject(context: IActionContext, node: ContainerGroupTreeItem | undefined): Promise<void> {
+    node = await pickComposeProject(context, node);
+
+    const confirmDown: string = `Are you sure you want to take down project "${node.group}"? This will stop and remove its containers and networks.`;
+    // no need to check result - cancel will throw a UserCancelledError
+    await ext.ui.showWarningMessage(confirmDown, { modal: true }, { title: 'Compose Down' });
+
+    runComposeCommand(node, 'down');
+}
+
+export async function viewComposeProjectLogs(context: IActionContext, node: ContainerGroupTreeItem | undefined): Promise<void> {
+    node = await pickComposeProject(context, node);
+    runComposeCommand(node, 'logs -f');
+}
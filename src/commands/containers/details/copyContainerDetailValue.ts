@@ -0,0 +1,22 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerDetailTreeItem } from '../../../tree/containers/details/ContainerDetailTreeItem';
+
+export async function copyContainerDetailValue(context: IActionContext, node: ContainerDetailTreeItem | undefined): Promise<string> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerDetailTreeItem>(ContainerDetailTreeItem.allContextRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No container details are available to copy'
+        });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    vscode.env.clipboard.writeText(node.detail.value);
+    return node.detail.value;
+}
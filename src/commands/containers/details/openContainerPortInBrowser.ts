@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerDetailTreeItem } from '../../../tree/containers/details/ContainerDetailTreeItem';
+import { IContainerPortDetail } from '../../../utils/containerDetails';
+import { nonNullProp } from '../../../utils/nonNull';
+import { getContainerPortUrl } from '../browseContainer';
+
+export async function openContainerPortInBrowser(context: IActionContext, node: ContainerDetailTreeItem | undefined): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerDetailTreeItem>(ContainerDetailTreeItem.portContextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No published ports are available to open in a browser'
+        });
+    }
+
+    const port: IContainerPortDetail = nonNullProp(node.detail, 'port');
+    context.telemetry.properties.containerPort = String(port.containerPort);
+
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.env.openExternal(vscode.Uri.parse(getContainerPortUrl(port.containerPort, port.hostIp, port.hostPort)));
+}
@@ -0,0 +1,28 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerDetailTreeItem } from '../../../tree/containers/details/ContainerDetailTreeItem';
+import { VolumeTreeItem } from '../../../tree/volumes/VolumeTreeItem';
+import { nonNullProp } from '../../../utils/nonNull';
+
+/**
+ * Navigates from a mount of a named volume to the volume in the volumes explorer
+ */
+export async function revealContainerVolume(context: IActionContext, node: ContainerDetailTreeItem | undefined): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerDetailTreeItem>(ContainerDetailTreeItem.volumeMountContextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No mounts of named volumes are available'
+        });
+    }
+
+    const volumeName: string = nonNullProp(node.detail, 'volumeName');
+    const found: boolean = await ext.volumesRoot.revealChildTreeItem(context, ti => ti instanceof VolumeTreeItem && ti.volumeName === volumeName);
+    if (!found) {
+        throw new Error(`Could not find volume "${volumeName}" in the Volumes explorer. It may be hidden by the explorer's filter.`);
+    }
+}
@@ -0,0 +1,59 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerTreeItem } from '../../../tree/containers/ContainerTreeItem';
+import { callDockerodeWithErrorHandling } from '../../../utils/callDockerodeWithErrorHandling';
+import { downloadFromContainer } from '../../../utils/containerFileSystem';
+import { pickContainerPath } from './pickContainerPath';
+
+/**
+ * Can be executed on a container in the explorer (prompts for a local folder) or on a folder in the VS Code explorer (copies into that folder)
+ */
+export async function copyFromContainer(context: IActionContext, nodeOrUri?: ContainerTreeItem | vscode.Uri): Promise<void> {
+    let node: ContainerTreeItem | undefined;
+    let localDir: string | undefined;
+    if (nodeOrUri instanceof vscode.Uri) {
+        context.telemetry.properties.source = 'explorer';
+        localDir = (await fse.stat(nodeOrUri.fsPath)).isDirectory() ? nodeOrUri.fsPath : path.dirname(nodeOrUri.fsPath);
+    } else {
+        node = nodeOrUri;
+    }
+
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.allContextRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No containers are available to copy files from'
+        });
+    }
+
+    const containerNode: ContainerTreeItem = node;
+    const containerPath: string = await pickContainerPath(containerNode, { placeHolder: `Select the file or folder in "${containerNode.containerName}" to copy` });
+
+    if (!localDir) {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        const destination: vscode.Uri[] = await ext.ui.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri : undefined,
+            openLabel: 'Copy Here'
+        });
+        localDir = destination[0].fsPath;
+    }
+
+    const destinationDir: string = localDir;
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Copying "${containerPath}"...` }, async () => {
+        await callDockerodeWithErrorHandling(async () => downloadFromContainer(containerNode.getContainer(), containerPath, destinationDir), context);
+    });
+
+    // don't wait
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(`Copied "${containerPath}" from "${containerNode.containerName}" to "${destinationDir}".`);
+}
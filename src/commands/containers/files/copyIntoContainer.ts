@@ -0,0 +1,55 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerTreeItem } from '../../../tree/containers/ContainerTreeItem';
+import { callDockerodeWithErrorHandling } from '../../../utils/callDockerodeWithErrorHandling';
+import { uploadToContainer } from '../../../utils/containerFileSystem';
+import { pickContainerPath } from './pickContainerPath';
+
+/**
+ * Can be executed on a container in the explorer (prompts for local files) or on local files in the VS Code explorer (prompts for a container)
+ */
+export async function copyIntoContainer(context: IActionContext, nodeOrUri?: ContainerTreeItem | vscode.Uri, selectedUris?: vscode.Uri[]): Promise<void> {
+    let node: ContainerTreeItem | undefined;
+    let localPaths: string[];
+    if (nodeOrUri instanceof vscode.Uri) {
+        context.telemetry.properties.source = 'explorer';
+        localPaths = (selectedUris && selectedUris.length > 0 ? selectedUris : [nodeOrUri]).map(u => u.fsPath);
+    } else {
+        node = nodeOrUri;
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        const files: vscode.Uri[] = await ext.ui.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: false,
+            canSelectMany: true,
+            defaultUri: workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri : undefined,
+            openLabel: 'Copy'
+        });
+        localPaths = files.map(f => f.fsPath);
+    }
+
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.allContextRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No containers are available to copy files into'
+        });
+    }
+
+    const containerNode: ContainerTreeItem = node;
+    const containerDir: string = await pickContainerPath(containerNode, { placeHolder: `Select the folder in "${containerNode.containerName}" to copy into`, foldersOnly: true });
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Copying to "${containerDir}"...` }, async () => {
+        await callDockerodeWithErrorHandling(async () => uploadToContainer(containerNode.getContainer(), localPaths, containerDir), context);
+    });
+
+    const copied: string = localPaths.length === 1 ? `"${path.basename(localPaths[0])}"` : `${localPaths.length} items`;
+    // don't wait
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(`Copied ${copied} to "${containerDir}" in "${containerNode.containerName}".`);
+}
@@ -0,0 +1,40 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerFileTreeItem } from '../../../tree/containers/files/ContainerFileTreeItem';
+import { ContainerFolderTreeItem } from '../../../tree/containers/files/ContainerFolderTreeItem';
+import { callDockerodeWithErrorHandling } from '../../../utils/callDockerodeWithErrorHandling';
+import { downloadFromContainer } from '../../../utils/containerFileSystem';
+
+export async function downloadContainerFile(context: IActionContext, node?: ContainerFileTreeItem | ContainerFolderTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerFileTreeItem | ContainerFolderTreeItem>(/^containerF(ile|older)$/, {
+            ...context,
+            noItemFoundErrorMessage: 'No container files are available to download'
+        });
+    }
+
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const destination: vscode.Uri[] = await ext.ui.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri : undefined,
+        openLabel: 'Download'
+    });
+
+    const containerPath: string = node.path;
+    const container = node.getContainer();
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Downloading "${containerPath}"...` }, async () => {
+        await callDockerodeWithErrorHandling(async () => downloadFromContainer(container, containerPath, destination[0].fsPath), context);
+    });
+
+    // don't wait
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(`Downloaded "${containerPath}" to "${destination[0].fsPath}".`);
+}
@@ -0,0 +1,22 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerFileTreeItem } from '../../../tree/containers/files/ContainerFileTreeItem';
+import { getContainerFileUri } from '../../../utils/ContainerFileDocumentProvider';
+
+export async function openContainerFile(context: IActionContext, node?: ContainerFileTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerFileTreeItem>(ContainerFileTreeItem.contextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No container files are available to open'
+        });
+    }
+
+    const doc = await vscode.workspace.openTextDocument(getContainerFileUri(node.containerItem.containerId, node.path));
+    await vscode.window.showTextDocument(doc, { preview: true });
+}
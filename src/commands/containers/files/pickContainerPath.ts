@@ -0,0 +1,111 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import vscode = require('vscode');
+import { parseError, UserCancelledError } from 'vscode-azureextensionui';
+import { ContainerTreeItem } from '../../../tree/containers/ContainerTreeItem';
+import { IContainerFileInfo, listContainerDirectory } from '../../../utils/containerFileSystem';
+
+export interface IPickContainerPathOptions {
+    placeHolder: string;
+
+    /**
+     * If true, only folders are suggested
+     */
+    foldersOnly?: boolean;
+}
+
+interface IContainerPathPickItem extends vscode.QuickPickItem {
+    file?: IContainerFileInfo;
+}
+
+/**
+ * Prompts for a path in a container, suggesting the contents of the folder being typed (like path completion in a shell).
+ * Accepting a suggested folder completes the path to that folder so the user can keep going, anything else is returned as-is.
+ */
+export async function pickContainerPath(node: ContainerTreeItem, options: IPickContainerPathOptions): Promise<string> {
+    const listings = new Map<string, IContainerFileInfo[]>();
+    const listingErrors = new Map<string, string>();
+    const quickPick = vscode.window.createQuickPick<IContainerPathPickItem>();
+    quickPick.placeholder = options.placeHolder;
+    quickPick.ignoreFocusOut = true;
+
+    let latestRequest: number = 0;
+    const updateItems = async (value: string): Promise<void> => {
+        const request = ++latestRequest;
+        try {
+            const dir = value.endsWith('/') ? value : path.posix.dirname(value);
+            let files: IContainerFileInfo[] | undefined = listings.get(dir);
+            if (!files && dir.startsWith('/')) {
+                quickPick.busy = true;
+                try {
+                    files = await listContainerDirectory(node.getContainer(), dir, node.isRunning);
+                } catch (error) {
+                    // e.g. the folder doesn't exist (yet) - still offer the typed value, but say why there are no suggestions
+                    files = [];
+                    listingErrors.set(dir, parseError(error).message);
+                }
+                listings.set(dir, files);
+            }
+
+            if (request !== latestRequest) {
+                return; // The user has moved on to a different value while this folder was loading
+            }
+
+            const listingError: string | undefined = listingErrors.get(dir);
+            const typedItem: IContainerPathPickItem = {
+                label: value,
+                description: 'Use this path',
+                detail: listingError && `Unable to list "${dir}": ${listingError}`,
+                alwaysShow: true
+            };
+            const fileItems: IContainerPathPickItem[] = (files || [])
+                .filter(f => !options.foldersOnly || f.type === 'directory')
+                .map(f => ({
+                    label: f.type === 'directory' ? `${f.path}/` : f.path,
+                    description: f.type,
+                    file: f
+                }));
+            quickPick.items = [typedItem, ...fileItems.filter(i => i.label !== value)];
+        } finally {
+            // Requests that were superseded leave this to the latest one, which may still be loading
+            if (request === latestRequest) {
+                quickPick.busy = false;
+            }
+        }
+    };
+
+    try {
+        return await new Promise<string>((resolve, reject) => {
+            const showItems = (value: string): void => {
+                updateItems(value).catch(reject);
+            };
+
+            quickPick.onDidChangeValue(showItems);
+            quickPick.onDidAccept(() => {
+                const selected: IContainerPathPickItem | undefined = quickPick.selectedItems[0];
+                if (selected && selected.file && selected.file.type === 'directory') {
+                    // Complete the folder and keep going
+                    quickPick.value = selected.label;
+                    showItems(selected.label);
+                } else {
+                    const result = selected ? selected.label : quickPick.value;
+                    if (result.startsWith('/')) {
+                        resolve(result.length > 1 ? result.replace(/\/+$/, '') : result);
+                        quickPick.hide();
+                    }
+                }
+            });
+            quickPick.onDidHide(() => reject(new UserCancelledError()));
+
+            quickPick.value = '/';
+            quickPick.show();
+            showItems('/');
+        });
+    } finally {
+        quickPick.dispose();
+    }
+}
@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { ContainerFolderTreeItem } from '../../../tree/containers/files/ContainerFolderTreeItem';
+import { callDockerodeWithErrorHandling } from '../../../utils/callDockerodeWithErrorHandling';
+import { uploadToContainer } from '../../../utils/containerFileSystem';
+
+export async function uploadContainerFile(context: IActionContext, node?: ContainerFolderTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerFolderTreeItem>(ContainerFolderTreeItem.contextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No container folders are available to upload to'
+        });
+    }
+
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const files: vscode.Uri[] = await ext.ui.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: true,
+        defaultUri: workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri : undefined,
+        openLabel: 'Upload'
+    });
+
+    const folderNode: ContainerFolderTreeItem = node;
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Uploading to "${folderNode.path}"...` }, async () => {
+        await callDockerodeWithErrorHandling(async () => uploadToContainer(folderNode.getContainer(), files.map(f => f.fsPath), folderNode.path), context);
+    });
+
+    await folderNode.refresh();
+}
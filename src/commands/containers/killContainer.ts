@@ -0,0 +1,43 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from 'dockerode';
+import { AzExtTreeItem, IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
+
+const killableContainerRegExp: RegExp = /^(paused|restarting|running)Container$/i;
+
+const signals: IAzureQuickPickItem<string>[] = [
+    { label: 'SIGKILL', description: 'Kill immediately (default)', data: 'SIGKILL' },
+    { label: 'SIGTERM', description: 'Ask the main process to terminate', data: 'SIGTERM' },
+    { label: 'SIGINT', description: 'Interrupt, like Ctrl+C', data: 'SIGINT' },
+    { label: 'SIGHUP', description: 'Hang up, often used to reload configuration', data: 'SIGHUP' },
+    { label: 'SIGQUIT', description: 'Quit and dump core', data: 'SIGQUIT' },
+    { label: 'SIGUSR1', description: 'User-defined signal 1', data: 'SIGUSR1' },
+    { label: 'SIGUSR2', description: 'User-defined signal 2', data: 'SIGUSR2' },
+];
+
+export async function killContainer(context: IActionContext, node: ContainerTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ContainerTreeItem[] = getMultiSelectNodes(node, selectedNodes, killableContainerRegExp);
+    if (nodes.length === 0) {
+        nodes = await ext.containersTree.showTreeItemPicker(killableContainerRegExp, {
+            ...context,
+            canPickMany: true,
+            noItemFoundErrorMessage: 'No containers are available to kill'
+        });
+    }
+
+    const signal: string = (await ext.ui.showQuickPick(signals, { placeHolder: 'Select the signal to send' })).data;
+    context.telemetry.properties.signal = signal;
+
+    await runOnMultipleNodes(context, nodes, { progressTitle: `Sending ${signal} to Container(s)...`, completedVerb: `Sent ${signal} to`, itemType: 'container' }, async n => {
+        const container: Container = n.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => container.kill({ signal }), context);
+    });
+}
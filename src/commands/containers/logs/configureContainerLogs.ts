@@ -0,0 +1,41 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { IContainerLogsOptions } from '../../../utils/containerLogs';
+import { nonNullValue } from '../../../utils/nonNull';
+import { resolveLogsDocumentUri } from './resolveLogsDocumentUri';
+
+type DisplayOption = 'timestamps' | 'stdout' | 'stderr';
+
+export async function configureContainerLogs(context: IActionContext, uri?: vscode.Uri): Promise<void> {
+    uri = resolveLogsDocumentUri(uri);
+    const options: IContainerLogsOptions = nonNullValue(ext.containerLogs.getOptions(uri), 'options');
+
+    const picks: IAzureQuickPickItem<DisplayOption>[] = [
+        { label: 'Timestamps', description: 'Show the time each line was logged', data: 'timestamps', picked: options.timestamps },
+        { label: 'stdout', description: 'Show standard output', data: 'stdout', picked: options.stdout },
+        { label: 'stderr', description: 'Show standard error', data: 'stderr', picked: options.stderr },
+    ];
+    const selected: DisplayOption[] = (await ext.ui.showQuickPick(picks, {
+        canPickMany: true,
+        placeHolder: 'Select what to show in the logs',
+        isPickSelected: (pick: vscode.QuickPickItem) => !!pick.picked,
+        suppressPersistence: true
+    })).map(p => p.data);
+
+    if (!selected.includes('stdout') && !selected.includes('stderr')) {
+        throw new Error('Select at least one of stdout and stderr.');
+    }
+
+    context.telemetry.properties.displayOptions = selected.join(',');
+    await ext.containerLogs.updateOptions(uri, {
+        timestamps: selected.includes('timestamps'),
+        stdout: selected.includes('stdout'),
+        stderr: selected.includes('stderr')
+    });
+}
@@ -0,0 +1,40 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import vscode = require('vscode');
+import { IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { nonNullValue } from '../../../utils/nonNull';
+import { resolveLogsDocumentUri } from './resolveLogsDocumentUri';
+
+export async function exportContainerLogs(context: IActionContext, uri?: vscode.Uri): Promise<void> {
+    uri = resolveLogsDocumentUri(uri);
+    const text: string = nonNullValue(ext.containerLogs.getLogText(uri), 'text');
+
+    const rootFolder: vscode.WorkspaceFolder | undefined = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+    const fileName: string = path.posix.basename(uri.path);
+    const target: vscode.Uri | undefined = await vscode.window.showSaveDialog({
+        defaultUri: rootFolder ? vscode.Uri.file(path.join(rootFolder.uri.fsPath, fileName)) : undefined,
+        filters: { 'Log Files': ['log', 'txt'] },
+        saveLabel: 'Export'
+    });
+    if (!target) {
+        throw new UserCancelledError();
+    }
+
+    context.telemetry.measurements.lineCount = text ? text.split('\n').length : 0;
+    await fse.writeFile(target.fsPath, `${text}\n`);
+
+    const openFile: vscode.MessageItem = { title: 'Open File' };
+    // don't wait
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(`Exported logs to "${target.fsPath}".`, openFile).then(async result => {
+        if (result === openFile) {
+            await vscode.window.showTextDocument(target);
+        }
+    });
+}
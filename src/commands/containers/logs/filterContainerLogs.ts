@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { IContainerLogsOptions } from '../../../utils/containerLogs';
+import { nonNullValue } from '../../../utils/nonNull';
+import { resolveLogsDocumentUri } from './resolveLogsDocumentUri';
+
+export async function filterContainerLogs(context: IActionContext, uri?: vscode.Uri): Promise<void> {
+    const logsUri: vscode.Uri = resolveLogsDocumentUri(uri);
+    const options: IContainerLogsOptions = nonNullValue(ext.containerLogs.getOptions(logsUri), 'options');
+
+    let filter: string;
+    try {
+        filter = await ext.ui.showInputBox({
+            prompt: 'Show only lines containing this text (case-insensitive). Leave empty to show all lines.',
+            value: options.filter || '',
+            validateInput: async (value: string): Promise<undefined> => {
+                // Filter as the user types
+                await ext.containerLogs.updateOptions(logsUri, { filter: value || undefined });
+                return undefined;
+            }
+        });
+    } catch (error) {
+        // Restore the previous filter if the input was cancelled
+        await ext.containerLogs.updateOptions(logsUri, { filter: options.filter });
+        throw error;
+    }
+
+    context.telemetry.properties.hasFilter = String(!!filter);
+    await ext.containerLogs.updateOptions(logsUri, { filter: filter || undefined });
+}
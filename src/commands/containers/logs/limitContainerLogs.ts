@@ -0,0 +1,45 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext, parseError } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { IContainerLogsOptions } from '../../../utils/containerLogs';
+import { nonNullValue } from '../../../utils/nonNull';
+import { parseTimeFilter } from '../../../utils/pruneFilters';
+import { resolveLogsDocumentUri } from './resolveLogsDocumentUri';
+
+export async function limitContainerLogs(context: IActionContext, uri?: vscode.Uri): Promise<void> {
+    uri = resolveLogsDocumentUri(uri);
+    const options: IContainerLogsOptions = nonNullValue(ext.containerLogs.getOptions(uri), 'options');
+
+    const since: string = (await ext.ui.showInputBox({
+        prompt: 'Show logs since (optional), as a duration like "10m" or "2h", or a timestamp like "2020-01-31T12:00:00"',
+        value: options.since || '',
+        validateInput: (value: string): string | undefined => {
+            try {
+                if (value.trim()) {
+                    parseTimeFilter('since', value.trim(), Date.now());
+                }
+                return undefined;
+            } catch (error) {
+                return parseError(error).message;
+            }
+        }
+    })).trim();
+
+    const tail: string = (await ext.ui.showInputBox({
+        prompt: 'Number of lines to show from the end of the logs (leave empty for all lines)',
+        value: options.tail !== undefined ? String(options.tail) : '',
+        validateInput: (value: string): string | undefined => /^\s*\d*\s*$/.test(value) ? undefined : 'Enter a number of lines.'
+    })).trim();
+
+    context.telemetry.properties.hasSince = String(!!since);
+    context.telemetry.properties.hasTail = String(!!tail);
+    await ext.containerLogs.updateOptions(uri, {
+        since: since || undefined,
+        tail: tail ? parseInt(tail, 10) : undefined
+    });
+}
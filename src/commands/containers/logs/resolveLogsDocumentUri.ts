@@ -0,0 +1,23 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { containerLogsScheme } from '../../../utils/ContainerLogsDocumentProvider';
+
+/**
+ * Gets the logs document a command applies to: the one passed in by the editor title menu, or else the active editor's
+ */
+export function resolveLogsDocumentUri(uri: vscode.Uri | undefined): vscode.Uri {
+    if (!uri || uri.scheme !== containerLogsScheme) {
+        const editor = vscode.window.activeTextEditor;
+        uri = editor && editor.document.uri;
+    }
+
+    if (!uri || uri.scheme !== containerLogsScheme) {
+        throw new Error('Open the logs of a container first.');
+    }
+
+    return uri;
+}
@@ -0,0 +1,13 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { resolveLogsDocumentUri } from './resolveLogsDocumentUri';
+
+export async function restartContainerLogs(_context: IActionContext, uri?: vscode.Uri): Promise<void> {
+    await ext.containerLogs.restart(resolveLogsDocumentUri(uri));
+}
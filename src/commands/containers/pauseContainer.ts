@@ -0,0 +1,30 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from 'dockerode';
+import { AzExtTreeItem, IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
+
+const pausableContainerRegExp: RegExp = /^runningContainer$/i;
+
+export async function pauseContainer(context: IActionContext, node: ContainerTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ContainerTreeItem[] = getMultiSelectNodes(node, selectedNodes, pausableContainerRegExp);
+    if (nodes.length === 0) {
+        nodes = await ext.containersTree.showTreeItemPicker(pausableContainerRegExp, {
+            ...context,
+            canPickMany: true,
+            noItemFoundErrorMessage: 'No containers are available to pause'
+        });
+    }
+
+    await runOnMultipleNodes(context, nodes, { progressTitle: 'Pausing Container(s)...', completedVerb: 'Paused', itemType: 'container' }, async n => {
+        const container: Container = n.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => container.pause(), context);
+    });
+}
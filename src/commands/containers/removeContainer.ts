@@ -3,16 +3,14 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import vscode = require('vscode');
-import { IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { AzExtTreeItem, IActionContext, UserCancelledError } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
 import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
 
-export async function removeContainer(context: IActionContext, node: ContainerTreeItem | undefined): Promise<void> {
-    let nodes: ContainerTreeItem[] = [];
-    if (node) {
-        nodes = [node];
-    } else {
+export async function removeContainer(context: IActionContext, node: ContainerTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ContainerTreeItem[] = getMultiSelectNodes(node, selectedNodes, ContainerTreeItem.allContextRegExp);
+    if (nodes.length === 0) {
         nodes = await ext.containersTree.showTreeItemPicker(ContainerTreeItem.allContextRegExp, {
             ...context,
             canPickMany: true,
@@ -27,14 +25,11 @@ export async function removeContainer(context: IActionContext, node: ContainerTr
         node = nodes[0];
         confirmRemove = `Are you sure you want to remove container "${node.label}"?`;
     } else {
-        confirmRemove = "Are you sure you want to remove selected containers?";
+        confirmRemove = `Are you sure you want to remove the ${nodes.length} selected containers?`;
     }
 
     // no need to check result - cancel will throw a UserCancelledError
     await ext.ui.showWarningMessage(confirmRemove, { modal: true }, { title: 'Remove' });
 
-    let removing: string = "Removing container(s)...";
-    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: removing }, async () => {
-        await Promise.all(nodes.map(async n => await n.deleteTreeItem(context)));
-    });
+    await runOnMultipleNodes(context, nodes, { progressTitle: 'Removing container(s)...', completedVerb: 'Removed', itemType: 'container' }, async n => await n.deleteTreeItem(context));
 }
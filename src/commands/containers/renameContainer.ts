@@ -0,0 +1,42 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from 'dockerode';
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+
+// Same rule the Docker daemon enforces for container names
+const containerNameRegExp: RegExp = /^\/?[a-zA-Z0-9][a-zA-Z0-9_.-]+$/;
+
+export async function renameContainer(context: IActionContext, node: ContainerTreeItem | undefined): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.allContextRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No containers are available to rename'
+        });
+    }
+
+    const oldName: string = node.containerName;
+    const newName: string = await ext.ui.showInputBox({
+        prompt: `Enter a new name for container "${oldName}"`,
+        value: oldName,
+        validateInput: (value: string): string | undefined => {
+            if (!containerNameRegExp.test(value)) {
+                return 'Container names must be at least two characters, start with a letter or number, and contain only letters, numbers, "_", "." and "-".';
+            }
+
+            return undefined;
+        }
+    });
+
+    if (newName !== oldName) {
+        const container: Container = node.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => container.rename({ name: newName }), context);
+        await ext.containersTree.refresh();
+    }
+}
@@ -4,29 +4,27 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { Container } from 'dockerode';
-import vscode = require('vscode');
-import { IActionContext } from 'vscode-azureextensionui';
+import { AzExtTreeItem, IActionContext } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
 import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
 import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
 
-export async function restartContainer(context: IActionContext, node: ContainerTreeItem | undefined): Promise<void> {
-    let nodes: ContainerTreeItem[];
-    if (node) {
-        nodes = [node];
-    } else {
-        nodes = await ext.containersTree.showTreeItemPicker(/^(created|dead|exited|paused|running)Container$/i, {
+const restartableContainerRegExp: RegExp = /^(created|dead|exited|paused|running)Container$/i;
+
+export async function restartContainer(context: IActionContext, node: ContainerTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ContainerTreeItem[] = getMultiSelectNodes(node, selectedNodes, restartableContainerRegExp);
+    if (nodes.length === 0) {
+        nodes = await ext.containersTree.showTreeItemPicker(restartableContainerRegExp, {
             ...context,
             canPickMany: true,
             noItemFoundErrorMessage: 'No containers are available to restart'
         });
     }
 
-    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: "Restarting Container(s)..." }, async () => {
-        await Promise.all(nodes.map(async n => {
-            const container: Container = n.getContainer();
-            // eslint-disable-next-line @typescript-eslint/promise-function-async
-            await callDockerodeWithErrorHandling(() => container.restart(), context);
-        }));
+    await runOnMultipleNodes(context, nodes, { progressTitle: 'Restarting Container(s)...', completedVerb: 'Restarted', itemType: 'container' }, async n => {
+        const container: Container = n.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => container.restart(), context);
     });
 }
@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtTreeItem, IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerChangesTreeItem } from '../../tree/containers/changes/ContainerChangesTreeItem';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { nonNullValue } from '../../utils/nonNull';
+
+/**
+ * Expands the "Filesystem Changes" of a container in the explorer, with the latest changes
+ */
+export async function showContainerChanges(context: IActionContext, node?: ContainerTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.allContextRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No containers are available to show filesystem changes for'
+        });
+    }
+
+    const children: AzExtTreeItem[] = await node.getCachedChildren(context);
+    const changesNode: AzExtTreeItem = nonNullValue(children.find(c => c instanceof ContainerChangesTreeItem), 'changesNode');
+    await changesNode.refresh();
+    await ext.containersTreeView.reveal(changesNode, { select: true, focus: true, expand: 2 });
+}
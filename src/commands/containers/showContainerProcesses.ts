@@ -0,0 +1,22 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { getContainerProcessesUri } from '../../utils/ContainerProcessesDocumentProvider';
+
+export async function showContainerProcesses(context: IActionContext, node?: ContainerTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.runningContainerRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No running containers are available to show processes for'
+        });
+    }
+
+    const doc = await vscode.workspace.openTextDocument(getContainerProcessesUri(node.containerId, node.containerName));
+    await vscode.window.showTextDocument(doc, { preview: false });
+}
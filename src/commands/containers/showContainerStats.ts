@@ -0,0 +1,22 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { getContainerStatsUri } from '../../utils/ContainerStatsDocumentProvider';
+
+export async function showContainerStats(context: IActionContext, node?: ContainerTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.runningContainerRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No running containers are available to show stats for'
+        });
+    }
+
+    const doc = await vscode.workspace.openTextDocument(getContainerStatsUri(node.containerId, node.containerName));
+    await vscode.window.showTextDocument(doc, { preview: false });
+}
@@ -4,29 +4,27 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { Container } from 'dockerode';
-import vscode = require('vscode');
-import { IActionContext } from 'vscode-azureextensionui';
+import { AzExtTreeItem, IActionContext } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
 import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
 import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
 
-export async function startContainer(context: IActionContext, node: ContainerTreeItem | undefined): Promise<void> {
-    let nodes: ContainerTreeItem[];
-    if (node) {
-        nodes = [node];
-    } else {
-        nodes = await ext.containersTree.showTreeItemPicker(/^(created|dead|exited|paused)Container$/i, {
+const startableContainerRegExp: RegExp = /^(created|dead|exited)Container$/i;
+
+export async function startContainer(context: IActionContext, node: ContainerTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ContainerTreeItem[] = getMultiSelectNodes(node, selectedNodes, startableContainerRegExp);
+    if (nodes.length === 0) {
+        nodes = await ext.containersTree.showTreeItemPicker(startableContainerRegExp, {
             ...context,
             canPickMany: true,
             noItemFoundErrorMessage: 'No containers are available to start'
         });
     }
 
-    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: "Starting Container(s)..." }, async () => {
-        await Promise.all(nodes.map(async n => {
-            const container: Container = n.getContainer();
-            // eslint-disable-next-line @typescript-eslint/promise-function-async
-            await callDockerodeWithErrorHandling(() => container.start(), context);
-        }));
+    await runOnMultipleNodes(context, nodes, { progressTitle: 'Starting Container(s)...', completedVerb: 'Started', itemType: 'container' }, async n => {
+        const container: Container = n.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => container.start(), context);
     });
 }
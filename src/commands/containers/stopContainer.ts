@@ -4,30 +4,27 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { Container } from 'dockerode';
-import vscode = require('vscode');
-import { IActionContext } from 'vscode-azureextensionui';
+import { AzExtTreeItem, IActionContext } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
 import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
 import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
 
-export async function stopContainer(context: IActionContext, node: ContainerTreeItem | undefined): Promise<void> {
-    let nodes: ContainerTreeItem[];
-    if (node) {
-        nodes = [node];
-    } else {
-        nodes = await ext.containersTree.showTreeItemPicker(/^(paused|restarting|running)Container$/i, {
+const stoppableContainerRegExp: RegExp = /^(paused|restarting|running)Container$/i;
+
+export async function stopContainer(context: IActionContext, node: ContainerTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ContainerTreeItem[] = getMultiSelectNodes(node, selectedNodes, stoppableContainerRegExp);
+    if (nodes.length === 0) {
+        nodes = await ext.containersTree.showTreeItemPicker(stoppableContainerRegExp, {
             ...context,
             canPickMany: true,
             noItemFoundErrorMessage: 'No containers are availble to stop'
         });
     }
 
-    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: "Stopping Container(s)..." }, async () => {
-        await Promise.all(nodes.map(async n => {
-            const container: Container = n.getContainer();
-            // eslint-disable-next-line @typescript-eslint/promise-function-async
-            await callDockerodeWithErrorHandling(() => container.stop(), context);
-
-        }));
+    await runOnMultipleNodes(context, nodes, { progressTitle: 'Stopping Container(s)...', completedVerb: 'Stopped', itemType: 'container' }, async n => {
+        const container: Container = n.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => container.stop(), context);
     });
 }
@@ -3,19 +3,46 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { IActionContext } from 'vscode-azureextensionui';
+import vscode = require('vscode');
+import { AzExtTreeItem, IActionContext } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
+import { ContainerGroupTreeItem } from '../../tree/containers/ContainerGroupTreeItem';
 import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { getContainerLogsUri } from '../../utils/ContainerLogsDocumentProvider';
+import { getMultiSelectNodes } from '../multiSelectNodes';
 
-export async function viewContainerLogs(context: IActionContext, node?: ContainerTreeItem): Promise<void> {
-    if (!node) {
-        node = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.allContextRegExp, {
+const containerGroupRegExp: RegExp = /containerGroup$/i;
+
+export async function viewContainerLogs(context: IActionContext, node: ContainerTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ContainerTreeItem[] = getMultiSelectNodes(node, selectedNodes, ContainerTreeItem.allContextRegExp);
+    if (nodes.length === 0) {
+        nodes = await ext.containersTree.showTreeItemPicker<ContainerTreeItem>(ContainerTreeItem.allContextRegExp, {
             ...context,
+            canPickMany: true,
             noItemFoundErrorMessage: 'No continers are available to view logs'
         });
     }
 
-    const terminal = ext.terminalProvider.createTerminal(node.fullTag);
-    terminal.sendText(`docker logs -f ${node.containerId}`);
-    terminal.show();
+    await showLogs(context, nodes, nodes.length > 1 ? `${nodes.length} containers` : undefined);
+}
+
+/**
+ * Shows the logs of all containers in a group (e.g. a compose project or the containers of an image) together
+ */
+export async function viewContainerGroupLogs(context: IActionContext, node: ContainerGroupTreeItem | undefined): Promise<void> {
+    if (!node) {
+        node = await ext.containersTree.showTreeItemPicker<ContainerGroupTreeItem>(containerGroupRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No container groups are available. Group the containers explorer by a property to see them.'
+        });
+    }
+
+    await showLogs(context, node.containers, node.group);
+}
+
+async function showLogs(context: IActionContext, nodes: ContainerTreeItem[], title: string | undefined): Promise<void> {
+    context.telemetry.properties.containerCount = String(nodes.length);
+    const uri: vscode.Uri = getContainerLogsUri(nodes.map(n => ({ containerId: n.containerId, containerName: n.containerName })), title);
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc, { preview: false });
 }
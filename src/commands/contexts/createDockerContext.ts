@@ -0,0 +1,44 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { AzureWizard, IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { createDockerContext as createContext, listDockerContexts } from '../../utils/dockerContexts';
+import { nonNullProp } from '../../utils/nonNull';
+import { DockerContextDescriptionStep } from './createWizard/DockerContextDescriptionStep';
+import { DockerContextHostStep } from './createWizard/DockerContextHostStep';
+import { DockerContextNameStep } from './createWizard/DockerContextNameStep';
+import { IDockerContextWizardContext } from './createWizard/IDockerContextWizardContext';
+import { switchDockerContext } from './useDockerContext';
+
+export async function createDockerContext(context: IActionContext): Promise<void> {
+    const existingNames: string[] = (await listDockerContexts()).map(c => c.Name);
+    const wizardContext: IDockerContextWizardContext = { ...context, existingNames };
+    const wizard = new AzureWizard(wizardContext, {
+        title: 'Create Docker Context',
+        promptSteps: [
+            new DockerContextNameStep(),
+            new DockerContextHostStep(),
+            new DockerContextDescriptionStep()
+        ]
+    });
+
+    await wizard.prompt();
+    await wizard.execute();
+
+    const name: string = nonNullProp(wizardContext, 'name');
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Creating context "${name}"...` }, async () => {
+        await createContext({ name, host: nonNullProp(wizardContext, 'host'), description: wizardContext.description });
+    });
+
+    await ext.contextsTree.refresh();
+
+    const useNow: vscode.MessageItem = { title: 'Use Now' };
+    const result = await vscode.window.showInformationMessage(`Created context "${name}".`, useNow);
+    if (result === useNow) {
+        await switchDockerContext(context, name);
+    }
+}
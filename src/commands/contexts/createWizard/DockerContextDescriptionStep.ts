@@ -0,0 +1,21 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { IDockerContextWizardContext } from './IDockerContextWizardContext';
+
+export class DockerContextDescriptionStep extends AzureWizardPromptStep<IDockerContextWizardContext> {
+    public async prompt(context: IDockerContextWizardContext): Promise<void> {
+        context.description = await ext.ui.showInputBox({
+            prompt: 'Enter a description for the context (optional)',
+            validateInput: (value: string): string | undefined => value.includes('"') ? 'The description cannot contain quotes.' : undefined
+        });
+    }
+
+    public shouldPrompt(context: IDockerContextWizardContext): boolean {
+        return context.description === undefined;
+    }
+}
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { URL } from 'url';
+import { AzureWizardPromptStep, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { DockerContextEndpointType, IDockerContextWizardContext } from './IDockerContextWizardContext';
+
+export class DockerContextHostStep extends AzureWizardPromptStep<IDockerContextWizardContext> {
+    public async prompt(context: IDockerContextWizardContext): Promise<void> {
+        const picks: IAzureQuickPickItem<DockerContextEndpointType>[] = [
+            { label: 'SSH', description: 'Connect to the Docker daemon on another machine over SSH', data: 'ssh' },
+            { label: 'TCP', description: 'Connect to a Docker daemon that listens on a TCP port', data: 'tcp' },
+        ];
+        const endpointType: DockerContextEndpointType = (await ext.ui.showQuickPick(picks, { placeHolder: 'Select how to connect to the Docker daemon' })).data;
+        context.telemetry.properties.endpointType = endpointType;
+
+        context.endpointType = endpointType;
+        context.host = await ext.ui.showInputBox({
+            prompt: endpointType === 'ssh' ? 'Enter the SSH host to connect to' : 'Enter the address of the Docker daemon',
+            placeHolder: endpointType === 'ssh' ? 'Example: ssh://user@build-server' : 'Example: tcp://build-server:2375',
+            value: `${endpointType}://`,
+            validateInput: v => this.validateHost(endpointType, v)
+        });
+    }
+
+    public shouldPrompt(context: IDockerContextWizardContext): boolean {
+        return !context.host;
+    }
+
+    private validateHost(endpointType: DockerContextEndpointType, value: string): string | undefined {
+        let url: URL | undefined;
+        try {
+            url = new URL(value);
+        } catch {
+            // ignore
+        }
+
+        if (!url || url.protocol !== `${endpointType}:` || !url.hostname) {
+            return endpointType === 'ssh' ? 'Enter a host like "ssh://user@host" or "ssh://user@host:port".' : 'Enter an address like "tcp://host:port".';
+        } else if (endpointType === 'tcp' && !url.port) {
+            return 'Enter the port the Docker daemon listens on, usually 2375 (or 2376 with TLS).';
+        } else {
+            return undefined;
+        }
+    }
+}
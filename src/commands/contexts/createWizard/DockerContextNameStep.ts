@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from 'vscode-azureextensionui';
+import { ext } from '../../../extensionVariables';
+import { dockerContextNameRegExp } from '../../../utils/dockerContexts';
+import { IDockerContextWizardContext } from './IDockerContextWizardContext';
+
+export class DockerContextNameStep extends AzureWizardPromptStep<IDockerContextWizardContext> {
+    public async prompt(context: IDockerContextWizardContext): Promise<void> {
+        context.name = await ext.ui.showInputBox({
+            prompt: 'Enter a name for the context',
+            placeHolder: 'Example: build-server',
+            validateInput: v => this.validateName(context, v)
+        });
+    }
+
+    public shouldPrompt(context: IDockerContextWizardContext): boolean {
+        return !context.name;
+    }
+
+    private validateName(context: IDockerContextWizardContext, value: string): string | undefined {
+        if (!dockerContextNameRegExp.test(value)) {
+            return 'Context names must start with a letter or number, and contain only letters, numbers, "_", ".", "+" and "-".';
+        } else if (context.existingNames.includes(value)) {
+            return `A context named "${value}" already exists.`;
+        } else {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,17 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from 'vscode-azureextensionui';
+
+export type DockerContextEndpointType = 'ssh' | 'tcp';
+
+export interface IDockerContextWizardContext extends IActionContext {
+    existingNames: string[];
+
+    name?: string;
+    endpointType?: DockerContextEndpointType;
+    host?: string;
+    description?: string;
+}
@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { IActionContext } from 'vscode-azureextensionui';
+import { configPrefix } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { ContextTreeItem } from '../../tree/contexts/ContextTreeItem';
+
+export async function useDockerContext(context: IActionContext, node: ContextTreeItem | undefined): Promise<void> {
+    if (!node) {
+        node = await ext.contextsTree.showTreeItemPicker<ContextTreeItem>(ContextTreeItem.inactiveContextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No other contexts are available to switch to'
+        });
+    }
+
+    await switchDockerContext(context, node.name);
+}
+
+/**
+ * Switches the context used by the explorer and by terminals opened from now on, without changing the CLI's current context (like the `DOCKER_CONTEXT` environment variable)
+ */
+export async function switchDockerContext(context: IActionContext, name: string): Promise<void> {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(configPrefix);
+    if (config.get<string>('host')) {
+        context.telemetry.properties.hostSettingOverride = 'true';
+        await ext.ui.showWarningMessage(
+            `The "${configPrefix}.host" setting overrides the context. Remove it to use context "${name}"?`,
+            { modal: true },
+            { title: 'Remove Setting' }
+        );
+        for (const target of getSettingTargets(config, 'host')) {
+            await config.update('host', undefined, target);
+        }
+    }
+
+    // Changing the setting refreshes the explorer and this view. A workspace value would hide a global one, so the most specific value is replaced.
+    const contextTargets: vscode.ConfigurationTarget[] = getSettingTargets(config, 'context');
+    await config.update('context', name, contextTargets.length > 0 ? contextTargets[0] : vscode.ConfigurationTarget.Global);
+
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(`Switched to context "${name}". Terminals that are already open keep using the previous context.`);
+}
+
+/**
+ * Gets the scopes a (window-scoped) setting has a value in, the one that applies first
+ */
+function getSettingTargets(config: vscode.WorkspaceConfiguration, key: string): vscode.ConfigurationTarget[] {
+    const targets: vscode.ConfigurationTarget[] = [];
+    const values = config.inspect(key);
+    if (values && values.workspaceValue !== undefined) {
+        targets.push(vscode.ConfigurationTarget.Workspace);
+    }
+
+    if (values && values.globalValue !== undefined) {
+        targets.push(vscode.ConfigurationTarget.Global);
+    }
+
+    return targets;
+}
@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { ContainerTreeItem } from '../../tree/containers/ContainerTreeItem';
+import { DiskUsageItemTreeItem } from '../../tree/diskUsage/DiskUsageItemTreeItem';
+import { ImageTreeItem } from '../../tree/images/ImageTreeItem';
+import { VolumeTreeItem } from '../../tree/volumes/VolumeTreeItem';
+
+/**
+ * Navigates from an item in the disk usage view to its node in the images, containers or volumes explorer, where it can be removed
+ */
+export async function revealDiskUsageItem(context: IActionContext, node: DiskUsageItemTreeItem | undefined): Promise<void> {
+    if (!node) {
+        node = await ext.diskUsageTree.showTreeItemPicker<DiskUsageItemTreeItem>(DiskUsageItemTreeItem.revealableContextValueRegExp, {
+            ...context,
+            noItemFoundErrorMessage: 'No images, containers or volumes are using disk space'
+        });
+    }
+
+    const id: string = node.item.id;
+    let found: boolean;
+    let explorerName: string;
+    switch (node.item.type) {
+        case 'image':
+            explorerName = 'Images';
+            found = await ext.imagesRoot.revealChildTreeItem(context, ti => ti instanceof ImageTreeItem && ti.imageId === id);
+            break;
+        case 'container':
+            explorerName = 'Containers';
+            found = await ext.containersRoot.revealChildTreeItem(context, ti => ti instanceof ContainerTreeItem && ti.containerId === id);
+            break;
+        case 'volume':
+            explorerName = 'Volumes';
+            found = await ext.volumesRoot.revealChildTreeItem(context, ti => ti instanceof VolumeTreeItem && ti.volumeName === id);
+            break;
+        default:
+            throw new RangeError(`Build cache records are not shown in an explorer.`);
+    }
+
+    context.telemetry.properties.itemType = node.item.type;
+    if (!found) {
+        throw new Error(`Could not find "${node.item.name}" in the ${explorerName} explorer. It may have been removed, or it may be hidden by the explorer's filter.`);
+    }
+}
@@ -0,0 +1,134 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import vscode = require('vscode');
+import { IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+
+interface ILoadImageOutput {
+    stream?: string;
+    error?: string;
+}
+
+/**
+ * Loads images from an archive created by "docker save" (or "Save Image(s) to File..."). The daemon handles compressed archives itself.
+ */
+export async function loadImage(context: IActionContext): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const files: vscode.Uri[] = await ext.ui.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        defaultUri: workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri : undefined,
+        filters: { 'Image archives': ['tar', 'gz', 'tgz'] },
+        openLabel: 'Load'
+    });
+
+    const filePath: string = files[0].fsPath;
+    const fileSize: number = (await fse.stat(filePath)).size;
+    let loadedImages: string[] = [];
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Loading "${path.basename(filePath)}"...`, cancellable: true }, async (progress, token) => {
+        const file: fse.ReadStream = fse.createReadStream(filePath);
+        file.on('data', (chunk: Buffer) => progress.report({ increment: fileSize > 0 ? chunk.length / fileSize * 100 : undefined }));
+
+        // The file is piped into the request through this, so that cancelling can end the request (the daemon then fails the load)
+        const upload: PassThrough = new PassThrough();
+        file.pipe(upload);
+
+        let output: Readable | undefined;
+        let cancellation: vscode.Disposable | undefined;
+        const cancelled: Promise<never> = new Promise<never>((_resolve, reject) => {
+            cancellation = token.onCancellationRequested(() => {
+                file.unpipe(upload);
+                file.destroy();
+                upload.end();
+                if (output) {
+                    output.destroy();
+                }
+
+                reject(new UserCancelledError());
+            });
+        });
+
+        try {
+            // eslint-disable-next-line @typescript-eslint/promise-function-async
+            const loading: Promise<Readable> = callDockerodeWithErrorHandling(() => <Promise<Readable>>ext.dockerode.loadImage(upload), context);
+            loading.then(
+                result => {
+                    if (token.isCancellationRequested) {
+                        result.destroy(); // Cancelled before the daemon responded
+                    }
+                },
+                () => { /* Reported below unless cancelled */ }
+            );
+
+            output = await Promise.race([loading, cancelled]);
+            loadedImages = parseLoadOutput(await Promise.race([readToEnd(output, token), cancelled]));
+        } catch (error) {
+            throw token.isCancellationRequested ? new UserCancelledError() : error;
+        } finally {
+            if (cancellation) {
+                cancellation.dispose();
+            }
+        }
+    });
+
+    context.telemetry.properties.imageCount = String(loadedImages.length);
+    await ext.imagesTree.refresh();
+
+    const message: string = loadedImages.length > 0 ?
+        `Loaded ${loadedImages.map(i => `"${i}"`).join(', ')}.` :
+        `Loaded "${path.basename(filePath)}".`;
+    // don't wait
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(message);
+}
+
+async function readToEnd(stream: Readable, token: vscode.CancellationToken): Promise<string> {
+    const chunks: Buffer[] = [];
+    await new Promise((resolve, reject) => {
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('error', reject);
+        stream.on('end', resolve);
+        stream.on('close', () => token.isCancellationRequested ? reject(new UserCancelledError()) : resolve());
+    });
+
+    return Buffer.concat(chunks).toString();
+}
+
+/**
+ * The output is a series of JSON messages, e.g. `{"stream":"Loaded image: alpine:latest\n"}` or `{"stream":"Loaded image ID: sha256:..."}` for untagged images
+ */
+function parseLoadOutput(output: string): string[] {
+    const loaded: string[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        if (!line.trim()) {
+            continue;
+        }
+
+        let message: ILoadImageOutput;
+        try {
+            message = <ILoadImageOutput>JSON.parse(line);
+        } catch {
+            continue;
+        }
+
+        if (message.error) {
+            throw new Error(message.error);
+        }
+
+        const match = message.stream && /^Loaded image(?: ID)?: (.+)$/.exec(message.stream.trim());
+        if (match) {
+            loaded.push(match[1]);
+        }
+    }
+
+    return loaded;
+}
@@ -0,0 +1,145 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Image } from 'dockerode';
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { Readable } from 'stream';
+import vscode = require('vscode');
+import { AzExtTreeItem, IActionContext, IAzureQuickPickItem, UserCancelledError } from 'vscode-azureextensionui';
+import * as zlib from 'zlib';
+import { ext } from '../../extensionVariables';
+import { ImageTreeItem } from '../../tree/images/ImageTreeItem';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+import { formatBytes } from '../../utils/formatBytes';
+import { getMultiSelectNodes } from '../multiSelectNodes';
+
+const archiveFormats: IAzureQuickPickItem<string>[] = [
+    { label: '.tar', description: 'Uncompressed, the same as "docker save"', data: '.tar' },
+    { label: '.tar.gz', description: 'Compressed with gzip', data: '.tar.gz' },
+];
+
+interface IImageArchiveTarget {
+    node: ImageTreeItem;
+    filePath: string;
+}
+
+export async function saveImage(context: IActionContext, node: ImageTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: ImageTreeItem[] = getMultiSelectNodes(node, selectedNodes, ImageTreeItem.contextValue);
+    if (nodes.length === 0) {
+        nodes = await ext.imagesTree.showTreeItemPicker(ImageTreeItem.contextValue, {
+            ...context,
+            canPickMany: true,
+            noItemFoundErrorMessage: 'No images are available to save'
+        });
+    }
+
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    const defaultDir: string | undefined = workspaceFolders && workspaceFolders.length > 0 ? workspaceFolders[0].uri.fsPath : undefined;
+    let targets: IImageArchiveTarget[];
+    if (nodes.length === 1) {
+        const fileName: string = getArchiveBaseName(nodes[0]) + '.tar';
+        const uri: vscode.Uri | undefined = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(defaultDir ? path.join(defaultDir, fileName) : fileName),
+            filters: { 'Image archives': ['tar', 'gz'] },
+            saveLabel: 'Save'
+        });
+        if (!uri) {
+            throw new UserCancelledError();
+        }
+
+        targets = [{ node: nodes[0], filePath: uri.fsPath }];
+    } else {
+        const format: string = (await ext.ui.showQuickPick(archiveFormats, { placeHolder: 'Select the archive format' })).data;
+        const folder: vscode.Uri[] = await ext.ui.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: defaultDir ? vscode.Uri.file(defaultDir) : undefined,
+            openLabel: 'Save Here'
+        });
+        targets = nodes.map(n => ({ node: n, filePath: path.join(folder[0].fsPath, getArchiveBaseName(n) + format) }));
+    }
+
+    context.telemetry.properties.imageCount = String(targets.length);
+    context.telemetry.properties.compressed = String(targets.some(t => isGzipPath(t.filePath)));
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Saving image(s)...', cancellable: true }, async (progress, token) => {
+        for (const target of targets) {
+            progress.report({ message: `"${target.node.fullTag}"` });
+            await saveImageToFile(context, target, token, bytes => progress.report({ message: `"${target.node.fullTag}" (${formatBytes(bytes)})` }));
+        }
+    });
+
+    const message: string = targets.length === 1 ?
+        `Saved image "${targets[0].node.fullTag}" to "${targets[0].filePath}".` :
+        `Saved ${targets.length} images to "${path.dirname(targets[0].filePath)}".`;
+    // don't wait
+    /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+    vscode.window.showInformationMessage(message);
+}
+
+async function saveImageToFile(context: IActionContext, target: IImageArchiveTarget, token: vscode.CancellationToken, onProgress: (bytes: number) => void): Promise<void> {
+    const image: Image = target.node.getImage();
+    // eslint-disable-next-line @typescript-eslint/promise-function-async
+    const source = <Readable>await callDockerodeWithErrorHandling(() => image.get(), context);
+    const gzip: zlib.Gzip | undefined = isGzipPath(target.filePath) ? zlib.createGzip() : undefined;
+    const file: fse.WriteStream = fse.createWriteStream(target.filePath);
+
+    let bytes: number = 0;
+    let lastReported: number = 0;
+    source.on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (Date.now() - lastReported > 500) {
+            lastReported = Date.now();
+            onProgress(bytes);
+        }
+    });
+
+    let cancellation: vscode.Disposable | undefined;
+    try {
+        await new Promise((resolve, reject) => {
+            cancellation = token.onCancellationRequested(() => reject(new UserCancelledError()));
+            source.on('error', reject);
+            file.on('error', reject);
+            file.on('close', resolve);
+            if (gzip) {
+                gzip.on('error', reject);
+                source.pipe(gzip).pipe(file);
+            } else {
+                source.pipe(file);
+            }
+        });
+    } catch (error) {
+        // Don't leave a partial archive behind
+        source.destroy();
+        if (gzip) {
+            gzip.destroy();
+        }
+        file.destroy();
+        await fse.remove(target.filePath);
+        throw error;
+    } finally {
+        if (cancellation) {
+            cancellation.dispose();
+        }
+    }
+}
+
+/**
+ * e.g. "myregistry.azurecr.io/app:1.0" => "app_1.0"
+ */
+function getArchiveBaseName(node: ImageTreeItem): string {
+    const fullTag: string = node.fullTag;
+    if (/<none>/.test(fullTag)) {
+        return node.imageId.replace(/^sha256:/, '').slice(0, 12);
+    }
+
+    return fullTag.slice(fullTag.lastIndexOf('/') + 1).replace(/[\\/:*?"<>|]/g, '_');
+}
+
+function isGzipPath(filePath: string): boolean {
+    return /\.(tar\.gz|tgz|gz)$/i.test(filePath);
+}
@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import vscode = require('vscode');
+import { AzExtTreeItem, IActionContext, IParsedError, parseError } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+
+export interface IMultiSelectOperationOptions {
+    /**
+     * e.g. "Stopping container(s)..."
+     */
+    progressTitle: string;
+
+    /**
+     * e.g. "Stopped"
+     */
+    completedVerb: string;
+
+    /**
+     * e.g. "container"
+     */
+    itemType: string;
+}
+
+/**
+ * When a tree supports multi-select, VS Code passes the node the command was executed on followed by all selected nodes.
+ * Returns the selected nodes that the command applies to (e.g. only running containers for "Stop"), or just `node` if it isn't part of the selection
+ * or none of the selected nodes apply. An empty result only means no node was passed, i.e. the command should prompt for one.
+ */
+export function getMultiSelectNodes<T extends AzExtTreeItem>(node: T | undefined, selectedNodes: AzExtTreeItem[] | undefined, expectedContextValue: string | RegExp): T[] {
+    if (!node) {
+        return [];
+    } else if (!selectedNodes || !selectedNodes.includes(node)) {
+        return [node];
+    } else {
+        const nodes = <T[]>selectedNodes.filter(n => n.contextValue === expectedContextValue || (expectedContextValue instanceof RegExp && expectedContextValue.test(n.contextValue)));
+        // Act on the clicked node rather than prompting when nothing else in the selection applies
+        return nodes.length > 0 ? nodes : [node];
+    }
+}
+
+/**
+ * Runs an operation on all nodes in parallel. A failure on one node doesn't stop the others - instead all failures are reported in a single summary at the end.
+ */
+export async function runOnMultipleNodes<T extends AzExtTreeItem>(context: IActionContext, nodes: T[], options: IMultiSelectOperationOptions, operation: (node: T) => Promise<void>): Promise<void> {
+    const failures: { node: T, error: IParsedError }[] = [];
+
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: options.progressTitle }, async () => {
+        await Promise.all(nodes.map(async n => {
+            try {
+                await operation(n);
+            } catch (error) {
+                if (nodes.length === 1) {
+                    throw error;
+                }
+
+                failures.push({ node: n, error: parseError(error) });
+            }
+        }));
+    });
+
+    if (nodes.length > 1) {
+        context.telemetry.properties.nodeCount = String(nodes.length);
+        context.telemetry.properties.failedCount = String(failures.length);
+
+        const succeeded = nodes.length - failures.length;
+        const summary = `${options.completedVerb} ${succeeded} of ${nodes.length} ${options.itemType}s.`;
+        if (failures.length === 0) {
+            /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+            vscode.window.showInformationMessage(summary);
+        } else {
+            for (const failure of failures) {
+                ext.outputChannel.appendLog(`Failed on ${options.itemType} "${failure.node.label}": ${failure.error.message}`);
+            }
+
+            const failedLabels = failures.map(f => `"${f.node.label}"`).join(', ');
+            const showOutput: vscode.MessageItem = { title: 'Show Output' };
+            /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+            vscode.window.showWarningMessage(`${summary} Failed: ${failedLabels}.`, showOutput).then(result => {
+                if (result === showOutput) {
+                    ext.outputChannel.show();
+                }
+            });
+        }
+    }
+}
@@ -0,0 +1,60 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ContainerInfo, Network } from 'dockerode';
+import vscode = require('vscode');
+import { IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { NetworkTreeItem } from '../../tree/networks/NetworkTreeItem';
+import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
+
+const aliasRegExp: RegExp = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+export async function connectContainerToNetwork(context: IActionContext, node?: NetworkTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.networksTree.showTreeItemPicker<NetworkTreeItem>(NetworkTreeItem.contextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No networks are available to connect to'
+        });
+    }
+
+    const networkName: string = node.networkName;
+    // eslint-disable-next-line @typescript-eslint/promise-function-async
+    const containers: ContainerInfo[] = await callDockerodeWithErrorHandling(() => ext.dockerode.listContainers({ all: true }), context);
+    const picks: IAzureQuickPickItem<ContainerInfo>[] = containers
+        .filter(c => !(c.NetworkSettings && c.NetworkSettings.Networks && c.NetworkSettings.Networks[networkName]))
+        .map(c => ({ label: c.Names[0].replace(/^\//, ''), description: c.Image, data: c }));
+
+    if (picks.length === 0) {
+        throw new Error(`All containers are already connected to network "${networkName}".`);
+    }
+
+    const container: ContainerInfo = (await ext.ui.showQuickPick(picks, { placeHolder: `Select a container to connect to network "${networkName}"` })).data;
+
+    const aliasesInput: string = await ext.ui.showInputBox({
+        prompt: 'Enter any additional network aliases for the container, separated by commas (optional)',
+        validateInput: (value: string) => {
+            const invalidAlias = splitAliases(value).find(a => !aliasRegExp.test(a));
+            return invalidAlias ? `"${invalidAlias}" is not a valid alias.` : undefined;
+        }
+    });
+
+    const aliases: string[] = splitAliases(aliasesInput);
+    context.telemetry.properties.hasAliases = String(aliases.length > 0);
+
+    const network: Network = node.getNetwork();
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Connecting to network "${networkName}"...` }, async () => {
+        await callDockerodeWithErrorHandling(
+            // eslint-disable-next-line @typescript-eslint/promise-function-async
+            () => network.connect({ Container: container.Id, EndpointConfig: aliases.length > 0 ? { Aliases: aliases } : undefined }),
+            context);
+    });
+
+    await node.refresh();
+}
+
+function splitAliases(value: string): string[] {
+    return value.split(',').map(a => a.trim()).filter(a => !!a);
+}
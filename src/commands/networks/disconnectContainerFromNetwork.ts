@@ -0,0 +1,25 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { NetworkContainerTreeItem } from '../../tree/networks/NetworkContainerTreeItem';
+
+export async function disconnectContainerFromNetwork(context: IActionContext, node?: NetworkContainerTreeItem): Promise<void> {
+    if (!node) {
+        node = await ext.networksTree.showTreeItemPicker<NetworkContainerTreeItem>(NetworkContainerTreeItem.contextValue, {
+            ...context,
+            noItemFoundErrorMessage: 'No containers are connected to a network'
+        });
+    }
+
+    // no need to check result - cancel will throw a UserCancelledError
+    await ext.ui.showWarningMessage(
+        `Are you sure you want to disconnect container "${node.label}" from network "${node.parent.networkName}"?`,
+        { modal: true },
+        { title: 'Disconnect' });
+
+    await node.deleteTreeItem(context);
+}
@@ -3,16 +3,14 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import vscode = require('vscode');
-import { IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { AzExtTreeItem, IActionContext, UserCancelledError } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
 import { NetworkTreeItem } from '../../tree/networks/NetworkTreeItem';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
 
-export async function removeNetwork(context: IActionContext, node: NetworkTreeItem | undefined): Promise<void> {
-    let nodes: NetworkTreeItem[] = [];
-    if (node) {
-        nodes = [node];
-    } else {
+export async function removeNetwork(context: IActionContext, node: NetworkTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: NetworkTreeItem[] = getMultiSelectNodes(node, selectedNodes, NetworkTreeItem.contextValue);
+    if (nodes.length === 0) {
         nodes = await ext.networksTree.showTreeItemPicker(NetworkTreeItem.contextValue, {
             ...context,
             canPickMany: true,
@@ -28,14 +26,11 @@ export async function removeNetwork(context: IActionContext, node: NetworkTreeIt
         node = nodes[0];
         confirmRemove = `Are you sure you want to remove network "${node.label}"?`;
     } else {
-        confirmRemove = "Are you sure you want to remove selected networks?";
+        confirmRemove = `Are you sure you want to remove the ${nodes.length} selected networks?`;
     }
 
     // no need to check result - cancel will throw a UserCancelledError
     await ext.ui.showWarningMessage(confirmRemove, { modal: true }, { title: 'Remove' });
 
-    let removing: string = "Removing network(s)...";
-    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: removing }, async () => {
-        await Promise.all(nodes.map(async n => await n.deleteTreeItem(context)));
-    });
+    await runOnMultipleNodes(context, nodes, { progressTitle: 'Removing network(s)...', completedVerb: 'Removed', itemType: 'network' }, async n => await n.deleteTreeItem(context));
 }
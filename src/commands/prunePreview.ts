@@ -0,0 +1,285 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ContainerInfo, ImageInfo, NetworkInspectInfo } from 'dockerode';
+import vscode = require('vscode');
+import { IActionContext, IAzureQuickPickItem, IParsedError, parseError, UserCancelledError } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+import { callDockerodeWithErrorHandling } from '../utils/callDockerodeWithErrorHandling';
+import { convertToMB } from '../utils/convertToMB';
+import { IDiskUsage } from '../utils/diskUsage';
+import { formatBytes } from '../utils/formatBytes';
+import { IPruneFilters, matchesPruneFilters, parsePruneFilters } from '../utils/pruneFilters';
+
+export type PruneObjectType = 'container' | 'image' | 'network' | 'volume';
+
+interface IPruneCandidate {
+    type: PruneObjectType;
+    id: string;
+    name: string;
+
+    /**
+     * The space reclaimed by removing this object, if known
+     */
+    size?: number;
+
+    /**
+     * The containers being pruned that use this object, which is only removed if they are
+     */
+    usedByContainerIds?: string[];
+    remove(): Promise<void>;
+}
+
+// Removing containers first frees up the images, networks and volumes they use
+const typeOrder: PruneObjectType[] = ['container', 'image', 'network', 'volume'];
+const predefinedNetworks: string[] = ['bridge', 'host', 'none'];
+
+/**
+ * Computes what a prune would remove (the same objects `docker <type> prune` removes) and lets the user exclude individual objects before anything is deleted.
+ * Only the objects that are still selected are removed (individually rather than through the prune API), so the result matches exactly what was previewed.
+ */
+export async function prunePreview(context: IActionContext, types: PruneObjectType[], objectsDescription: string): Promise<void> {
+    const filtersText: string = await ext.ui.showInputBox({
+        prompt: `Enter filters to limit which ${objectsDescription} are removed (optional), e.g. "until=24h label!=keep"`,
+        validateInput: (value: string): string | undefined => {
+            try {
+                parsePruneFilters(value);
+                return undefined;
+            } catch (error) {
+                return parseError(error).message;
+            }
+        }
+    });
+    const filters: IPruneFilters = parsePruneFilters(filtersText);
+    context.telemetry.properties.hasUntilFilter = String(filters.until !== undefined);
+    context.telemetry.properties.labelFilterCount = String(filters.labels.length);
+
+    const candidates: IPruneCandidate[] = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Finding items to remove...' }, async () => {
+        const result: IPruneCandidate[] = [];
+        for (const type of typeOrder.filter(t => types.includes(t))) {
+            // Like `docker system prune`, objects only used by the containers that are removed first are removed too
+            const prunedContainerIds = new Set<string>(result.filter(c => c.type === 'container').map(c => c.id));
+            result.push(...await getPruneCandidates(context, type, filters, prunedContainerIds));
+        }
+        return result;
+    });
+
+    if (candidates.length === 0) {
+        /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+        vscode.window.showInformationMessage(`There are no ${objectsDescription} to remove.`);
+        return;
+    }
+
+    const { selected, stillUsed } = await pickCandidates(context, candidates, objectsDescription);
+    if (selected.length === 0) {
+        /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+        vscode.window.showInformationMessage(`Nothing was removed, since the selected ${objectsDescription} are used by the containers you kept.`);
+        return;
+    }
+
+    const keptDescription: string = stillUsed.length > 0 ? ` ${describeCounts(stillUsed)} used by the containers you kept will be kept too.` : '';
+    const totalSize: number = selected.reduce((total, c) => total + (c.size || 0), 0);
+    const confirmPrune: string = `Are you sure you want to remove ${describeCounts(selected)}${totalSize > 0 ? ` (${formatBytes(totalSize)})` : ''}?${keptDescription}`;
+    // no need to check result - cancel will throw a UserCancelledError
+    await ext.ui.showWarningMessage(confirmPrune, { modal: true }, { title: 'Remove' });
+
+    const removed: IPruneCandidate[] = [];
+    const failures: { candidate: IPruneCandidate, error: IParsedError }[] = [];
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Removing...' }, async () => {
+        for (const type of typeOrder) {
+            await Promise.all(selected.filter(c => c.type === type).map(async c => {
+                try {
+                    // eslint-disable-next-line @typescript-eslint/promise-function-async
+                    await callDockerodeWithErrorHandling(() => c.remove(), context);
+                    removed.push(c);
+                } catch (error) {
+                    failures.push({ candidate: c, error: parseError(error) });
+                }
+            }));
+        }
+    });
+
+    await ext.diskUsageTree.refresh();
+
+    const mbReclaimed = convertToMB(removed.reduce((total, c) => total + (c.size || 0), 0));
+    const message = `Removed ${removed.length > 0 ? describeCounts(removed) : 'nothing'} and reclaimed ${mbReclaimed}MB of space.`;
+    if (failures.length === 0) {
+        // don't wait
+        /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+        vscode.window.showInformationMessage(message);
+    } else {
+        for (const failure of failures) {
+            ext.outputChannel.appendLog(`Failed to remove ${failure.candidate.type} "${failure.candidate.name}": ${failure.error.message}`);
+        }
+
+        const showOutput: vscode.MessageItem = { title: 'Show Output' };
+        /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+        vscode.window.showWarningMessage(`${message} Failed to remove ${failures.map(f => `"${f.candidate.name}"`).join(', ')}.`, showOutput).then(result => {
+            if (result === showOutput) {
+                ext.outputChannel.show();
+            }
+        });
+    }
+}
+
+/**
+ * Lets the user uncheck the objects they want to keep. Objects that are still used by the containers the user unchecked can't be removed,
+ * so they're returned separately instead of as selected.
+ */
+async function pickCandidates(context: IActionContext, candidates: IPruneCandidate[], objectsDescription: string): Promise<{ selected: IPruneCandidate[], stillUsed: IPruneCandidate[] }> {
+    const picks: IAzureQuickPickItem<IPruneCandidate>[] = candidates.map(c => ({
+        label: c.name,
+        description: c.size !== undefined ? `${c.type}, ${formatBytes(c.size)}` : c.type,
+        data: c
+    }));
+    const picked: IPruneCandidate[] = (await ext.ui.showQuickPick(picks, {
+        canPickMany: true,
+        placeHolder: `Select the ${objectsDescription} to remove. Uncheck anything you want to keep.`,
+        isPickSelected: () => true,
+        suppressPersistence: true
+    })).map(p => p.data);
+
+    context.telemetry.properties.candidateCount = String(candidates.length);
+    context.telemetry.properties.selectedCount = String(picked.length);
+    if (picked.length === 0) {
+        throw new UserCancelledError();
+    }
+
+    const keptContainerIds = new Set<string>(candidates.filter(c => c.type === 'container' && !picked.includes(c)).map(c => c.id));
+    const stillUsed: IPruneCandidate[] = picked.filter(c => (c.usedByContainerIds || []).some(id => keptContainerIds.has(id)));
+    context.telemetry.properties.stillUsedCount = String(stillUsed.length);
+    return { selected: picked.filter(c => !stillUsed.includes(c)), stillUsed };
+}
+
+/**
+ * @param prunedContainerIds The containers that are removed before objects of this type, so they don't count as using them
+ */
+async function getPruneCandidates(context: IActionContext, type: PruneObjectType, filters: IPruneFilters, prunedContainerIds: Set<string>): Promise<IPruneCandidate[]> {
+    switch (type) {
+        case 'container':
+            return getContainerCandidates(context, filters);
+        case 'image':
+            return getImageCandidates(context, filters, prunedContainerIds);
+        case 'network':
+            return getNetworkCandidates(context, filters, prunedContainerIds);
+        case 'volume':
+            return getVolumeCandidates(context, filters, prunedContainerIds);
+        default:
+            throw new RangeError(`Unexpected type "${type}".`);
+    }
+}
+
+async function getContainerCandidates(context: IActionContext, filters: IPruneFilters): Promise<IPruneCandidate[]> {
+    // eslint-disable-next-line @typescript-eslint/promise-function-async
+    const containers: (ContainerInfo & { SizeRw?: number })[] = await callDockerodeWithErrorHandling(() => ext.dockerode.listContainers({ all: true, size: true, filters: { status: ['created', 'dead', 'exited'] } }), context) || [];
+    return containers
+        .filter(c => matchesPruneFilters(filters, c.Created * 1000, c.Labels))
+        .map(c => ({
+            type: <PruneObjectType>'container',
+            id: c.Id,
+            name: c.Names[0].replace(/^\//, ''),
+            size: c.SizeRw,
+            remove: async () => ext.dockerode.getContainer(c.Id).remove()
+        }));
+}
+
+async function getImageCandidates(context: IActionContext, filters: IPruneFilters, prunedContainerIds: Set<string>): Promise<IPruneCandidate[]> {
+    // eslint-disable-next-line @typescript-eslint/promise-function-async
+    const images: ImageInfo[] = await callDockerodeWithErrorHandling(() => ext.dockerode.listImages({ filters: { dangling: ['true'] } }), context) || [];
+    const usage: Map<string, string[]> = getContainerUsage(await listAllContainers(context), c => [c.ImageID]);
+
+    return images
+        .filter(i => isUnused(usage, i.Id, prunedContainerIds))
+        .filter(i => matchesPruneFilters(filters, i.Created * 1000, i.Labels))
+        .map(i => ({
+            type: <PruneObjectType>'image',
+            id: i.Id,
+            name: i.Id.replace(/^sha256:/, '').slice(0, 12),
+            size: i.Size,
+            usedByContainerIds: usage.get(i.Id),
+            remove: async () => ext.dockerode.getImage(i.Id).remove()
+        }));
+}
+
+async function getNetworkCandidates(context: IActionContext, filters: IPruneFilters, prunedContainerIds: Set<string>): Promise<IPruneCandidate[]> {
+    // eslint-disable-next-line @typescript-eslint/promise-function-async
+    const networks: NetworkInspectInfo[] = await callDockerodeWithErrorHandling(() => ext.dockerode.listNetworks(), context) || [];
+
+    // Stopped containers still reference their networks, so only networks without any containers are unused
+    const usage: Map<string, string[]> = getContainerUsage(await listAllContainers(context), c => {
+        const containerNetworks = c.NetworkSettings && c.NetworkSettings.Networks || {};
+        return Object.keys(containerNetworks).map(name => containerNetworks[name].NetworkID);
+    });
+
+    return networks
+        .filter(n => !predefinedNetworks.includes(n.Name) && n.Scope !== 'swarm' && isUnused(usage, n.Id, prunedContainerIds))
+        .filter(n => matchesPruneFilters(filters, new Date(n.Created).valueOf(), n.Labels))
+        .map(n => ({
+            type: <PruneObjectType>'network',
+            id: n.Id,
+            name: n.Name,
+            usedByContainerIds: usage.get(n.Id),
+            remove: async () => ext.dockerode.getNetwork(n.Id).remove()
+        }));
+}
+
+async function getVolumeCandidates(context: IActionContext, filters: IPruneFilters, prunedContainerIds: Set<string>): Promise<IPruneCandidate[]> {
+    // The disk usage API is the only one that includes volume sizes
+    // eslint-disable-next-line @typescript-eslint/promise-function-async
+    const diskUsage: IDiskUsage = await callDockerodeWithErrorHandling<IDiskUsage>(() => ext.dockerode.df(), context);
+    const usage: Map<string, string[]> = getContainerUsage(await listAllContainers(context), c => (c.Mounts || []).filter(m => m.Type === 'volume' && m.Name).map(m => m.Name));
+
+    return (diskUsage.Volumes || [])
+        .filter(v => isUnused(usage, v.Name, prunedContainerIds))
+        .filter(v => matchesPruneFilters(filters, v.CreatedAt ? new Date(v.CreatedAt).valueOf() : undefined, v.Labels || undefined))
+        .map(v => ({
+            type: <PruneObjectType>'volume',
+            id: v.Name,
+            name: v.Name,
+            size: v.UsageData && v.UsageData.Size >= 0 ? v.UsageData.Size : undefined,
+            usedByContainerIds: usage.get(v.Name),
+            remove: async () => ext.dockerode.getVolume(v.Name).remove()
+        }));
+}
+
+/**
+ * Gets all containers, running or not
+ */
+async function listAllContainers(context: IActionContext): Promise<ContainerInfo[]> {
+    // eslint-disable-next-line @typescript-eslint/promise-function-async
+    return await callDockerodeWithErrorHandling(() => ext.dockerode.listContainers({ all: true }), context) || [];
+}
+
+/**
+ * Maps the IDs (or names) of the objects containers use to the IDs of the containers that use them
+ */
+function getContainerUsage(containers: ContainerInfo[], getUsedIds: (container: ContainerInfo) => string[]): Map<string, string[]> {
+    const usage = new Map<string, string[]>();
+    for (const container of containers) {
+        for (const id of getUsedIds(container)) {
+            usage.set(id, [...(usage.get(id) || []), container.Id]);
+        }
+    }
+
+    return usage;
+}
+
+/**
+ * Whether an object isn't used by any containers, except the ones that are removed by the prune
+ */
+function isUnused(usage: Map<string, string[]>, id: string, prunedContainerIds: Set<string>): boolean {
+    return (usage.get(id) || []).every(containerId => prunedContainerIds.has(containerId));
+}
+
+/**
+ * e.g. "2 container(s) and 1 image(s)"
+ */
+function describeCounts(candidates: IPruneCandidate[]): string {
+    const counts: string[] = typeOrder
+        .map(type => ({ type, count: candidates.filter(c => c.type === type).length }))
+        .filter(c => c.count > 0)
+        .map(c => `${c.count} ${c.type}(s)`);
+    return counts.length > 1 ? `${counts.slice(0, -1).join(', ')} and ${counts[counts.length - 1]}` : counts[0];
+}
@@ -9,27 +9,59 @@ import { configure, configureApi } from "../configureWorkspace/configure";
 import { composeDown, composeRestart, composeUp } from "./compose";
 import { attachShellContainer } from "./containers/attachShellContainer";
 import { browseContainer } from "./containers/browseContainer";
+import { commitContainer } from "./containers/commitContainer";
+import { downComposeProject, restartComposeProject, startComposeProject, stopComposeProject, viewComposeProjectLogs } from "./containers/composeProject";
 import { configureContainersExplorer } from "./containers/configureContainersExplorer";
+import { copyContainerDetailValue } from "./containers/details/copyContainerDetailValue";
+import { openContainerPortInBrowser } from "./containers/details/openContainerPortInBrowser";
+import { revealContainerVolume } from "./containers/details/revealContainerVolume";
+import { copyFromContainer } from "./containers/files/copyFromContainer";
+import { copyIntoContainer } from "./containers/files/copyIntoContainer";
+import { downloadContainerFile } from "./containers/files/downloadContainerFile";
+import { openContainerFile } from "./containers/files/openContainerFile";
+import { uploadContainerFile } from "./containers/files/uploadContainerFile";
+import { clearContainersExplorerFilter, filterContainersExplorer } from "./containers/filterContainersExplorer";
 import { inspectContainer } from "./containers/inspectContainer";
+import { killContainer } from "./containers/killContainer";
+import { configureContainerLogs } from "./containers/logs/configureContainerLogs";
+import { exportContainerLogs } from "./containers/logs/exportContainerLogs";
+import { filterContainerLogs } from "./containers/logs/filterContainerLogs";
+import { limitContainerLogs } from "./containers/logs/limitContainerLogs";
+import { restartContainerLogs } from "./containers/logs/restartContainerLogs";
+import { pauseContainer } from "./containers/pauseContainer";
 import { pruneContainers } from "./containers/pruneContainers";
 import { removeContainer } from "./containers/removeContainer";
+import { renameContainer } from "./containers/renameContainer";
 import { restartContainer } from "./containers/restartContainer";
 import { selectContainer } from "./containers/selectContainer";
+import { showContainerChanges } from "./containers/showContainerChanges";
+import { showContainerProcesses } from "./containers/showContainerProcesses";
+import { showContainerStats } from "./containers/showContainerStats";
 import { startContainer } from "./containers/startContainer";
 import { stopContainer } from "./containers/stopContainer";
-import { viewContainerLogs } from "./containers/viewContainerLogs";
+import { unpauseContainer } from "./containers/unpauseContainer";
+import { viewContainerGroupLogs, viewContainerLogs } from "./containers/viewContainerLogs";
+import { createDockerContext } from "./contexts/createDockerContext";
+import { useDockerContext } from "./contexts/useDockerContext";
+import { revealDiskUsageItem } from "./diskUsage/revealDiskUsageItem";
 import { buildImage } from "./images/buildImage";
 import { configureImagesExplorer } from "./images/configureImagesExplorer";
 import { copyFullTag } from "./images/copyFullTag";
+import { clearImagesExplorerFilter, filterImagesExplorer } from "./images/filterImagesExplorer";
 import { inspectImage } from "./images/inspectImage";
+import { loadImage } from "./images/loadImage";
 import { pruneImages } from "./images/pruneImages";
 import { pushImage } from "./images/pushImage";
 import { removeImage } from "./images/removeImage";
 import { runAzureCliImage } from "./images/runAzureCliImage";
 import { runImage, runImageInteractive } from "./images/runImage";
+import { saveImage } from "./images/saveImage";
 import { tagImage } from "./images/tagImage";
 import { configureNetworksExplorer } from "./networks/configureNetworksExplorer";
+import { connectContainerToNetwork } from "./networks/connectContainerToNetwork";
 import { createNetwork } from "./networks/createNetwork";
+import { disconnectContainerFromNetwork } from "./networks/disconnectContainerFromNetwork";
+import { clearNetworksExplorerFilter, filterNetworksExplorer } from "./networks/filterNetworksExplorer";
 import { inspectNetwork } from "./networks/inspectNetwork";
 import { pruneNetworks } from "./networks/pruneNetworks";
 import { removeNetwork } from "./networks/removeNetwork";
@@ -55,45 +87,91 @@ import { logInToDockerCli } from "./registries/logInToDockerCli";
 import { logOutOfDockerCli } from "./registries/logOutOfDockerCli";
 import { pullImage, pullRepository } from "./registries/pullImages";
 import { setRegistryAsDefault } from "./registries/registrySettings";
+import { showResolvedComposeFile } from "./showResolvedComposeFile";
 import { configureVolumesExplorer } from "./volumes/configureVolumesExplorer";
+import { clearVolumesExplorerFilter, filterVolumesExplorer } from "./volumes/filterVolumesExplorer";
 import { inspectVolume } from "./volumes/inspectVolume";
 import { pruneVolumes } from "./volumes/pruneVolumes";
 import { removeVolume } from "./volumes/removeVolume";
 
+// tslint:disable-next-line:max-func-body-length // Because every command is registered here
 export function registerCommands(): void {
     registerWorkspaceCommand('vscode-docker.api.configure', configureApi);
     registerWorkspaceCommand('vscode-docker.compose.down', composeDown);
     registerWorkspaceCommand('vscode-docker.compose.restart', composeRestart);
+    registerCommand('vscode-docker.compose.showResolved', showResolvedComposeFile);
     registerWorkspaceCommand('vscode-docker.compose.up', composeUp);
     registerWorkspaceCommand('vscode-docker.configure', configure);
     registerCommand('vscode-docker.pruneSystem', pruneSystem);
 
     registerWorkspaceCommand('vscode-docker.containers.attachShell', attachShellContainer);
     registerCommand('vscode-docker.containers.browse', browseContainer);
+    registerWorkspaceCommand('vscode-docker.containers.composeProject.down', downComposeProject);
+    registerWorkspaceCommand('vscode-docker.containers.composeProject.logs', viewComposeProjectLogs);
+    registerCommand('vscode-docker.containers.composeProject.restart', restartComposeProject);
+    registerCommand('vscode-docker.containers.composeProject.start', startComposeProject);
+    registerCommand('vscode-docker.containers.composeProject.stop', stopComposeProject);
+    registerWorkspaceCommand('vscode-docker.containers.files.download', downloadContainerFile);
+    registerCommand('vscode-docker.containers.files.open', openContainerFile);
+    registerWorkspaceCommand('vscode-docker.containers.files.upload', uploadContainerFile);
     registerCommand('vscode-docker.containers.inspect', inspectContainer);
+    registerCommand('vscode-docker.containers.logs.configure', configureContainerLogs);
+    registerWorkspaceCommand('vscode-docker.containers.logs.export', exportContainerLogs);
+    registerCommand('vscode-docker.containers.logs.filter', filterContainerLogs);
+    registerCommand('vscode-docker.containers.logs.limit', limitContainerLogs);
+    registerCommand('vscode-docker.containers.logs.restart', restartContainerLogs);
+    registerCommand('vscode-docker.containers.clearFilter', clearContainersExplorerFilter);
+    registerCommand('vscode-docker.containers.commit', commitContainer);
     registerCommand('vscode-docker.containers.configureExplorer', configureContainersExplorer);
+    registerWorkspaceCommand('vscode-docker.containers.copyFrom', copyFromContainer);
+    registerWorkspaceCommand('vscode-docker.containers.copyInto', copyIntoContainer);
+    registerCommand('vscode-docker.containers.details.copyValue', copyContainerDetailValue);
+    registerCommand('vscode-docker.containers.details.openInBrowser', openContainerPortInBrowser);
+    registerCommand('vscode-docker.containers.details.revealVolume', revealContainerVolume);
+    registerCommand('vscode-docker.containers.filter', filterContainersExplorer);
+    registerCommand('vscode-docker.containers.group.viewLogs', viewContainerGroupLogs);
+    registerCommand('vscode-docker.containers.kill', killContainer);
+    registerCommand('vscode-docker.containers.pause', pauseContainer);
     registerCommand('vscode-docker.containers.prune', pruneContainers);
     registerCommand('vscode-docker.containers.remove', removeContainer);
+    registerCommand('vscode-docker.containers.rename', renameContainer);
     registerCommand('vscode-docker.containers.restart', restartContainer);
     registerCommand('vscode-docker.containers.select', selectContainer);
+    registerCommand('vscode-docker.containers.showChanges', showContainerChanges);
+    registerCommand('vscode-docker.containers.showProcesses', showContainerProcesses);
+    registerCommand('vscode-docker.containers.showStats', showContainerStats);
     registerCommand('vscode-docker.containers.start', startContainer);
     registerCommand('vscode-docker.containers.stop', stopContainer);
+    registerCommand('vscode-docker.containers.unpause', unpauseContainer);
     registerWorkspaceCommand('vscode-docker.containers.viewLogs', viewContainerLogs);
 
+    registerWorkspaceCommand('vscode-docker.contexts.create', createDockerContext);
+    registerCommand('vscode-docker.contexts.use', useDockerContext);
+
+    registerCommand('vscode-docker.diskUsage.reveal', revealDiskUsageItem);
+
     registerWorkspaceCommand('vscode-docker.images.build', buildImage);
+    registerCommand('vscode-docker.images.clearFilter', clearImagesExplorerFilter);
     registerCommand('vscode-docker.images.configureExplorer', configureImagesExplorer);
+    registerCommand('vscode-docker.images.filter', filterImagesExplorer);
     registerCommand('vscode-docker.images.inspect', inspectImage);
+    registerWorkspaceCommand('vscode-docker.images.load', loadImage);
     registerCommand('vscode-docker.images.prune', pruneImages);
     registerWorkspaceCommand('vscode-docker.images.push', pushImage);
     registerCommand('vscode-docker.images.remove', removeImage);
     registerWorkspaceCommand('vscode-docker.images.run', runImage);
     registerWorkspaceCommand('vscode-docker.images.runAzureCli', runAzureCliImage);
     registerWorkspaceCommand('vscode-docker.images.runInteractive', runImageInteractive);
+    registerWorkspaceCommand('vscode-docker.images.save', saveImage);
     registerCommand('vscode-docker.images.tag', tagImage);
     registerCommand('vscode-docker.images.copyFullTag', copyFullTag);
 
+    registerCommand('vscode-docker.networks.clearFilter', clearNetworksExplorerFilter);
     registerCommand('vscode-docker.networks.configureExplorer', configureNetworksExplorer);
+    registerCommand('vscode-docker.networks.filter', filterNetworksExplorer);
+    registerCommand('vscode-docker.networks.connectContainer', connectContainerToNetwork);
     registerCommand('vscode-docker.networks.create', createNetwork);
+    registerCommand('vscode-docker.networks.disconnectContainer', disconnectContainerFromNetwork);
     registerCommand('vscode-docker.networks.inspect', inspectNetwork);
     registerCommand('vscode-docker.networks.remove', removeNetwork);
     registerCommand('vscode-docker.networks.prune', pruneNetworks);
@@ -123,7 +201,9 @@ export function registerCommands(): void {
     registerCommand('vscode-docker.registries.azure.viewProperties', viewAzureProperties);
     registerCommand('vscode-docker.registries.azure.viewTaskLogs', viewAzureTaskLogs);
 
+    registerCommand('vscode-docker.volumes.clearFilter', clearVolumesExplorerFilter);
     registerCommand('vscode-docker.volumes.configureExplorer', configureVolumesExplorer);
+    registerCommand('vscode-docker.volumes.filter', filterVolumesExplorer);
     registerCommand('vscode-docker.volumes.inspect', inspectVolume);
     registerCommand('vscode-docker.volumes.prune', pruneVolumes);
     registerCommand('vscode-docker.volumes.remove', removeVolume);
@@ -0,0 +1,32 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { IActionContext, openReadOnlyContent } from 'vscode-azureextensionui';
+import { DockerComposeDocument } from '../dockerCompose/dockerComposeDocument';
+import { getComposeEnvironment, interpolateComposeDocument } from '../dockerCompose/dockerComposeInterpolation';
+
+/**
+ * Shows a compose file with its variables replaced by their values from the .env file next to it and the environment
+ */
+export async function showResolvedComposeFile(context: IActionContext, dockerComposeFileUri?: vscode.Uri): Promise<void> {
+    if (!dockerComposeFileUri) {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!activeEditor || activeEditor.document.uri.scheme !== 'file') {
+            throw new Error('Open a Docker Compose file to show its resolved version.');
+        }
+
+        dockerComposeFileUri = activeEditor.document.uri;
+    }
+
+    // Open documents are used as they are, including unsaved changes
+    const document = await vscode.workspace.openTextDocument(dockerComposeFileUri);
+    const composeDocument = DockerComposeDocument.get(document);
+    const environment = await getComposeEnvironment(dockerComposeFileUri.fsPath);
+
+    const fileName = path.basename(dockerComposeFileUri.fsPath);
+    await openReadOnlyContent({ label: `${fileName} (resolved)`, fullId: `${dockerComposeFileUri.toString()}.resolved` }, interpolateComposeDocument(composeDocument, environment), path.extname(fileName));
+}
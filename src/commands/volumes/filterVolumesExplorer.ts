@@ -0,0 +1,15 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IActionContext } from "vscode-azureextensionui";
+import { ext } from "../../extensionVariables";
+
+export async function filterVolumesExplorer(context: IActionContext): Promise<void> {
+    await ext.volumesRoot.filterExplorer(context);
+}
+
+export async function clearVolumesExplorerFilter(_context: IActionContext): Promise<void> {
+    await ext.volumesRoot.clearFilter();
+}
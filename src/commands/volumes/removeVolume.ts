@@ -3,16 +3,14 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import vscode = require('vscode');
-import { IActionContext, UserCancelledError } from 'vscode-azureextensionui';
+import { AzExtTreeItem, IActionContext, UserCancelledError } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
 import { VolumeTreeItem } from '../../tree/volumes/VolumeTreeItem';
+import { getMultiSelectNodes, runOnMultipleNodes } from '../multiSelectNodes';
 
-export async function removeVolume(context: IActionContext, node: VolumeTreeItem | undefined): Promise<void> {
-    let nodes: VolumeTreeItem[] = [];
-    if (node) {
-        nodes = [node];
-    } else {
+export async function removeVolume(context: IActionContext, node: VolumeTreeItem | undefined, selectedNodes: AzExtTreeItem[] | undefined): Promise<void> {
+    let nodes: VolumeTreeItem[] = getMultiSelectNodes(node, selectedNodes, VolumeTreeItem.contextValue);
+    if (nodes.length === 0) {
         nodes = await ext.volumesTree.showTreeItemPicker<VolumeTreeItem>(VolumeTreeItem.contextValue, {
             ...context,
             canPickMany: true,
@@ -28,14 +26,18 @@ export async function removeVolume(context: IActionContext, node: VolumeTreeItem
         node = nodes[0];
         confirmRemove = `Are you sure you want to remove volume "${node.label}"?`;
     } else {
-        confirmRemove = "Are you sure you want to remove selected volumes?";
+        confirmRemove = `Are you sure you want to remove the ${nodes.length} selected volumes?`;
+    }
+
+    const inUseNodes = nodes.filter(n => n.usages.length > 0);
+    if (inUseNodes.length > 0) {
+        context.telemetry.properties.inUseCount = String(inUseNodes.length);
+        const usageDescriptions = inUseNodes.map(n => `Volume "${n.volumeName}" is used by ${n.usages.map(u => `"${u.containerName}"`).join(', ')}.`);
+        confirmRemove += `\n\n${usageDescriptions.join('\n')}\nVolumes can't be removed while containers using them exist, even if the containers are stopped.`;
     }
 
     // no need to check result - cancel will throw a UserCancelledError
     await ext.ui.showWarningMessage(confirmRemove, { modal: true }, { title: 'Remove' });
 
-    let removing: string = "Removing volume(s)...";
-    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: removing }, async () => {
-        await Promise.all(nodes.map(async n => await n.deleteTreeItem(context)));
-    });
+    await runOnMultipleNodes(context, nodes, { progressTitle: 'Removing volume(s)...', completedVerb: 'Removed', itemType: 'volume' }, async n => await n.deleteTreeItem(context));
 }
@@ -6,9 +6,9 @@
 'use strict';
 
 import { CancellationToken, CompletionItem, CompletionItemKind, CompletionItemProvider, Position, TextDocument } from 'vscode';
-import { KeyInfo } from '../extension';
 import helper = require('../utils/suggestSupportHelper');
-import composeVersions from './dockerComposeKeyInfo';
+import { ComposePath, DockerComposeDocument } from './dockerComposeDocument';
+import { getComposeKeyInfo, getComposeKeyScope } from './dockerComposeKeyInfo';
 
 export class DockerComposeCompletionItemProvider implements CompletionItemProvider {
 
@@ -18,29 +18,24 @@ export class DockerComposeCompletionItemProvider implements CompletionItemProvid
     /* eslint-disable-next-line @typescript-eslint/promise-function-async */ // Grandfathered in
     public provideCompletionItems(document: TextDocument, position: Position, token: CancellationToken): Promise<CompletionItem[]> {
         let yamlSuggestSupport = new helper.SuggestSupportHelper();
+        let composeDocument = DockerComposeDocument.get(document);
+        let offset = document.offsetAt(position);
 
-        // Determine the schema version of the current compose file,
-        // based on the existence of a top-level "version" property.
-        let versionMatch = document.getText().match(/^version:\s*(["'])(\d+(\.\d)?)\1/im);
-        let version = versionMatch ? versionMatch[2] : "1";
+        // Get the path of the mapping the current line is in (e.g. ['services', 'web']),
+        // based on its indentation since the line itself is usually incomplete.
+        let path = composeDocument.getKeyPathAt(offset);
 
         // Get the line where intellisense was invoked on (e.g. 'image: u').
         let line = document.lineAt(position.line).text;
-
-        if (line.length === 0) {
-            // empty line
-            return Promise.resolve(this.suggestKeys('', version));
+        let textBefore = line.substring(0, position.character);
+        if (/^\s*(-\s+)*[\w_]*$/.test(textBefore)) {
+            // on the first token (possibly in a list item)
+            let lineStart = offset - position.character;
+            return Promise.resolve(this.suggestKeys(composeDocument, path, lineStart, lineStart + line.length));
         }
 
-        let range = document.getWordRangeAtPosition(position);
-
-        // Get the text where intellisense was invoked on (e.g. 'u').
-        let word = range && document.getText(range) || '';
-
-        let textBefore = line.substring(0, position.character);
-        if (/^\s*[\w_]*$/.test(textBefore)) {
-            // on the first token
-            return Promise.resolve(this.suggestKeys(word, version));
+        if (getComposeKeyScope(composeDocument.version, path) !== 'service') {
+            return Promise.resolve([]);
         }
 
         // Matches strings like: 'image: "ubuntu'
@@ -62,12 +57,16 @@ export class DockerComposeCompletionItemProvider implements CompletionItemProvid
         return Promise.resolve([]);
     }
 
-    private suggestKeys(word: string, version: string): CompletionItem[] {
-        // Attempt to grab the keys for the requested schema version,
-        // otherwise, fall back to showing a composition of all possible keys.
-        const keys = <KeyInfo>composeVersions[`v${version}`] || composeVersions.All;
+    private suggestKeys(composeDocument: DockerComposeDocument, path: ComposePath, lineStart: number, lineEnd: number): CompletionItem[] {
+        // Get the keys allowed at this position for the schema version of the current compose file,
+        // leaving out the ones that are already in the mapping (other than on the current line).
+        const keys = getComposeKeyInfo(composeDocument.version, path);
+        const mapping = composeDocument.getNode(path);
+        const existingKeys = mapping && mapping.type === 'mapping' ?
+            mapping.pairs.filter(p => p.hasSeparator && (p.key.start < lineStart || p.key.start > lineEnd)).map(p => p.key.value) :
+            [];
 
-        return Object.keys(keys).map(ruleName => {
+        return Object.keys(keys).filter(ruleName => !existingKeys.includes(ruleName)).map(ruleName => {
             let completionItem = new CompletionItem(ruleName);
             completionItem.kind = CompletionItemKind.Keyword;
             completionItem.insertText = ruleName + ': ';
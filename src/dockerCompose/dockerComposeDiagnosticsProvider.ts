@@ -0,0 +1,129 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, DocumentSelector, FileSystemWatcher, languages, Range, TextDocument, workspace } from 'vscode';
+import { parseError } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+import { DockerComposeDocument } from './dockerComposeDocument';
+import { getComposeEnvironment, getComposeVariableProblems, getComposeVariables } from './dockerComposeInterpolation';
+import { validateComposeDocument } from './dockerComposeValidator';
+
+const diagnosticSource: string = 'docker-compose';
+
+// Documents are validated again once typing pauses for this long
+const validateDelay: number = 500;
+
+/**
+ * Reports unknown keys, values of the wrong type, keys from other versions and variables that aren't set in open compose files
+ */
+export class DockerComposeDiagnosticsProvider implements Disposable {
+    private readonly _diagnostics: DiagnosticCollection = languages.createDiagnosticCollection(diagnosticSource);
+    private readonly _disposables: Disposable[] = [];
+    private readonly _pendingValidations: Map<string, NodeJS.Timer> = new Map<string, NodeJS.Timer>();
+
+    public constructor(private readonly _selector: DocumentSelector) {
+        this._disposables.push(workspace.onDidOpenTextDocument(doc => this.validate(doc)));
+        this._disposables.push(workspace.onDidChangeTextDocument(e => this.scheduleValidation(e.document)));
+        this._disposables.push(workspace.onDidCloseTextDocument(doc => this.onDidCloseTextDocument(doc)));
+
+        // Variables are resolved with the .env file next to the compose file
+        const dotEnvWatcher: FileSystemWatcher = workspace.createFileSystemWatcher('**/.env');
+        this._disposables.push(dotEnvWatcher);
+        this._disposables.push(dotEnvWatcher.onDidCreate(() => this.validateAll()));
+        this._disposables.push(dotEnvWatcher.onDidChange(() => this.validateAll()));
+        this._disposables.push(dotEnvWatcher.onDidDelete(() => this.validateAll()));
+    }
+
+    public static register(selector: DocumentSelector): Disposable {
+        const provider = new DockerComposeDiagnosticsProvider(selector);
+        provider.validateAll();
+        return provider;
+    }
+
+    public dispose(): void {
+        for (const timeoutId of this._pendingValidations.values()) {
+            clearTimeout(timeoutId);
+        }
+
+        this._pendingValidations.clear();
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
+
+        this._diagnostics.dispose();
+    }
+
+    private validateAll(): void {
+        for (const doc of workspace.textDocuments) {
+            this.validate(doc);
+        }
+    }
+
+    private validate(doc: TextDocument): void {
+        if (languages.match(this._selector, doc)) {
+            // don't wait, and keep the previous diagnostics if this fails
+            this.validateAsync(doc).catch(error => {
+                ext.outputChannel.appendLog(`Unable to validate "${doc.uri.fsPath}": ${parseError(error).message}`);
+            });
+        }
+    }
+
+    private async validateAsync(doc: TextDocument): Promise<void> {
+        const version = doc.version;
+        const composeDocument = DockerComposeDocument.get(doc);
+        const problems = validateComposeDocument(composeDocument);
+
+        const environment = doc.uri.scheme === 'file' ? await getComposeEnvironment(doc.uri.fsPath) : undefined;
+        if (environment) {
+            for (const problem of getComposeVariableProblems(getComposeVariables(composeDocument), environment)) {
+                problems.push({ start: problem.variable.start, end: problem.variable.end, message: problem.message, severity: problem.severity });
+            }
+        }
+
+        // The document may have changed or been closed while the .env file was read
+        if (doc.isClosed || doc.version !== version) {
+            return;
+        }
+
+        const diagnostics = problems.map(problem => {
+            const diagnostic = new Diagnostic(
+                new Range(doc.positionAt(problem.start), doc.positionAt(problem.end)),
+                problem.message,
+                problem.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning
+            );
+            diagnostic.source = diagnosticSource;
+            return diagnostic;
+        });
+
+        this._diagnostics.set(doc.uri, diagnostics);
+    }
+
+    private scheduleValidation(doc: TextDocument): void {
+        const key = doc.uri.toString();
+        const pending = this._pendingValidations.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this._pendingValidations.set(key, setTimeout(
+            () => {
+                this._pendingValidations.delete(key);
+                this.validate(doc);
+            },
+            validateDelay
+        ));
+    }
+
+    private onDidCloseTextDocument(doc: TextDocument): void {
+        const key = doc.uri.toString();
+        const pending = this._pendingValidations.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this._pendingValidations.delete(key);
+        }
+
+        this._diagnostics.delete(doc.uri);
+    }
+}
@@ -0,0 +1,176 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { TextDocument } from 'vscode';
+import { ComposeNode, IComposePair, parseDockerCompose } from './dockerComposeParser';
+
+/**
+ * The keys (and list indexes) from the root of a compose document to a node, e.g. `['services', 'web', 'build', 'context']`
+ */
+export type ComposePath = (string | number)[];
+
+export interface IComposeNodeAtOffset {
+    node: ComposeNode;
+
+    /**
+     * The path of the node. Keys have the same path as their value.
+     */
+    path: ComposePath;
+    isKey: boolean;
+
+    /**
+     * Set if the node is the key or value of a pair
+     */
+    pair?: IComposePair;
+}
+
+interface ICachedDocument {
+    version: number;
+    document: DockerComposeDocument;
+}
+
+// Hover, completion etc. all need the same document, so it's only parsed again after it changes
+const documentCache: WeakMap<TextDocument, ICachedDocument> = new WeakMap<TextDocument, ICachedDocument>();
+
+/**
+ * The structure of a compose file, with helpers to find out where in it a position is
+ */
+export class DockerComposeDocument {
+    public readonly root: ComposeNode | undefined;
+    private readonly _lineStarts: number[] = [0];
+
+    public constructor(public readonly text: string) {
+        this.root = parseDockerCompose(text);
+        for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+            this._lineStarts.push(i + 1);
+        }
+    }
+
+    public static get(textDocument: TextDocument): DockerComposeDocument {
+        let cached = documentCache.get(textDocument);
+        if (!cached || cached.version !== textDocument.version) {
+            cached = { version: textDocument.version, document: new DockerComposeDocument(textDocument.getText()) };
+            documentCache.set(textDocument, cached);
+        }
+
+        return cached.document;
+    }
+
+    /**
+     * Gets the value of the top-level `version` key. Files without it are v1, unless they have `services` (which v1 doesn't), in which case `undefined` is returned.
+     */
+    public get version(): string | undefined {
+        const version = this.getNode(['version']);
+        if (version && version.type === 'scalar') {
+            return version.value;
+        }
+
+        return this.getNode(['services']) ? undefined : '1';
+    }
+
+    /**
+     * Gets the node at a path, e.g. `['services', 'web']`. Aliases aren't followed.
+     */
+    public getNode(path: ComposePath): ComposeNode | undefined {
+        let node: ComposeNode | undefined = this.root;
+        for (const segment of path) {
+            if (node && node.type === 'mapping' && typeof segment === 'string') {
+                const pair = node.pairs.find(p => p.key.value === segment);
+                node = pair && pair.value;
+            } else if (node && node.type === 'sequence' && typeof segment === 'number') {
+                node = node.items[segment];
+            } else {
+                return undefined;
+            }
+        }
+
+        return node;
+    }
+
+    /**
+     * Gets the innermost key or scalar value at an offset
+     */
+    public getNodeAt(offset: number): IComposeNodeAtOffset | undefined {
+        return this.findNode(this.root, offset, [], undefined);
+    }
+
+    /**
+     * Gets the path of the mapping a key typed at an offset would belong to. That's based on the indentation of the line, since the line may not be valid yet.
+     */
+    public getKeyPathAt(offset: number): ComposePath {
+        const lineStart = this._lineStarts[this.getLineIndex(offset)];
+
+        // Blank lines use the column of the offset, other lines the column of their content (after any sequence indicators)
+        const column = /^ *(?:- +)*/.exec(this.text.slice(lineStart, offset))[0].length;
+        return this.findKeyPath(this.root, offset, lineStart, column, []);
+    }
+
+    public getColumn(offset: number): number {
+        return offset - this._lineStarts[this.getLineIndex(offset)];
+    }
+
+    private findNode(node: ComposeNode | undefined, offset: number, path: ComposePath, pair: IComposePair | undefined): IComposeNodeAtOffset | undefined {
+        if (!node || offset < node.start || offset > node.end) {
+            return undefined;
+        } else if (node.type === 'mapping') {
+            for (const p of node.pairs) {
+                const keyPath = [...path, p.key.value];
+                if (offset >= p.key.start && offset <= p.key.end) {
+                    return { node: p.key, path: keyPath, isKey: true, pair: p };
+                }
+
+                const result = this.findNode(p.value, offset, keyPath, p);
+                if (result) {
+                    return result;
+                }
+            }
+        } else if (node.type === 'sequence') {
+            for (let i = 0; i < node.items.length; i++) {
+                const result = this.findNode(node.items[i], offset, [...path, i], undefined);
+                if (result) {
+                    return result;
+                }
+            }
+        } else {
+            return { node, path, isKey: false, pair };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Descends into the last key on a previous line (or the list item on the current line) that's indented less than the column
+     */
+    private findKeyPath(node: ComposeNode | undefined, offset: number, lineStart: number, column: number, path: ComposePath): ComposePath {
+        if (node && node.type === 'mapping') {
+            const pair = node.pairs.filter(p => p.key.start < lineStart).pop();
+            if (pair && this.getColumn(pair.key.start) < column) {
+                return this.findKeyPath(pair.value, offset, lineStart, column, [...path, pair.key.value]);
+            }
+        } else if (node && node.type === 'sequence' && this.getColumn(node.start) < column) {
+            const index = node.items.filter(i => i.start <= offset).length - 1;
+            if (index >= 0) {
+                return this.findKeyPath(node.items[index], offset, lineStart, column, [...path, index]);
+            }
+        }
+
+        return path;
+    }
+
+    private getLineIndex(offset: number): number {
+        let low = 0;
+        let high = this._lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this._lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return low;
+    }
+}
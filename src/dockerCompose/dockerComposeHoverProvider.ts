@@ -6,80 +6,75 @@
 'use strict';
 
 import { CancellationToken, Hover, HoverProvider, MarkedString, Position, Range, TextDocument } from 'vscode';
-import { KeyInfo } from "../extension";
-import parser = require('../parser');
 import suggestHelper = require('../utils/suggestSupportHelper');
+import { ComposePath, DockerComposeDocument } from './dockerComposeDocument';
+import { ComposeEnvironment, getComposeEnvironment, getComposeVariables, getServiceEnvFileVariables, IComposeVariable, resolveComposeVariable } from './dockerComposeInterpolation';
+import { getComposeKeyInfo, getComposeKeyScope } from './dockerComposeKeyInfo';
 
 export class DockerComposeHoverProvider implements HoverProvider {
-    public _parser: parser.Parser;
-    public _keyInfo: KeyInfo;
-
-    // Provide the parser you want to use as well as keyinfo dictionary.
-    public constructor(wordParser: parser.Parser, keyInfo: KeyInfo) {
-        this._parser = wordParser;
-        this._keyInfo = keyInfo;
-    }
+    public async provideHover(document: TextDocument, position: Position, token: CancellationToken): Promise<Hover | undefined> {
+        const composeDocument = DockerComposeDocument.get(document);
+        const offset = document.offsetAt(position);
+        const nodeAtOffset = composeDocument.getNodeAt(offset);
+        if (!nodeAtOffset || nodeAtOffset.node.type !== 'scalar') {
+            return undefined;
+        }
 
-    public provideHover(document: TextDocument, position: Position, token: CancellationToken): Thenable<Hover> {
-        let line = document.lineAt(position.line);
+        // -------------
+        // Detect hovering on a variable, e.g. <<image: "nginx:[[${TAG:-latest}]]">>
+        const variable = nodeAtOffset.isKey ? undefined : getComposeVariables(composeDocument).find(v => offset >= v.start && offset <= v.end);
+        if (variable) {
+            const variableRange = new Range(document.positionAt(variable.start), document.positionAt(variable.end));
+            return new Hover(await this.getVariableHover(document, composeDocument, variable, nodeAtOffset.path), variableRange);
+        }
 
-        if (line.text.length === 0) {
-            return Promise.resolve(null);
+        const range = new Range(document.positionAt(nodeAtOffset.node.start), document.positionAt(nodeAtOffset.node.end));
+        const parentPath = nodeAtOffset.path.slice(0, -1);
+        const key = nodeAtOffset.path[nodeAtOffset.path.length - 1];
+        let contents: MarkedString[] | undefined;
+
+        if (nodeAtOffset.isKey) {
+            // -------------
+            // Detect hovering on a key
+            const description = getComposeKeyInfo(composeDocument.version, parentPath)[key];
+            contents = description ? [description] : undefined;
+        } else if (key === 'image' && nodeAtOffset.pair && getComposeKeyScope(composeDocument.version, parentPath) === 'service') {
+            // -------------
+            // Detect <<image: [["something"]]>>
+            // Detect <<image: [[something]]>>
+            const helper = new suggestHelper.SuggestSupportHelper();
+            contents = await helper.getImageNameHover(nodeAtOffset.node.value);
         }
 
-        let tokens = this._parser.parseLine(line);
-        return this._computeInfoForLineWithTokens(line.text, tokens, position);
+        return contents ? new Hover(contents, range) : undefined;
     }
 
-    /* eslint-disable-next-line @typescript-eslint/no-floating-promises, @typescript-eslint/promise-function-async */ // Grandfathered in
-    private _computeInfoForLineWithTokens(line: string, tokens: parser.IToken[], position: Position): Promise<Hover> {
-        let possibleTokens = this._parser.tokensAtColumn(tokens, position.character);
-
-        /* eslint-disable-next-line @typescript-eslint/no-floating-promises, @typescript-eslint/promise-function-async */ // Grandfathered in
-        return Promise.all(possibleTokens.map(tokenIndex => this._computeInfoForToken(line, tokens, tokenIndex))).then((results) => {
-            return possibleTokens.map((tokenIndex, arrayIndex) => {
-                return {
-                    startIndex: tokens[tokenIndex].startIndex,
-                    endIndex: tokens[tokenIndex].endIndex,
-                    result: results[arrayIndex]
-                };
-            });
-        }).then((results) => {
-            let filteredResults = results.filter(r => !!r.result);
-            if (filteredResults.length === 0) {
-                return;
-            }
-
-            let range = new Range(position.line, filteredResults[0].startIndex, position.line, filteredResults[0].endIndex);
-
-            let hover = new Hover(filteredResults[0].result, range);
-
-            return hover;
+    private async getVariableHover(document: TextDocument, composeDocument: DockerComposeDocument, variable: IComposeVariable, path: ComposePath): Promise<MarkedString[]> {
+        const isFile = document.uri.scheme === 'file';
+        const environment = isFile ? await getComposeEnvironment(document.uri.fsPath) : <ComposeEnvironment>new Map();
+        const entry = environment.get(variable.name);
+        const value = resolveComposeVariable(variable, environment);
+
+        let description: string;
+        if (value === undefined) {
+            description = `\`${variable.name}\` is required, but it isn't set${variable.argument ? `: ${variable.argument}` : '.'}`;
+        } else if (entry) {
+            description = `\`${variable.name}\` is \`${entry.value}\` (from ${entry.source})` + (value === entry.value ? '.' : `, so this is \`${value}\`.`);
+        } else {
+            description = `\`${variable.name}\` isn't set in .env or the environment` + (variable.operator ? `, so this is \`${value}\`.` : '. Defaulting to a blank string.');
+        }
 
-        });
-    }
+        const contents: MarkedString[] = [description];
 
-    /* eslint-disable-next-line @typescript-eslint/no-floating-promises, @typescript-eslint/promise-function-async */ // Grandfathered in
-    private _computeInfoForToken(line: string, tokens: parser.IToken[], tokenIndex: number): Promise<MarkedString[]> {
-        // -------------
-        // Detect hovering on a key
-        if (tokens[tokenIndex].type === parser.TokenType.Key) {
-            let keyName = this._parser.keyNameFromKeyToken(this._parser.tokenValue(line, tokens[tokenIndex])).trim();
-            let r = this._keyInfo[keyName];
-            if (r) {
-                return Promise.resolve([r]);
+        // env_file only sets variables in the containers, which is a common source of confusion
+        const serviceName = composeDocument.version === '1' ? path[0] : path[0] === 'services' ? path[1] : undefined;
+        if (isFile && typeof serviceName === 'string') {
+            const envFileEntry = (await getServiceEnvFileVariables(document.uri.fsPath, composeDocument, serviceName)).get(variable.name);
+            if (envFileEntry) {
+                contents.push(`\`env_file\` (${envFileEntry.source}) sets \`${variable.name}\` to \`${envFileEntry.value}\` in the containers, but that isn't used to resolve variables in the compose file.`);
             }
         }
 
-        // -------------
-        // Detect <<image: [["something"]]>>
-        // Detect <<image: [[something]]>>
-        let helper = new suggestHelper.SuggestSupportHelper();
-        let r2 = helper.getImageNameHover(line, this._parser, tokens, tokenIndex);
-        if (r2) {
-            return r2;
-        }
-
-        return;
+        return contents;
     }
 }
@@ -0,0 +1,307 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { DockerComposeDocument } from './dockerComposeDocument';
+import { ComposeNode, IComposeScalar } from './dockerComposeParser';
+
+/**
+ * A variable in a compose file, e.g. `$VAR`, `${VAR}` or `${VAR:-default}`
+ */
+export interface IComposeVariable {
+    name: string;
+
+    /**
+     * The offsets of the whole expression, including `$` and the braces
+     */
+    start: number;
+    end: number;
+
+    /**
+     * `:-` and `-` use the argument as a default, `:?` and `?` as an error message and `:+` and `+` as a replacement.
+     * With `:`, empty values are treated like unset ones.
+     */
+    operator?: ':-' | '-' | ':?' | '?' | ':+' | '+';
+    argument?: string;
+}
+
+export interface IComposeVariableValue {
+    value: string;
+
+    /**
+     * Where the value came from, e.g. `.env`
+     */
+    source: string;
+}
+
+/**
+ * The values variables are interpolated with, by name
+ */
+export type ComposeEnvironment = Map<string, IComposeVariableValue>;
+
+export interface IComposeVariableProblem {
+    variable: IComposeVariable;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+const variablePattern = /\$(?:\$|\{([^}]*)\}|([a-zA-Z_][a-zA-Z0-9_]*))/;
+const bracedVariablePattern = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:(:?[-?+])([\s\S]*))?$/;
+
+// Plain (unquoted) values that would be read as something else, e.g. with a line break, a comment or an alias
+const unsafePlainValuePattern = /[\r\n]|:(\s|$)|(^|\s)#|^\s|\s$|^[-?](\s|$)|^[&*!|>'"%@`]|[,[\]{}]/;
+
+export const processEnvironmentSource: string = 'the environment';
+export const dotEnvSource: string = '.env';
+
+/**
+ * Gets the variables in the values of a compose document. Escaped dollar signs (`$$`) aren't variables.
+ */
+export function getComposeVariables(document: DockerComposeDocument): IComposeVariable[] {
+    const variables: IComposeVariable[] = [];
+    forEachVariableMatch(document, (match, start) => {
+        const variable = parseVariable(match, start);
+        if (variable) {
+            variables.push(variable);
+        }
+    });
+
+    return variables;
+}
+
+/**
+ * Gets the value a variable is replaced with, or `undefined` if it's required (`${VAR:?error}`) but not set
+ */
+export function resolveComposeVariable(variable: IComposeVariable, environment: ComposeEnvironment): string | undefined {
+    const entry = environment.get(variable.name);
+    const value = entry ? entry.value : '';
+    const isSet = entry !== undefined && (value !== '' || !variable.operator || !variable.operator.startsWith(':'));
+
+    switch (variable.operator) {
+        case ':-':
+        case '-':
+            return isSet ? value : variable.argument;
+        case ':?':
+        case '?':
+            return isSet ? value : undefined;
+        case ':+':
+        case '+':
+            return isSet ? variable.argument : '';
+        default:
+            // Compose replaces unset variables with a blank string (and warns about it)
+            return value;
+    }
+}
+
+/**
+ * Gets the variables that aren't set and don't have a default, including required ones (`${VAR:?error}`)
+ */
+export function getComposeVariableProblems(variables: IComposeVariable[], environment: ComposeEnvironment): IComposeVariableProblem[] {
+    const problems: IComposeVariableProblem[] = [];
+    for (const variable of variables) {
+        if (resolveComposeVariable(variable, environment) === undefined) {
+            problems.push({ variable, message: `The "${variable.name}" variable is required: ${variable.argument || 'it is not set.'}`, severity: 'error' });
+        } else if (!variable.operator && !environment.has(variable.name)) {
+            problems.push({ variable, message: `The "${variable.name}" variable is not set. Defaulting to a blank string.`, severity: 'warning' });
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Replaces the variables in a compose document with their values. Required variables that aren't set are left as they are.
+ * Values are escaped for the scalars they're in, and plain scalars that wouldn't be valid anymore are double-quoted.
+ */
+export function interpolateComposeDocument(document: DockerComposeDocument, environment: ComposeEnvironment): string {
+    let result = '';
+    let offset = 0;
+    forEachScalarValue(document, node => {
+        const text = document.text.slice(node.start, node.end);
+        const style = node.quoted ? text[0] : /^[|>]/.test(text) ? text[0] : '';
+        const replacements: { start: number, end: number, value: string }[] = [];
+        forEachVariableInText(text, node.start, (match, start) => {
+            const resolved = resolveMatch(match, start, environment);
+            if (resolved !== undefined) {
+                replacements.push({ start, end: start + match[0].length, value: resolved });
+            }
+        });
+
+        if (replacements.length === 0) {
+            return;
+        }
+
+        // Plain scalars that would be read differently are double-quoted, and so are single-quoted ones that would get line breaks (which are folded)
+        const value = style === '' || style === '\'' ? interpolateValue(node.value, environment) : undefined;
+        if (value !== undefined && (style === '' ? unsafePlainValuePattern.test(value) : replacements.some(r => /[\r\n]/.test(r.value)))) {
+            result += `${document.text.slice(offset, node.start)}"${escapeDoubleQuotedValue(value)}"`;
+            offset = node.end;
+            return;
+        }
+
+        for (const replacement of replacements) {
+            result += document.text.slice(offset, replacement.start) + escapeValue(replacement.value, style, getLineIndent(document.text, replacement.start));
+            offset = replacement.end;
+        }
+    });
+
+    return result + document.text.slice(offset);
+}
+
+/**
+ * Parses the `KEY=VALUE` lines of a `.env` or `env_file` file
+ */
+export function parseEnvFile(text: string): Map<string, string> {
+    const values = new Map<string, string>();
+    for (const line of text.split(/\r?\n/)) {
+        const match = /^\s*(?:export\s+)?([^#=\s][^=]*?)\s*=(.*)$/.exec(line);
+        if (match) {
+            let value = match[2].trim();
+            if (/^(['"]).*\1$/.test(value)) {
+                value = value.slice(1, -1);
+            }
+
+            values.set(match[1], value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Gets the values used to interpolate a compose file: the `.env` file next to it, overridden by the environment
+ */
+export async function getComposeEnvironment(composeFilePath: string, processEnv: NodeJS.ProcessEnv = process.env): Promise<ComposeEnvironment> {
+    const environment: ComposeEnvironment = new Map<string, IComposeVariableValue>();
+    const dotEnvPath = path.join(path.dirname(composeFilePath), dotEnvSource);
+    for (const [name, value] of parseEnvFile(await readEnvFile(dotEnvPath))) {
+        environment.set(name, { value, source: dotEnvSource });
+    }
+
+    for (const name of Object.keys(processEnv)) {
+        environment.set(name, { value: processEnv[name], source: processEnvironmentSource });
+    }
+
+    return environment;
+}
+
+/**
+ * Gets the variables set by the `env_file` files of a service, which are set in its containers but not used for interpolation
+ */
+export async function getServiceEnvFileVariables(composeFilePath: string, document: DockerComposeDocument, serviceName: string): Promise<ComposeEnvironment> {
+    const variables: ComposeEnvironment = new Map<string, IComposeVariableValue>();
+    const envFile = document.getNode(document.version === '1' ? [serviceName, 'env_file'] : ['services', serviceName, 'env_file']);
+    const envFiles: ComposeNode[] = envFile && envFile.type === 'sequence' ? envFile.items : envFile ? [envFile] : [];
+
+    for (const node of envFiles) {
+        if (node.type === 'scalar') {
+            const envFilePath = path.resolve(path.dirname(composeFilePath), node.value);
+            for (const [name, value] of parseEnvFile(await readEnvFile(envFilePath))) {
+                variables.set(name, { value, source: node.value });
+            }
+        }
+    }
+
+    return variables;
+}
+
+// Reads a `.env` or `env_file` file, which is treated as empty if it doesn't exist or can't be read (e.g. if it's a directory)
+async function readEnvFile(envFilePath: string): Promise<string> {
+    try {
+        return await fse.readFile(envFilePath, 'utf8');
+    } catch {
+        return '';
+    }
+}
+
+// Calls back for the `$` expressions in the scalar values (not keys) of a document, in order
+function forEachVariableMatch(document: DockerComposeDocument, callback: (match: RegExpExecArray, start: number) => void): void {
+    forEachScalarValue(document, node => forEachVariableInText(document.text.slice(node.start, node.end), node.start, callback));
+}
+
+// Calls back for the scalar values (not keys or aliases) of a document, in order
+function forEachScalarValue(document: DockerComposeDocument, callback: (node: IComposeScalar) => void): void {
+    const visit = (node: ComposeNode | undefined) => {
+        if (!node) {
+            return;
+        } else if (node.type === 'mapping') {
+            node.pairs.forEach(pair => visit(pair.value));
+        } else if (node.type === 'sequence') {
+            node.items.forEach(visit);
+        } else if (!node.alias) {
+            callback(node);
+        }
+    };
+
+    visit(document.root);
+}
+
+function forEachVariableInText(text: string, offset: number, callback: (match: RegExpExecArray, start: number) => void): void {
+    const pattern = new RegExp(variablePattern.source, 'g');
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        callback(match, offset + match.index);
+    }
+}
+
+// Gets the value a `$` expression is replaced with, or `undefined` if it's left as it is
+function resolveMatch(match: RegExpExecArray, start: number, environment: ComposeEnvironment): string | undefined {
+    const variable = parseVariable(match, start);
+    return match[0] === '$$' ? '$' : variable && resolveComposeVariable(variable, environment);
+}
+
+function interpolateValue(value: string, environment: ComposeEnvironment): string {
+    let result = '';
+    let offset = 0;
+    forEachVariableInText(value, 0, (match, start) => {
+        const resolved = resolveMatch(match, start, environment);
+        if (resolved !== undefined) {
+            result += value.slice(offset, start) + resolved;
+            offset = start + match[0].length;
+        }
+    });
+
+    return result + value.slice(offset);
+}
+
+// Escapes a value for a scalar with the given style: `"`, `'`, `|` or `>` (block scalars, which need the line's indentation), or an empty string for plain scalars
+function escapeValue(value: string, style: string, indent: string): string {
+    switch (style) {
+        case '"':
+            return escapeDoubleQuotedValue(value);
+        case '\'':
+            return value.replace(/'/g, '\'\'');
+        case '|':
+            return value.replace(/\r?\n/g, `\n${indent}`);
+        case '>':
+            // A single line break is folded into a space, so an empty line is needed to keep it
+            return value.replace(/\r?\n/g, `\n\n${indent}`);
+        default:
+            return value;
+    }
+}
+
+function escapeDoubleQuotedValue(value: string): string {
+    return value.replace(/[\\"]/g, '\\$&').replace(/\r/g, '\\r').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+}
+
+function getLineIndent(text: string, offset: number): string {
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(text.slice(lineStart))[0];
+}
+
+function parseVariable(match: RegExpExecArray, start: number): IComposeVariable | undefined {
+    const end = start + match[0].length;
+    if (match[2]) {
+        return { name: match[2], start, end };
+    } else if (match[1] !== undefined) {
+        const braced = bracedVariablePattern.exec(match[1]);
+        if (braced) {
+            return { name: braced[1], start, end, operator: <IComposeVariable['operator']>braced[2], argument: braced[3] };
+        }
+    }
+
+    return undefined;
+}
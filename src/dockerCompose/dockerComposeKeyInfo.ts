@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { ComposeVersionKeys, KeyInfo } from "../extension";
+import { ComposePath } from "./dockerComposeDocument";
 
 // Define the keys that are shared between all compose file versions,
 // regardless of the major/minor version (e.g. v1-v2.1+).
@@ -189,14 +190,6 @@ const DOCKER_COMPOSE_V2_KEY_INFO: KeyInfo = {
     'services': (
         "Specify the set of services that your app is composed of."
     ),
-    // TODO: There is now a top-level and service-level volumes/networks setting which conflict.
-    // This will be resolved when we add completion that understands file position context.
-    'networks': (
-        "Specifies the networks to be created as part of your app. This is analogous to running `docker network create`."
-    ),
-    'volumes': (
-        "Specifies the volumes to be created as part of your app. This is analogous to running `docker volume create`."
-    ),
 
     // Added service-level properties
     'depends_on': (
@@ -205,9 +198,21 @@ const DOCKER_COMPOSE_V2_KEY_INFO: KeyInfo = {
     'logging': (
         "Logging configuration for the service."
     ),
+    'networks': (
+        "Networks to join, referencing entries under the top-level `networks` key."
+    ),
+    'dns_opt': (
+        "Custom DNS options, as a list of values passed to the resolver (`/etc/resolv.conf`)."
+    ),
+    'mem_reservation': (
+        "Memory soft limit."
+    ),
     'network_mode': (
         "Networking mode. Use the same values as the docker client `--net` parameter."
     ),
+    'stop_grace_period': (
+        "How long to wait when attempting to stop a container if it doesn’t handle SIGTERM (or the `stop_signal`), before sending SIGKILL, e.g. `1m30s`. Defaults to 10 seconds."
+    ),
     'tmpfs': (
         "Mount a temporary file system inside the container. Can be a single value or a list."
     ),
@@ -218,9 +223,6 @@ const DOCKER_COMPOSE_V2_KEY_INFO: KeyInfo = {
     ),
 
     // Added service/logging-level properties
-    // TODO: The "driver" property could be a logging driver, a volume driver,
-    // a network driver, or a network IPAM driver, so we should account for
-    // that when we add context-based completion.
     'driver': (
         "Specifies the logging driver to use for the service’s container."
     ),
@@ -259,8 +261,6 @@ const DOCKER_COMPOSE_V2_KEY_INFO: KeyInfo = {
     ),
 
     // Network/external-level properties
-    // TODO: This would also apply to an external volume,
-    // so we should account for that when we add context-based completion.
     'name': (
         "Specifies the name of the externally defined network."
     ),
@@ -283,11 +283,6 @@ const DOCKER_COMPOSE_V2_KEY_INFO: KeyInfo = {
     'subnet': (
         "Subnet in CIDR format that represents a network segment."
     ),
-
-    // Volume-level properties
-    // TODO: Top-level volumes support specifying the "driver",
-    // "driver_opt", and "external" properties, but these are already
-    // defined above. We can specialize these by adding context-based completion.
 };
 
 // Define the keys which were introduced in the v2.1 format.
@@ -303,6 +298,24 @@ const DOCKER_COMPOSE_V2_1_KEY_INFO: KeyInfo = {
     'oom_score_adj': (
         "Tune host's OOM preferences (-1000 to 1000)"
     ),
+    'healthcheck': (
+        "Configure a check that’s run to determine whether or not containers for this service are \"healthy\", overriding the `HEALTHCHECK` of the image."
+    ),
+    'oom_kill_disable': (
+        "Disable the OOM killer for the container"
+    ),
+    'pids_limit': (
+        "Tune the container's PIDs limit. Set to `-1` for unlimited PIDs."
+    ),
+    'storage_opt': (
+        "Storage driver options for the container, as key-value pairs"
+    ),
+    'sysctls': (
+        "Kernel parameters to set in the container. You can use either an array or a dictionary."
+    ),
+    'userns_mode': (
+        "User namespace to use, e.g. `host` to disable the user namespace when the daemon has user namespace remapping enabled."
+    ),
 
     // Added service/network-level properties
     'link_local_ips': (
@@ -334,6 +347,139 @@ const DOCKER_COMPOSE_V2_2_KEY_INFO: KeyInfo = {
     ),
     'cpus': (
         "CPU quota in number of CPUs"
+    ),
+    'init': (
+        "Run an init process inside the container that forwards signals and reaps processes"
+    ),
+    'scale': (
+        "Default number of containers to deploy for this service"
+    ),
+    'blkio_config': (
+        "Block IO limits for the containers, e.g. `weight`, `device_read_bps` and `device_write_iops`"
+    ),
+    'cpu_period': (
+        "Limit the CPU CFS (Completely Fair Scheduler) period"
+    ),
+    'cpu_rt_period': (
+        "Limit the CPU real-time period in microseconds"
+    ),
+    'cpu_rt_runtime': (
+        "Limit the CPU real-time runtime in microseconds"
+    )
+};
+
+// Define the keys which were introduced in the v2.3 format.
+// https://github.com/docker/compose/blob/master/compose/config/config_schema_v2.3.json
+const DOCKER_COMPOSE_V2_3_KEY_INFO: KeyInfo = {
+    // Added service-level properties
+    'device_cgroup_rules': (
+        "Add rules to the cgroup allowed devices list, e.g. `c 1:3 mr`"
+    ),
+    'runtime': (
+        "The runtime to use for the containers, e.g. `nvidia`"
+    )
+};
+
+// Define the keys which were introduced in the v2.4 format, which also allows extension fields (`x-`).
+// https://github.com/docker/compose/blob/master/compose/config/config_schema_v2.4.json
+const DOCKER_COMPOSE_V2_4_KEY_INFO: KeyInfo = {
+    // Added service-level properties
+    'platform': (
+        "Target platform the containers of the service run on, using the `os[/arch[/variant]]` syntax, e.g. `linux/amd64`."
+    )
+};
+
+// Define the keys which aren't supported anymore in the v3 format (which is meant for swarm
+// deployments too). Most resource constraints are under `deploy` instead.
+// https://docs.docker.com/compose/compose-file/compose-versioning/#upgrading
+const DOCKER_COMPOSE_V3_REMOVED_KEYS: string[] = [
+    'blkio_config', 'cpu_count', 'cpu_percent', 'cpu_period', 'cpu_quota', 'cpu_rt_period', 'cpu_rt_runtime', 'cpu_shares', 'cpus', 'cpuset', 'enable_ipv6', 'extends', 'group_add', 'init', 'isolation', 'link_local_ips',
+    'mem_limit', 'mem_reservation', 'mem_swappiness', 'memswap_limit', 'oom_kill_disable', 'oom_score_adj', 'pids_limit', 'scale', 'storage_opt', 'volume_driver', 'volumes_from'
+];
+
+// Define the keys which were introduced in the v3.0 format.
+// https://github.com/docker/cli/blob/master/cli/compose/schema/data/config_schema_v3.0.json
+const DOCKER_COMPOSE_V3_0_KEY_INFO: KeyInfo = {
+    // Added service-level properties
+    'deploy': (
+        "Configuration related to the deployment and running of services, e.g. the number of replicas and resource constraints. " +
+        "Only takes effect when deploying to a swarm with `docker stack deploy` (or in `docker-compose --compatibility` mode)."
+    )
+};
+
+// Define the keys which were introduced in the v3.1 format.
+const DOCKER_COMPOSE_V3_1_KEY_INFO: KeyInfo = {
+    // Added service-level properties
+    'secrets': (
+        "Grant access to secrets on a per-service basis, referencing entries under the top-level `secrets` key. " +
+        "Secrets are mounted as files under `/run/secrets/` in the containers."
+    )
+};
+
+// Define the keys which were introduced in the v3.3 format.
+const DOCKER_COMPOSE_V3_3_KEY_INFO: KeyInfo = {
+    // Added service-level properties
+    'configs': (
+        "Grant access to configs on a per-service basis, referencing entries under the top-level `configs` key. " +
+        "Configs are mounted as files at the root of the containers' filesystem by default."
+    ),
+    'credential_spec': (
+        "Configure the credential spec for a managed service account (Windows only)"
+    )
+};
+
+// Define the keys which were (re-)introduced in the v3.5 format.
+const DOCKER_COMPOSE_V3_5_KEY_INFO: KeyInfo = {
+    // Added service-level properties
+    'isolation': (
+        "Container isolation technology. On Linux, only `default` is supported. On Windows, `default`, `process` and `hyperv` are supported."
+    )
+};
+
+// Define the keys which were (re-)introduced in the v3.7 format.
+const DOCKER_COMPOSE_V3_7_KEY_INFO: KeyInfo = {
+    // Added service-level properties
+    'init': (
+        "Run an init process inside the container that forwards signals and reaps processes"
+    )
+};
+
+// Define the keys which were introduced in the Compose Specification, which is used by files without a version.
+// It's a superset of the v2 and v3 formats.
+// https://github.com/compose-spec/compose-spec/blob/master/spec.md
+const DOCKER_COMPOSE_SPEC_KEY_INFO: KeyInfo = {
+    // Added top-level properties
+    'include': (
+        "Other Compose files to load into this application model, with their own paths and `.env` files."
+    ),
+
+    // Added service-level properties
+    'annotations': (
+        "Annotations for the containers, as with the `--annotation` option for docker run. You can either use an array or a dictionary."
+    ),
+    'attach': (
+        "Whether Compose collects the logs of the service. Defaults to true."
+    ),
+    'cgroup': (
+        "The cgroup namespace to join: `host` or `private`."
+    ),
+    'develop': (
+        "Development settings, e.g. the `watch` rules that keep the containers in sync with the source files."
+    ),
+    'gpus': (
+        "GPU devices to allocate to the containers: `all`, or a list of devices with `driver`, `count`, `device_ids` and `capabilities`."
+    ),
+    'post_start': (
+        "Lifecycle hooks that run in the containers after they start, each with a `command` and optionally a `user`, `privileged`, `working_dir` and `environment`."
+    ),
+    'pre_stop': (
+        "Lifecycle hooks that run in the containers before they're stopped, each with a `command` and optionally a `user`, `privileged`, `working_dir` and `environment`."
+    ),
+    'profiles': (
+        "The profiles this service is enabled for. Services without profiles are always enabled, others only when one of their profiles is active (e.g. with `--profile`)."
+    ),
+    'pull_policy': (
+        "When to pull the image: `always`, `never`, `missing` (the default) or `build`."
     )
 };
 
@@ -343,11 +489,551 @@ function mergeWithSharedKeys(...versions: KeyInfo[]): KeyInfo {
     return <KeyInfo>Object.assign({}, DOCKER_COMPOSE_SHARED_KEY_INFO, ...versions);
 }
 
-// tslint:disable-next-line: export-name
-export default <ComposeVersionKeys>{
+// Helper function that creates the schema for a v3 version, which starts from the v2.2 schema without the keys that were removed in v3.
+function mergeWithV3Keys(...versions: KeyInfo[]): KeyInfo {
+    const v2Keys = mergeWithSharedKeys(DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO, DOCKER_COMPOSE_V2_2_KEY_INFO);
+    const keys: KeyInfo = {};
+    for (const key of Object.keys(v2Keys).filter(k => !DOCKER_COMPOSE_V3_REMOVED_KEYS.includes(k))) {
+        keys[key] = v2Keys[key];
+    }
+
+    return <KeyInfo>Object.assign(keys, DOCKER_COMPOSE_V3_0_KEY_INFO, ...versions);
+}
+
+const composeVersionKeys: ComposeVersionKeys = <ComposeVersionKeys>{
     v1: mergeWithSharedKeys(DOCKER_COMPOSE_V1_KEY_INFO),
     v2: mergeWithSharedKeys(DOCKER_COMPOSE_V2_KEY_INFO),
     "v2.1": mergeWithSharedKeys(DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO),
     "v2.2": mergeWithSharedKeys(DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO, DOCKER_COMPOSE_V2_2_KEY_INFO),
-    All: mergeWithSharedKeys(DOCKER_COMPOSE_V1_KEY_INFO, DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO, DOCKER_COMPOSE_V2_2_KEY_INFO)
+    "v2.3": mergeWithSharedKeys(DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO, DOCKER_COMPOSE_V2_2_KEY_INFO, DOCKER_COMPOSE_V2_3_KEY_INFO),
+    "v2.4": mergeWithSharedKeys(DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO, DOCKER_COMPOSE_V2_2_KEY_INFO, DOCKER_COMPOSE_V2_3_KEY_INFO, DOCKER_COMPOSE_V2_4_KEY_INFO),
+    v3: mergeWithV3Keys(),
+    "v3.1": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO),
+    "v3.2": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO),
+    "v3.3": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO),
+    "v3.4": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO),
+    "v3.5": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO, DOCKER_COMPOSE_V3_5_KEY_INFO),
+    "v3.6": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO, DOCKER_COMPOSE_V3_5_KEY_INFO),
+    "v3.7": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO, DOCKER_COMPOSE_V3_5_KEY_INFO, DOCKER_COMPOSE_V3_7_KEY_INFO),
+    "v3.8": mergeWithV3Keys(DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO, DOCKER_COMPOSE_V3_5_KEY_INFO, DOCKER_COMPOSE_V3_7_KEY_INFO),
+    Spec: mergeWithSharedKeys(
+        DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO, DOCKER_COMPOSE_V2_2_KEY_INFO, DOCKER_COMPOSE_V2_3_KEY_INFO, DOCKER_COMPOSE_V2_4_KEY_INFO,
+        DOCKER_COMPOSE_V3_0_KEY_INFO, DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO, DOCKER_COMPOSE_V3_5_KEY_INFO, DOCKER_COMPOSE_SPEC_KEY_INFO
+    ),
+    All: mergeWithSharedKeys(
+        DOCKER_COMPOSE_V1_KEY_INFO, DOCKER_COMPOSE_V2_KEY_INFO, DOCKER_COMPOSE_V2_1_KEY_INFO, DOCKER_COMPOSE_V2_2_KEY_INFO, DOCKER_COMPOSE_V2_3_KEY_INFO,
+        DOCKER_COMPOSE_V2_4_KEY_INFO, DOCKER_COMPOSE_V3_0_KEY_INFO, DOCKER_COMPOSE_V3_1_KEY_INFO, DOCKER_COMPOSE_V3_3_KEY_INFO, DOCKER_COMPOSE_V3_5_KEY_INFO,
+        DOCKER_COMPOSE_SPEC_KEY_INFO
+    )
+};
+
+/**
+ * The versions of the compose file format with known keys, from oldest to newest
+ */
+export const composeFileVersions: string[] = ['1', '2', '2.1', '2.2', '2.3', '2.4', '3', '3.1', '3.2', '3.3', '3.4', '3.5', '3.6', '3.7', '3.8'];
+
+// tslint:disable-next-line: export-name
+export default composeVersionKeys;
+
+// The mappings a key can be in, since the same key can mean different things depending on where it is (e.g. `driver`)
+export type ComposeKeyScope = 'root' | 'service' | 'build' | 'logging' | 'extends' | 'healthcheck' | 'serviceNetwork' | 'servicePort' | 'serviceVolume' | 'serviceSecret' | 'deploy' | 'resources' | 'resourceLimits' | 'resourceReservations' | 'resourceDevice' | 'restartPolicy' | 'updateConfig' | 'placement' | 'network' | 'networkExternal' | 'ipam' | 'ipamConfig' | 'volume' | 'volumeExternal' | 'secret';
+
+// The paths of the mappings in each scope, where `*` matches any name and `#` any list index
+const SCOPE_PATHS: [ComposeKeyScope, string[]][] = [
+    ['root', []],
+    ['service', ['services', '*']],
+    ['build', ['services', '*', 'build']],
+    ['logging', ['services', '*', 'logging']],
+    ['extends', ['services', '*', 'extends']],
+    ['healthcheck', ['services', '*', 'healthcheck']],
+    ['serviceNetwork', ['services', '*', 'networks', '*']],
+    ['servicePort', ['services', '*', 'ports', '#']],
+    ['serviceVolume', ['services', '*', 'volumes', '#']],
+    ['serviceSecret', ['services', '*', 'secrets', '#']],
+    ['serviceSecret', ['services', '*', 'configs', '#']],
+    ['deploy', ['services', '*', 'deploy']],
+    ['resources', ['services', '*', 'deploy', 'resources']],
+    ['resourceLimits', ['services', '*', 'deploy', 'resources', 'limits']],
+    ['resourceReservations', ['services', '*', 'deploy', 'resources', 'reservations']],
+    ['resourceDevice', ['services', '*', 'deploy', 'resources', 'reservations', 'devices', '#']],
+    ['restartPolicy', ['services', '*', 'deploy', 'restart_policy']],
+    ['updateConfig', ['services', '*', 'deploy', 'update_config']],
+    ['updateConfig', ['services', '*', 'deploy', 'rollback_config']],
+    ['placement', ['services', '*', 'deploy', 'placement']],
+    ['network', ['networks', '*']],
+    ['networkExternal', ['networks', '*', 'external']],
+    ['ipam', ['networks', '*', 'ipam']],
+    ['ipamConfig', ['networks', '*', 'ipam', 'config', '#']],
+    ['volume', ['volumes', '*']],
+    ['volumeExternal', ['volumes', '*', 'external']],
+    ['secret', ['secrets', '*']],
+    ['secret', ['configs', '*']],
+];
+
+// The v1 format doesn't have top-level keys--services are defined at the top level
+const V1_SCOPE_PATHS: [ComposeKeyScope, string[]][] = [
+    ['service', ['*']],
+    ['extends', ['*', 'extends']],
+];
+
+// The keys in each scope except services, which get all of the keys that aren't specific to another scope.
+// Keys without a scoped description are only allowed in the versions that have them, and so are all of the top-level keys.
+const SCOPE_KEYS: { [scope in ComposeKeyScope]?: string[] } = {
+    root: ['version', 'name', 'include', 'services', 'networks', 'volumes', 'secrets', 'configs'],
+    build: [
+        'context', 'dockerfile', 'dockerfile_inline', 'args', 'ssh', 'cache_from', 'cache_to', 'additional_contexts', 'extra_hosts', 'isolation', 'privileged', 'labels',
+        'no_cache', 'pull', 'network', 'shm_size', 'target', 'secrets', 'tags', 'ulimits', 'platforms', 'entitlements'
+    ],
+    logging: ['driver', 'options'],
+    extends: ['service', 'file'],
+    healthcheck: ['test', 'interval', 'timeout', 'retries', 'start_period', 'start_interval', 'disable'],
+    serviceNetwork: ['aliases', 'ipv4_address', 'ipv6_address', 'link_local_ips', 'mac_address', 'driver_opts', 'priority', 'gw_priority', 'interface_name'],
+    servicePort: ['target', 'published', 'host_ip', 'protocol', 'mode', 'name', 'app_protocol'],
+    serviceVolume: ['type', 'source', 'target', 'read_only', 'consistency', 'bind', 'volume', 'tmpfs', 'image'],
+    serviceSecret: ['source', 'target', 'uid', 'gid', 'mode'],
+    deploy: ['mode', 'replicas', 'labels', 'placement', 'resources', 'restart_policy', 'update_config', 'rollback_config', 'endpoint_mode'],
+    resources: ['limits', 'reservations'],
+    resourceLimits: ['cpus', 'memory', 'pids'],
+    resourceReservations: ['cpus', 'memory', 'devices', 'generic_resources'],
+    resourceDevice: ['capabilities', 'driver', 'count', 'device_ids', 'options'],
+    restartPolicy: ['condition', 'delay', 'max_attempts', 'window'],
+    updateConfig: ['parallelism', 'delay', 'failure_action', 'monitor', 'max_failure_ratio', 'order'],
+    placement: ['constraints', 'preferences', 'max_replicas_per_node'],
+    network: ['driver', 'driver_opts', 'ipam', 'external', 'internal', 'enable_ipv4', 'enable_ipv6', 'attachable', 'labels', 'name'],
+    networkExternal: ['name'],
+    ipam: ['driver', 'config', 'options'],
+    ipamConfig: ['subnet', 'ip_range', 'gateway', 'aux_addresses'],
+    volume: ['driver', 'driver_opts', 'external', 'labels', 'name'],
+    volumeExternal: ['name'],
+    secret: ['file', 'environment', 'content', 'external', 'labels', 'name', 'driver', 'driver_opts', 'template_driver'],
 };
+
+const NON_SERVICE_KEYS: string[] = [
+    'version', 'include', 'services', 'context', 'args', 'driver', 'options', 'aliases', 'ipv4_address', 'ipv6_address', 'link_local_ips',
+    'driver_opts', 'ipam', 'external', 'internal', 'enable_ipv6', 'name', 'config', 'subnet', 'ip_range', 'gateway', 'aux_addresses'
+];
+
+// Keys that mean something else in a scope than what's described in the version's keys, and keys that are only in one scope
+const SCOPED_KEY_INFO: { [scope in ComposeKeyScope]?: KeyInfo } = {
+    root: {
+        'name': (
+            "The project name, used as a prefix for the names of the containers, networks and volumes. Defaults to the name of the directory of the file."
+        ),
+        'networks': (
+            "Specifies the networks to be created as part of your app. This is analogous to running `docker network create`."
+        ),
+        'volumes': (
+            "Specifies the volumes to be created as part of your app. This is analogous to running `docker volume create`."
+        ),
+        'secrets': (
+            "Specifies the secrets that can be granted to services, from a file or created outside of Compose."
+        ),
+        'configs': (
+            "Specifies the configs that can be granted to services, from a file or created outside of Compose."
+        )
+    },
+    build: {
+        'dockerfile': (
+            "Alternate Dockerfile, relative to the build context."
+        ),
+        'cache_from': (
+            "A list of images that the engine uses for cache resolution."
+        ),
+        'labels': (
+            "Add metadata to the resulting image using Docker labels. You can either use an array or a dictionary."
+        ),
+        'network': (
+            "Set the network containers connect to for the `RUN` instructions during build."
+        ),
+        'shm_size': (
+            "Set the size of the `/dev/shm` partition for this build's containers."
+        ),
+        'target': (
+            "Build the specified stage as defined inside the Dockerfile."
+        ),
+        'dockerfile_inline': (
+            "The contents of the Dockerfile, instead of a file in the build context."
+        ),
+        'ssh': (
+            "SSH agent sockets or keys to expose to the build, e.g. `default` (as with `docker build --ssh`)."
+        ),
+        'cache_to': (
+            "A list of locations to export the build cache to."
+        ),
+        'additional_contexts': (
+            "Named build contexts the Dockerfile can use with `FROM` and `COPY --from`, e.g. another directory or an image."
+        ),
+        'privileged': (
+            "Run the build with elevated privileges."
+        ),
+        'no_cache': (
+            "Disable the builder cache and build all of the layers again."
+        ),
+        'pull': (
+            "Always pull the images the Dockerfile refers to, even if they exist locally."
+        ),
+        'secrets': (
+            "Grant access to secrets during the build, referencing entries under the top-level `secrets` key."
+        ),
+        'tags': (
+            "Additional tags for the resulting image, besides the one in `image`."
+        ),
+        'platforms': (
+            "The platforms the image is built for, e.g. `linux/amd64` and `linux/arm64`."
+        ),
+        'entitlements': (
+            "Extra privileges the build is allowed to use, e.g. `network.host`."
+        )
+    },
+    extends: {
+        'service': (
+            "The name of the service being extended."
+        ),
+        'file': (
+            "The location of a Compose configuration file defining the service being extended. Defaults to the current file."
+        )
+    },
+    healthcheck: {
+        'test': (
+            "The command to run to check health. Either a string (run with the container's default shell) or a list starting with `NONE`, `CMD` or `CMD-SHELL`."
+        ),
+        'interval': (
+            "The time between health checks, e.g. `1m30s`."
+        ),
+        'timeout': (
+            "The time after which a single check is considered to have failed."
+        ),
+        'retries': (
+            "The number of consecutive failures needed to consider the container unhealthy."
+        ),
+        'start_period': (
+            "Initialization time for containers that need time to bootstrap. Failures during this period don't count towards the retries."
+        ),
+        'start_interval': (
+            "The time between health checks during the start period."
+        ),
+        'disable': (
+            "Disable any health check set by the image. Equivalent to `test: [\"NONE\"]`."
+        )
+    },
+    serviceNetwork: {
+        'priority': (
+            "The order in which the containers are connected to the networks, from the highest priority to the lowest."
+        ),
+        'gw_priority': (
+            "The network with the highest priority is used for the default gateway of the containers."
+        ),
+        'interface_name': (
+            "The name of the network interface in the containers."
+        )
+    },
+    servicePort: {
+        'target': (
+            "The port inside the container."
+        ),
+        'published': (
+            "The publicly exposed port."
+        ),
+        'host_ip': (
+            "The host IP address the port is published on. Defaults to all of the host's addresses."
+        ),
+        'protocol': (
+            "The port protocol (`tcp` or `udp`)."
+        ),
+        'mode': (
+            "`host` for publishing a host port on each node, or `ingress` for a swarm mode port to be load balanced."
+        ),
+        'name': (
+            "A human-readable name for the port."
+        ),
+        'app_protocol': (
+            "The application protocol the port uses, e.g. `http` or `grpc`."
+        )
+    },
+    serviceVolume: {
+        'type': (
+            "The mount type: `volume`, `bind`, `tmpfs` or `npipe`."
+        ),
+        'source': (
+            "The source of the mount, a path on the host for a bind mount, or the name of a volume defined in the top-level `volumes` key."
+        ),
+        'target': (
+            "The path in the container where the volume is mounted."
+        ),
+        'read_only': (
+            "Flag to set the volume as read-only."
+        ),
+        'consistency': (
+            "The consistency requirements of the mount: `consistent`, `cached` or `delegated` (Docker Desktop for Mac only)."
+        ),
+        'bind': (
+            "Additional bind options, e.g. `propagation`."
+        ),
+        'volume': (
+            "Additional volume options, e.g. `nocopy` to disable copying data from the container when the volume is created."
+        ),
+        'tmpfs': (
+            "Additional tmpfs options, e.g. `size` in bytes."
+        ),
+        'image': (
+            "Additional image options, e.g. `subpath` to mount only a directory of the image."
+        )
+    },
+    serviceSecret: {
+        'source': (
+            "The name of the secret or config as it's defined at the top level."
+        ),
+        'target': (
+            "The name of the file to be mounted in the containers. Defaults to the source."
+        ),
+        'uid': (
+            "The numeric UID that owns the mounted file in the containers."
+        ),
+        'gid': (
+            "The numeric GID that owns the mounted file in the containers."
+        ),
+        'mode': (
+            "The permissions for the mounted file in the containers, in octal notation (e.g. `0440`)."
+        )
+    },
+    deploy: {
+        'mode': (
+            "Either `global` (exactly one container per swarm node) or `replicated` (a specified number of containers). The default is `replicated`."
+        ),
+        'replicas': (
+            "The number of containers that should be running at any given time, if the service is `replicated`."
+        ),
+        'labels': (
+            "Specify labels for the service. These labels are only set on the service, and not on any containers for the service."
+        ),
+        'placement': (
+            "Specify placement of constraints and preferences."
+        ),
+        'resources': (
+            "Configures resource constraints, with `limits` and `reservations`."
+        ),
+        'restart_policy': (
+            "Configures if and how to restart containers when they exit. Replaces `restart`."
+        ),
+        'update_config': (
+            "Configures how the service should be updated. Useful for configuring rolling updates."
+        ),
+        'rollback_config': (
+            "Configures how the service should be rolled back in case of a failing update."
+        ),
+        'endpoint_mode': (
+            "Specify a service discovery method for external clients connecting to a swarm: `vip` (virtual IP) or `dnsrr` (DNS round-robin)."
+        )
+    },
+    resources: {
+        'limits': (
+            "The maximum resources the containers can use."
+        ),
+        'reservations': (
+            "The resources that are always available to the containers."
+        )
+    },
+    resourceLimits: {
+        'cpus': (
+            "The number of CPUs, e.g. `'0.50'`."
+        ),
+        'memory': (
+            "The amount of memory, e.g. `50M`."
+        ),
+        'pids': (
+            "The maximum number of processes in each container."
+        )
+    },
+    resourceReservations: {
+        'cpus': (
+            "The number of CPUs, e.g. `'0.50'`."
+        ),
+        'memory': (
+            "The amount of memory, e.g. `50M`."
+        ),
+        'devices': (
+            "Devices the containers need, e.g. GPUs, each with `capabilities` and optionally a `driver`, `count` or `device_ids`."
+        ),
+        'generic_resources': (
+            "Generic resources the containers need, e.g. `discrete_resource_spec` with a `kind` and `value`."
+        )
+    },
+    resourceDevice: {
+        'capabilities': (
+            "The capabilities a device must have, e.g. `gpu`. A device must have all of them."
+        ),
+        'driver': (
+            "The driver of the devices, e.g. `nvidia`."
+        ),
+        'count': (
+            "The number of devices to reserve, or `all`. Can't be used together with `device_ids`."
+        ),
+        'device_ids': (
+            "The IDs of the devices to reserve. Can't be used together with `count`."
+        ),
+        'options': (
+            "Driver-specific options as a key-value mapping."
+        )
+    },
+    restartPolicy: {
+        'condition': (
+            "One of `none`, `on-failure` or `any` (the default)."
+        ),
+        'delay': (
+            "How long to wait between restart attempts. The default is 0."
+        ),
+        'max_attempts': (
+            "How many times to attempt to restart a container before giving up. The default is to never give up."
+        ),
+        'window': (
+            "How long to wait before deciding if a restart has succeeded. The default is to decide immediately."
+        )
+    },
+    updateConfig: {
+        'parallelism': (
+            "The number of containers to update (or roll back) at a time."
+        ),
+        'delay': (
+            "The time to wait between updating (or rolling back) a group of containers."
+        ),
+        'failure_action': (
+            "What to do if an update fails: `continue`, `rollback` or `pause` (the default)."
+        ),
+        'monitor': (
+            "Duration after each task update to monitor for failure."
+        ),
+        'max_failure_ratio': (
+            "Failure rate to tolerate during an update."
+        ),
+        'order': (
+            "Order of operations: `stop-first` (the old task is stopped before starting the new one, the default) or `start-first`."
+        )
+    },
+    placement: {
+        'constraints': (
+            "A list of constraints the nodes must meet, e.g. `node.role == manager`."
+        ),
+        'preferences': (
+            "A list of preferences to spread the containers over nodes, e.g. `spread: node.labels.zone`."
+        ),
+        'max_replicas_per_node': (
+            "The maximum number of containers of the service on a single node."
+        )
+    },
+    network: {
+        'driver': (
+            "Specify which driver should be used for this network. Defaults to `bridge` on a single host and `overlay` on a swarm."
+        ),
+        'enable_ipv4': (
+            "Enable IPv4 networking. Defaults to true."
+        ),
+        'attachable': (
+            "Only used when the driver is `overlay`. If set to true, standalone containers can attach to this network in addition to services."
+        ),
+        'labels': (
+            "Add metadata to the network using Docker labels. You can either use an array or a dictionary."
+        ),
+        'name': (
+            "Set a custom name for this network, instead of one prefixed with the project name."
+        )
+    },
+    ipam: {
+        'driver': (
+            "Custom IPAM driver, instead of the default."
+        ),
+        'options': (
+            "Driver-specific options as a key-value mapping."
+        )
+    },
+    volume: {
+        'driver': (
+            "Specify which volume driver should be used for this volume. Defaults to `local`."
+        ),
+        'driver_opts': (
+            "Specify a list of options as key-value pairs to pass to the driver for this volume. Those options are driver-dependent."
+        ),
+        'external': (
+            "If set to true, specifies that this volume has been created outside of Compose. `docker-compose up` will not attempt to create it, and will raise an error if it doesn’t exist."
+        ),
+        'labels': (
+            "Add metadata to the volume using Docker labels. You can either use an array or a dictionary."
+        ),
+        'name': (
+            "Set a custom name for this volume, instead of one prefixed with the project name."
+        )
+    },
+    volumeExternal: {
+        'name': (
+            "Specifies the name of the externally defined volume."
+        )
+    },
+    secret: {
+        'file': (
+            "The secret or config is created with the contents of the file at this path."
+        ),
+        'external': (
+            "If set to true, specifies that this secret or config has already been created. Compose will raise an error if it doesn't exist."
+        ),
+        'labels': (
+            "Add metadata using Docker labels. You can either use an array or a dictionary."
+        ),
+        'name': (
+            "The name of the secret or config in Docker."
+        ),
+        'environment': (
+            "The secret or config is created with the value of this environment variable."
+        ),
+        'content': (
+            "The contents of the config, inline. Only for configs."
+        ),
+        'driver': (
+            "The secret driver to use instead of the default."
+        ),
+        'driver_opts': (
+            "Driver-specific options as a key-value mapping."
+        ),
+        'template_driver': (
+            "The templating driver to use, e.g. `golang`, to interpolate the contents when the secret or config is created."
+        )
+    }
+};
+
+/**
+ * Gets the scope of the keys in the mapping at a path, e.g. `build` for `['services', 'web', 'build']`
+ * @param version The compose file version, or `undefined` if the file doesn't specify one (but isn't v1)
+ */
+export function getComposeKeyScope(version: string | undefined, path: ComposePath): ComposeKeyScope | undefined {
+    const match = (version === '1' ? V1_SCOPE_PATHS : SCOPE_PATHS).find(([, scopePath]) =>
+        scopePath.length === path.length && scopePath.every((segment, i) => segment === '*' ? typeof path[i] === 'string' : segment === '#' ? typeof path[i] === 'number' : segment === path[i]));
+    return match ? match[0] : undefined;
+}
+
+/**
+ * Gets the keys of a version, or `undefined` if the version isn't known. Files without a version use the Compose Specification.
+ */
+export function getComposeVersionKeys(version: string | undefined): KeyInfo | undefined {
+    return version === undefined ? composeVersionKeys.Spec : <KeyInfo>composeVersionKeys[`v${version.replace(/\.0$/, '')}`];
+}
+
+/**
+ * Gets the keys that are allowed in the mapping at a path, with their descriptions
+ */
+export function getComposeKeyInfo(version: string | undefined, path: ComposePath): KeyInfo {
+    const scope = getComposeKeyScope(version, path);
+    if (!scope) {
+        return {};
+    }
+
+    const versionKeys: KeyInfo = getComposeVersionKeys(version) || composeVersionKeys.All;
+    const scopedKeys: KeyInfo = SCOPED_KEY_INFO[scope] || {};
+    const names: string[] = scope === 'service' ?
+        Object.keys(versionKeys).filter(key => !NON_SERVICE_KEYS.includes(key) && (key !== 'dockerfile' || version === '1')) :
+        SCOPE_KEYS[scope].filter(key => key in versionKeys || (scope !== 'root' && key in scopedKeys));
+
+    const result: KeyInfo = {};
+    for (const name of names) {
+        result[name] = scopedKeys[name] || versionKeys[name];
+    }
+
+    return result;
+}
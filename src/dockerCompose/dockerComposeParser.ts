@@ -3,84 +3,527 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-'use strict';
+export type ComposeNode = IComposeScalar | IComposeMapping | IComposeSequence;
 
-import vscode = require('vscode');
-import { IToken, Parser, TokenType } from '../parser';
+interface IComposeNodeBase {
+    /**
+     * Offsets in the document text. `end` is exclusive.
+     */
+    start: number;
+    end: number;
 
-export class DockerComposeParser extends Parser {
-    public constructor() {
-        let parseRegex = /\:+$/g;
-        super(parseRegex);
+    /**
+     * Set for nodes with an anchor, e.g. `&default`
+     */
+    anchor?: string;
+}
+
+export interface IComposeScalar extends IComposeNodeBase {
+    type: 'scalar';
+
+    /**
+     * The value without quotes. Block scalars (`|` and `>`) are kept with their line breaks.
+     */
+    value: string;
+    quoted: boolean;
+
+    /**
+     * Set for aliases, e.g. `*default`
+     */
+    alias?: string;
+}
+
+export interface IComposePair {
+    key: IComposeScalar;
+    value: ComposeNode | undefined;
+
+    /**
+     * `false` for lines that are only a key without a colon (yet), e.g. while typing
+     */
+    hasSeparator: boolean;
+}
+
+export interface IComposeMapping extends IComposeNodeBase {
+    type: 'mapping';
+    pairs: IComposePair[];
+}
+
+export interface IComposeSequence extends IComposeNodeBase {
+    type: 'sequence';
+    items: ComposeNode[];
+}
+
+interface ILine {
+    start: number;
+    text: string;
+    indent: number;
+
+    /**
+     * The column after the last character of content, ignoring comments and trailing whitespace. 0 for blank lines.
+     */
+    contentEnd: number;
+}
+
+const keyRegExp: RegExp = /^(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\[\]{},&*!|>%@`-][^#]*?|-[^\s#][^#]*?)\s*:(?=\s|$)/;
+const anchorOrTagRegExp: RegExp = /^([&!])(\S*)\s*/;
+const blockScalarRegExp: RegExp = /^[|>][-+0-9]*$/;
+
+/**
+ * Parses the (first) YAML document of a compose file into nodes with their offsets, so that hover, completion etc. know where they are in the document.
+ * Only what compose files use is supported, and it's lenient: incomplete lines (e.g. a key without a colon while typing) don't stop the rest of the document from being parsed.
+ */
+export function parseDockerCompose(text: string): ComposeNode | undefined {
+    return new DockerComposeParser(text).parse();
+}
+
+class DockerComposeParser {
+    private readonly _lines: ILine[] = [];
+    private _lineIndex: number = 0;
+
+    public constructor(private readonly _text: string) {
+        let start = 0;
+        for (const lineText of _text.split('\n')) {
+            const text = lineText.replace(/\r$/, '');
+            const indent = text.length - text.replace(/^ +/, '').length;
+            this._lines.push({ start, text, indent, contentEnd: getContentEnd(text, indent) });
+            start += lineText.length + 1;
+        }
+
+        // Documents end at the next document marker
+        const endIndex = this._lines.findIndex((l, i) => i > 0 && /^(---|\.\.\.)(\s|$)/.test(l.text) && this._lines.slice(0, i).some(isContentLine));
+        if (endIndex >= 0) {
+            this._lines.splice(endIndex);
+        }
+    }
+
+    public parse(): ComposeNode | undefined {
+        return this.parseBlock(-1);
+    }
+
+    /**
+     * Parses the block node on the next content line, if it's indented more than its parent
+     */
+    private parseBlock(parentIndent: number): ComposeNode | undefined {
+        const line = this.skipBlankLines();
+        return line && line.indent > parentIndent ? this.parseBlockAt(line.indent, parentIndent) : undefined;
     }
 
-    public parseLine(textLine: vscode.TextLine): IToken[] {
-        let r: IToken[] = [];
-        let lastTokenEndIndex = 0;
-        let lastPushedToken: IToken | undefined;
+    /**
+     * Parses the node at the given column of the current line, which may be after a sequence indicator (`- key: value`)
+     */
+    private parseBlockAt(column: number, parentIndent: number): ComposeNode | undefined {
+        const line = this._lines[this._lineIndex];
+        const content = line.text.slice(column, line.contentEnd);
+        if (isSequenceItem(content)) {
+            return this.parseSequence(column);
+        } else if (keyRegExp.test(content) || this.isFollowedByKey(column)) {
+            return this.parseMapping(column);
+        } else {
+            return this.parseValue(line.start + column, parentIndent);
+        }
+    }
 
-        let emit = (end: number, type: TokenType) => {
-            if (end <= lastTokenEndIndex) {
-                return;
+    /**
+     * Whether the lines without a colon at the given column, starting with the current one, are followed by a key at that column. If so, they're
+     * probably keys that are being typed above the others in a mapping.
+     */
+    private isFollowedByKey(column: number): boolean {
+        for (let i = this._lineIndex + 1; i < this._lines.length; i++) {
+            const line = this._lines[i];
+            if (!isContentLine(line)) {
+                continue;
+            } else if (line.indent !== column) {
+                return false;
             }
 
-            if (lastPushedToken && lastPushedToken.type === type) {
-                // merge with last pushed token
-                lastPushedToken.endIndex = end;
-                lastTokenEndIndex = end;
-                return;
+            const content = line.text.slice(column, line.contentEnd);
+            if (keyRegExp.test(content)) {
+                return true;
+            } else if (isSequenceItem(content)) {
+                return false;
             }
+        }
 
-            lastPushedToken = {
-                startIndex: lastTokenEndIndex,
-                endIndex: end,
-                type: type
-            };
+        return false;
+    }
 
-            r.push(lastPushedToken);
-            lastTokenEndIndex = end;
-        };
+    private parseMapping(column: number): IComposeMapping {
+        const pairs: IComposePair[] = [];
+        let line: ILine | undefined = this._lines[this._lineIndex];
+        while (line) {
+            const content = line.text.slice(column, line.contentEnd);
+            const keyMatch = keyRegExp.exec(content);
+            if (keyMatch) {
+                const rawKey = keyMatch[0].replace(/\s*:$/, '');
+                const key = createScalar(rawKey, line.start + column, line.start + column + rawKey.length);
+                const valueOffset = line.start + column + keyMatch[0].length;
+                pairs.push({ key, value: this.parseValue(valueOffset, column), hasSeparator: true });
+            } else {
+                // Probably a key that's being typed
+                pairs.push({ key: createScalar(content, line.start + column, line.start + line.contentEnd), value: undefined, hasSeparator: false });
+                this._lineIndex++;
+            }
+
+            line = this.skipBlankLines();
+            if (!line || line.indent !== column || isSequenceItem(line.text.slice(column))) {
+                break;
+            }
+        }
 
-        let inString = false;
-        let idx = textLine.firstNonWhitespaceCharacterIndex;
-        let line = textLine.text;
+        return { type: 'mapping', pairs, start: pairs[0].key.start, end: getEnd(pairs[pairs.length - 1]) };
+    }
 
-        for (let i = idx, len = line.length; i < len; i++) {
-            let ch = line.charAt(i);
+    private parseSequence(column: number): IComposeSequence {
+        const start = this._lines[this._lineIndex].start + column;
+        const items: ComposeNode[] = [];
+        let end = start + 1;
+        let line: ILine | undefined = this._lines[this._lineIndex];
+        while (line) {
+            const itemColumn = column + 1 + (line.text.slice(column + 1).length - line.text.slice(column + 1).replace(/^ +/, '').length);
+            let item: ComposeNode | undefined;
+            if (itemColumn >= line.contentEnd) {
+                end = line.start + column + 1;
+                this._lineIndex++;
+                item = this.parseBlock(column);
+            } else {
+                item = this.parseBlockAt(itemColumn, column);
+            }
 
-            if (inString) {
-                if (ch === '"' && line.charAt(i - 1) !== '\\') {
-                    inString = false;
-                    emit(i + 1, TokenType.String);
-                }
+            if (item) {
+                items.push(item);
+                end = item.end;
+            }
+
+            line = this.skipBlankLines();
+            if (!line || line.indent !== column || !isSequenceItem(line.text.slice(column))) {
+                break;
+            }
+        }
+
+        return { type: 'sequence', items, start, end };
+    }
+
+    /**
+     * Parses the value at the given offset (after `key:` or `- `). If there's nothing after it, the value is the block on the next lines.
+     */
+    private parseValue(offset: number, parentIndent: number): ComposeNode | undefined {
+        const line = this._lines[this._lineIndex];
+        let rest = this._text.slice(offset, line.start + line.contentEnd);
+        const trimmedLength = rest.length - rest.replace(/^\s+/, '').length;
+        offset += trimmedLength;
+        rest = rest.slice(trimmedLength);
+
+        // Anchors and tags can come before the value, e.g. `x-defaults: &defaults`
+        let anchor: string | undefined;
+        let match: RegExpExecArray | null;
+        while ((match = anchorOrTagRegExp.exec(rest))) {
+            if (match[1] === '&') {
+                anchor = match[2];
+            }
+            offset += match[0].length;
+            rest = rest.slice(match[0].length);
+        }
+
+        let node: ComposeNode | undefined;
+        if (!rest) {
+            this._lineIndex++;
+            node = this.parseBlock(parentIndent);
+
+            // A sequence can be at the same indentation as its key
+            const nextLine = this.skipBlankLines();
+            if (!node && nextLine && nextLine.indent === parentIndent && parentIndent >= 0 && isSequenceItem(nextLine.text.slice(parentIndent))) {
+                node = this.parseSequence(parentIndent);
+            }
+        } else if (blockScalarRegExp.test(rest)) {
+            node = this.parseBlockScalar(offset, parentIndent, rest.startsWith('>'));
+        } else if (rest.startsWith('[') || rest.startsWith('{')) {
+            const flowParser = new FlowParser(this._text, this.getBlockEnd(parentIndent), line.start + line.contentEnd);
+            node = flowParser.parse(offset);
+            this.skipToOffset(node.end);
+        } else if (rest.startsWith('"') || rest.startsWith('\'')) {
+            node = parseQuotedScalar(this._text, offset, this.getBlockEnd(parentIndent)) || parseQuotedScalar(this._text, offset, line.start + line.contentEnd, true);
+            this.skipToOffset(node.end);
+        } else {
+            node = this.parsePlainScalar(offset, parentIndent);
+        }
+
+        if (node && anchor !== undefined) {
+            node.anchor = anchor;
+        }
+
+        return node;
+    }
+
+    /**
+     * Plain scalars can continue on the next lines if those are indented more than the parent
+     */
+    private parsePlainScalar(offset: number, parentIndent: number): IComposeScalar {
+        let line = this._lines[this._lineIndex];
+        const parts: string[] = [this._text.slice(offset, line.start + line.contentEnd)];
+        let end = line.start + line.contentEnd;
+        this._lineIndex++;
+
+        let nextLine = this.skipBlankLines();
+        while (nextLine && nextLine.indent > parentIndent && !keyRegExp.test(nextLine.text.slice(nextLine.indent, nextLine.contentEnd))) {
+            line = nextLine;
+            parts.push(line.text.slice(line.indent, line.contentEnd));
+            end = line.start + line.contentEnd;
+            this._lineIndex++;
+            nextLine = this.skipBlankLines();
+        }
+
+        const scalar = createScalar(parts.join(' '), offset, end);
+        if (/^\*\S+$/.test(scalar.value)) {
+            scalar.alias = scalar.value.slice(1);
+        }
+        return scalar;
+    }
+
+    private parseBlockScalar(offset: number, parentIndent: number, folded: boolean): IComposeScalar {
+        this._lineIndex++;
+        const lines: ILine[] = [];
+        for (; this._lineIndex < this._lines.length; this._lineIndex++) {
+            const line = this._lines[this._lineIndex];
+            if (line.text.trim() && line.indent <= parentIndent) {
+                break;
+            }
+            lines.push(line);
+        }
+
+        while (lines.length > 0 && !lines[lines.length - 1].text.trim()) {
+            lines.pop();
+        }
+
+        const indent = Math.min(...lines.filter(l => l.text.trim()).map(l => l.indent));
+        const text = lines.map(l => l.text.slice(indent)).join(folded ? ' ' : '\n');
+        const end = lines.length > 0 ? lines[lines.length - 1].start + lines[lines.length - 1].text.length : offset + 1;
+        return { type: 'scalar', value: text, quoted: false, start: offset, end };
+    }
+
+    /**
+     * Gets the offset where the block containing the current line ends, i.e. the start of the next line that isn't indented more than the parent.
+     * Quoted scalars and flow collections can span lines, but not past that.
+     */
+    private getBlockEnd(parentIndent: number): number {
+        for (let i = this._lineIndex + 1; i < this._lines.length; i++) {
+            if (isContentLine(this._lines[i]) && this._lines[i].indent <= parentIndent) {
+                return this._lines[i].start;
+            }
+        }
+
+        return this._text.length;
+    }
+
+    private skipBlankLines(): ILine | undefined {
+        while (this._lineIndex < this._lines.length && !isContentLine(this._lines[this._lineIndex])) {
+            this._lineIndex++;
+        }
+
+        return this._lines[this._lineIndex];
+    }
+
+    /**
+     * Moves to the line after the one containing the (exclusive) end offset of a node that may span lines
+     */
+    private skipToOffset(end: number): void {
+        while (this._lineIndex < this._lines.length && this._lines[this._lineIndex].start < end) {
+            this._lineIndex++;
+        }
+    }
+}
+
+/**
+ * Parses flow collections, e.g. `[db, cache]` or `{ condition: service_healthy }`
+ */
+class FlowParser {
+    private _offset: number = 0;
+    private _lenient: boolean = false;
 
+    /**
+     * @param _lineEnd Unterminated collections (e.g. while typing) end at the end of their first line
+     */
+    public constructor(private readonly _text: string, private readonly _blockEnd: number, private readonly _lineEnd: number) {
+    }
+
+    public parse(offset: number): IComposeMapping | IComposeSequence {
+        this._offset = offset;
+        const node = this.parseCollection(this._blockEnd);
+        if (node) {
+            return node;
+        }
+
+        this._offset = offset;
+        this._lenient = true;
+        return this.parseCollection(this._lineEnd);
+    }
+
+    /**
+     * Returns `undefined` if the collection isn't terminated before the limit, unless parsing leniently
+     */
+    private parseCollection(limit: number): IComposeMapping | IComposeSequence | undefined {
+        const start = this._offset;
+        const isMapping = this._text[this._offset] === '{';
+        const closing = isMapping ? '}' : ']';
+        const pairs: IComposePair[] = [];
+        const items: ComposeNode[] = [];
+        this._offset++;
+
+        const createCollection = (): IComposeMapping | IComposeSequence => isMapping ? { type: 'mapping', pairs, start, end: this._offset } : { type: 'sequence', items, start, end: this._offset };
+        for (this.skipWhitespace(limit); this._offset < limit; this.skipWhitespace(limit)) {
+            if (this._text[this._offset] === closing) {
+                this._offset++;
+                return createCollection();
+            } else if (this._text[this._offset] === ',') {
+                this._offset++;
                 continue;
             }
 
-            if (ch === '"') {
-                emit(i, TokenType.Text);
-                inString = true;
+            const nodeStart = this._offset;
+            const node = this.parseNode(limit);
+            if (!node) {
+                return undefined;
+            } else if (this._offset === nodeStart && this._text[this._offset] !== ':') {
+                // Skip stray indicators, e.g. the `}` in `[a}`
+                this._offset++;
                 continue;
             }
 
-            if (ch === '#') {
-                // Comment the rest of the line
-                emit(i, TokenType.Text);
-                emit(line.length, TokenType.Comment);
-                break;
+            this.skipWhitespace(limit);
+            if (isMapping || this._text[this._offset] === ':') {
+                let value: ComposeNode | undefined;
+                const hasSeparator = this._text[this._offset] === ':';
+                if (hasSeparator) {
+                    this._offset++;
+                    this.skipWhitespace(limit);
+                    if (this._offset < limit && !/[,\]}]/.test(this._text[this._offset])) {
+                        value = this.parseNode(limit);
+                        if (!value) {
+                            return undefined;
+                        }
+                    }
+                }
+
+                const key: IComposeScalar = node.type === 'scalar' ? node : createScalar(this._text.slice(node.start, node.end), node.start, node.end);
+                if (isMapping) {
+                    pairs.push({ key, value, hasSeparator });
+                } else {
+                    // A single pair in a sequence, e.g. `[name: value]`
+                    items.push({ type: 'mapping', pairs: [{ key, value, hasSeparator }], start: key.start, end: value ? value.end : key.end });
+                }
+            } else {
+                items.push(node);
             }
+        }
 
-            if (ch === ':') {
-                emit(i + 1, TokenType.Key);
+        return this._lenient ? createCollection() : undefined;
+    }
+
+    private parseNode(limit: number): ComposeNode | undefined {
+        const char = this._text[this._offset];
+        if (char === '[' || char === '{') {
+            return this.parseCollection(limit);
+        } else if (char === '"' || char === '\'') {
+            const scalar = parseQuotedScalar(this._text, this._offset, limit, this._lenient);
+            if (scalar) {
+                this._offset = scalar.end;
+            }
+            return scalar;
+        } else {
+            const start = this._offset;
+            while (this._offset < limit && !/[,\[\]{}\n]/.test(this._text[this._offset]) && !/^:(\s|[,\[\]{}]|$)/.test(this._text.slice(this._offset, this._offset + 2))) {
+                this._offset++;
+            }
+            const raw = this._text.slice(start, this._offset).replace(/\s+$/, '');
+            const scalar = createScalar(raw, start, start + raw.length);
+            if (/^\*\S+$/.test(raw)) {
+                scalar.alias = raw.slice(1);
             }
+            return scalar;
+        }
+    }
 
-            if (ch === ' ' || ch === '\t') {
-                emit(i, TokenType.Text);
-                emit(i + 1, TokenType.Whitespace);
+    private skipWhitespace(limit: number): void {
+        while (this._offset < limit) {
+            if (/\s/.test(this._text[this._offset])) {
+                this._offset++;
+            } else if (this._text[this._offset] === '#' && /\s/.test(this._text[this._offset - 1])) {
+                while (this._offset < limit && this._text[this._offset] !== '\n') {
+                    this._offset++;
+                }
+            } else {
+                break;
             }
         }
+    }
+}
 
-        emit(line.length, TokenType.Text);
-        return r;
+/**
+ * @param lenient Ends unterminated strings at the limit instead of returning `undefined`
+ */
+function parseQuotedScalar(text: string, offset: number, limit: number, lenient?: boolean): IComposeScalar | undefined {
+    const quote = text[offset];
+    let value = '';
+    for (let i = offset + 1; i < limit; i++) {
+        const char = text[i];
+        if (quote === '\'' && char === '\'' && text[i + 1] === '\'') {
+            value += '\'';
+            i++;
+        } else if (quote === '"' && char === '\\' && i + 1 < limit) {
+            const escaped = text[++i];
+            value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        } else if (char === quote) {
+            return { type: 'scalar', value, quoted: true, start: offset, end: i + 1 };
+        } else if (char === '\n' || char === '\r') {
+            // Line breaks in quoted scalars are folded
+            value = value.replace(/ +$/, '') + (char === '\n' ? ' ' : '');
+            while (i + 1 < limit && /[ \t]/.test(text[i + 1])) {
+                i++;
+            }
+        } else {
+            value += char;
+        }
     }
+
+    return lenient ? { type: 'scalar', value, quoted: true, start: offset, end: limit } : undefined;
+}
+
+function createScalar(raw: string, start: number, end: number): IComposeScalar {
+    const quoted = raw.length >= 2 && (raw.startsWith('"') || raw.startsWith('\''));
+    const scalar = quoted ? parseQuotedScalar(raw, 0, raw.length) : undefined;
+    return { type: 'scalar', value: scalar ? scalar.value : raw, quoted: !!scalar, start, end };
+}
+
+function getEnd(pair: IComposePair): number {
+    return pair.value ? Math.max(pair.value.end, pair.key.end) : pair.key.end;
+}
+
+function isSequenceItem(content: string): boolean {
+    return /^-(\s|$)/.test(content);
+}
+
+function isContentLine(line: ILine): boolean {
+    return line.contentEnd > 0 && !/^(---|\.\.\.)(\s|$)|^%/.test(line.text);
+}
+
+/**
+ * Finds where the content of a line ends, i.e. before a comment and trailing whitespace
+ */
+function getContentEnd(text: string, indent: number): number {
+    let quote: string | undefined;
+    let end = text.length;
+    for (let i = indent; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if ((char === '"' || char === '\'') && (i === indent || /[\s:\[{,-]/.test(text[i - 1]))) {
+            quote = char;
+        } else if (char === '#' && (i === indent || /\s/.test(text[i - 1]))) {
+            end = i;
+            break;
+        }
+    }
+
+    return text.slice(0, end).replace(/\s+$/, '').length;
 }
@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { CancellationToken, DefinitionProvider, Location, Position, Range, ReferenceContext, ReferenceProvider, RenameProvider, TextDocument, workspace, WorkspaceEdit } from 'vscode';
+import { DockerComposeDocument } from './dockerComposeDocument';
+import { getComposeSymbolAt, getComposeSymbols, IComposeSymbol } from './dockerComposeSymbols';
+
+// The same files as COMPOSE_FILE_GLOB_PATTERN, e.g. docker-compose.yml and docker-compose.override.yml
+const composeFileNamePattern = /^docker-compose.*\.ya?ml$/i;
+
+// The names Compose allows for services, networks, volumes, secrets and configs
+const namePattern = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+interface IComposeFileSymbols {
+    document: TextDocument;
+    symbols: IComposeSymbol[];
+}
+
+/**
+ * Go to definition, find all references and rename for the services, networks, volumes, secrets and configs of compose files.
+ * The compose files in the same folder are included, since they're usually combined with `-f` (e.g. docker-compose.override.yml).
+ */
+export class DockerComposeReferenceProvider implements DefinitionProvider, ReferenceProvider, RenameProvider {
+    public async provideDefinition(document: TextDocument, position: Position, token: CancellationToken): Promise<Location[] | undefined> {
+        const symbol = getSymbolAt(document, position);
+        if (!symbol) {
+            return undefined;
+        }
+
+        const locations = await findSymbols(document, symbol, s => s.isDefinition);
+
+        // A definition's own location isn't useful, unless another file overrides it
+        return locations.length === 1 && symbol.isDefinition ? undefined : locations;
+    }
+
+    public async provideReferences(document: TextDocument, position: Position, context: ReferenceContext, token: CancellationToken): Promise<Location[] | undefined> {
+        const symbol = getSymbolAt(document, position);
+        if (!symbol) {
+            return undefined;
+        }
+
+        return await findSymbols(document, symbol, s => context.includeDeclaration || !s.isDefinition);
+    }
+
+    public prepareRename(document: TextDocument, position: Position, token: CancellationToken): Range {
+        const symbol = getSymbolAt(document, position);
+        if (!symbol) {
+            throw new Error('Only the names of services, networks, volumes, secrets and configs can be renamed.');
+        }
+
+        return new Range(document.positionAt(symbol.start), document.positionAt(symbol.end));
+    }
+
+    public async provideRenameEdits(document: TextDocument, position: Position, newName: string, token: CancellationToken): Promise<WorkspaceEdit | undefined> {
+        const symbol = getSymbolAt(document, position);
+        if (!symbol) {
+            return undefined;
+        } else if (!namePattern.test(newName)) {
+            throw new Error(`"${newName}" is not a valid ${symbol.kind} name. Names can only contain letters, digits, "_", "." and "-".`);
+        }
+
+        const edit = new WorkspaceEdit();
+        for (const location of await findSymbols(document, symbol, () => true)) {
+            edit.replace(location.uri, location.range, newName);
+        }
+
+        return edit;
+    }
+}
+
+function getSymbolAt(document: TextDocument, position: Position): IComposeSymbol | undefined {
+    return getComposeSymbolAt(getComposeSymbols(DockerComposeDocument.get(document)), document.offsetAt(position));
+}
+
+async function findSymbols(document: TextDocument, symbol: IComposeSymbol, predicate: (s: IComposeSymbol) => boolean): Promise<Location[]> {
+    const locations: Location[] = [];
+    for (const file of await getRelatedComposeFiles(document)) {
+        for (const s of file.symbols) {
+            if (s.kind === symbol.kind && s.name === symbol.name && predicate(s)) {
+                locations.push(new Location(file.document.uri, new Range(file.document.positionAt(s.start), file.document.positionAt(s.end))));
+            }
+        }
+    }
+
+    return locations;
+}
+
+/**
+ * Gets the symbols of a compose document and the other compose files in its folder
+ */
+async function getRelatedComposeFiles(document: TextDocument): Promise<IComposeFileSymbols[]> {
+    const documents: TextDocument[] = [document];
+    if (document.uri.scheme === 'file') {
+        const folder = path.dirname(document.uri.fsPath);
+        for (const fileName of (await fse.readdir(folder)).sort()) {
+            const filePath = path.join(folder, fileName);
+            if (composeFileNamePattern.test(fileName) && filePath !== document.uri.fsPath) {
+                try {
+                    // Open documents are used as they are, including unsaved changes
+                    documents.push(await workspace.openTextDocument(filePath));
+                } catch {
+                    // Skip files that can't be read
+                }
+            }
+        }
+    }
+
+    return documents.map(d => ({ document: d, symbols: getComposeSymbols(DockerComposeDocument.get(d)) }));
+}
@@ -0,0 +1,205 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { DockerComposeDocument } from './dockerComposeDocument';
+import { ComposeNode, IComposeMapping, IComposeScalar } from './dockerComposeParser';
+
+export type ComposeSymbolKind = 'service' | 'network' | 'volume' | 'secret' | 'config';
+
+/**
+ * A name defined at the top level of a compose file (e.g. a service), or a reference to one (e.g. in `depends_on`)
+ */
+export interface IComposeSymbol {
+    kind: ComposeSymbolKind;
+    name: string;
+
+    /**
+     * The offsets of the name itself, without quotes or e.g. the alias in `links: ["db:database"]`
+     */
+    start: number;
+    end: number;
+    isDefinition: boolean;
+}
+
+const topLevelKinds: [string, ComposeSymbolKind][] = [
+    ['networks', 'network'],
+    ['volumes', 'volume'],
+    ['secrets', 'secret'],
+    ['configs', 'config']
+];
+
+// Named volumes (as opposed to host paths) in the short syntax of service volumes, e.g. `data:/var/lib/data:ro`
+const namedVolumePattern = /^([a-zA-Z0-9][a-zA-Z0-9_.-]*):/;
+
+/**
+ * Gets the definitions of and references to services, networks, volumes, secrets and configs in a compose document
+ */
+export function getComposeSymbols(document: DockerComposeDocument): IComposeSymbol[] {
+    const symbols: IComposeSymbol[] = [];
+    if (!document.root || document.root.type !== 'mapping') {
+        return symbols;
+    }
+
+    // Services are defined at the top level in v1
+    const services = document.version === '1' ? document.root : document.getNode(['services']);
+    if (services && services.type === 'mapping') {
+        addDefinitions(services, 'service', symbols);
+        for (const pair of services.pairs) {
+            if (pair.value && pair.value.type === 'mapping' && !isSpecialKey(pair.key)) {
+                addServiceReferences(pair.value, symbols);
+            }
+        }
+    }
+
+    if (document.version !== '1') {
+        for (const [key, kind] of topLevelKinds) {
+            const mapping = document.getNode([key]);
+            if (mapping && mapping.type === 'mapping') {
+                addDefinitions(mapping, kind, symbols);
+            }
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Gets the symbol at an offset, if any
+ */
+export function getComposeSymbolAt(symbols: IComposeSymbol[], offset: number): IComposeSymbol | undefined {
+    return symbols.find(s => offset >= s.start && offset <= s.end);
+}
+
+function addDefinitions(mapping: IComposeMapping, kind: ComposeSymbolKind, symbols: IComposeSymbol[]): void {
+    for (const pair of mapping.pairs) {
+        if (pair.hasSeparator && !isSpecialKey(pair.key)) {
+            addSymbol(pair.key, kind, true, symbols);
+        }
+    }
+}
+
+function addServiceReferences(service: IComposeMapping, symbols: IComposeSymbol[]): void {
+    for (const pair of service.pairs) {
+        const value = pair.value;
+        switch (pair.key.value) {
+            case 'depends_on':
+                addReferences(value, 'service', symbols);
+                break;
+            case 'links':
+                // e.g. `db` or `db:database`
+                forEachScalar(value, item => addSymbol(item, 'service', false, symbols, item.value.split(':')[0]));
+                break;
+            case 'volumes_from':
+                // e.g. `db`, `db:ro` or `container:name`, which isn't a service
+                forEachScalar(value, item => {
+                    if (!item.value.startsWith('container:')) {
+                        addSymbol(item, 'service', false, symbols, item.value.split(':')[0]);
+                    }
+                });
+                break;
+            case 'network_mode':
+                if (value && value.type === 'scalar' && value.value.startsWith('service:')) {
+                    addSymbol(value, 'service', false, symbols, value.value.slice('service:'.length), 'service:'.length);
+                }
+                break;
+            case 'extends':
+                // Only services in the same file, i.e. without `file`
+                if (value && value.type === 'mapping' && !value.pairs.some(p => p.key.value === 'file')) {
+                    const extended = value.pairs.find(p => p.key.value === 'service');
+                    if (extended && extended.value && extended.value.type === 'scalar') {
+                        addSymbol(extended.value, 'service', false, symbols);
+                    }
+                }
+                break;
+            case 'networks':
+                addReferences(value, 'network', symbols);
+                break;
+            case 'volumes':
+                addVolumeReferences(value, symbols);
+                break;
+            case 'secrets':
+                addReferences(value, 'secret', symbols);
+                break;
+            case 'configs':
+                addReferences(value, 'config', symbols);
+                break;
+            default:
+        }
+    }
+}
+
+/**
+ * Adds the names in a list (`[db, cache]`), the keys of a mapping (`db: { condition: service_healthy }`) or the `source` of long syntax list items
+ */
+function addReferences(node: ComposeNode | undefined, kind: ComposeSymbolKind, symbols: IComposeSymbol[]): void {
+    if (node && node.type === 'mapping') {
+        for (const pair of node.pairs) {
+            if (pair.hasSeparator && !isSpecialKey(pair.key)) {
+                addSymbol(pair.key, kind, false, symbols);
+            }
+        }
+    } else if (node && node.type === 'sequence') {
+        for (const item of node.items) {
+            if (item.type === 'scalar') {
+                addSymbol(item, kind, false, symbols);
+            } else if (item.type === 'mapping') {
+                const source = item.pairs.find(p => p.key.value === 'source');
+                if (source && source.value && source.value.type === 'scalar') {
+                    addSymbol(source.value, kind, false, symbols);
+                }
+            }
+        }
+    }
+}
+
+function addVolumeReferences(node: ComposeNode | undefined, symbols: IComposeSymbol[]): void {
+    if (!node || node.type !== 'sequence') {
+        return;
+    }
+
+    for (const item of node.items) {
+        if (item.type === 'scalar' && !item.alias) {
+            const match = namedVolumePattern.exec(item.value);
+
+            // A single letter is a Windows drive, e.g. `C:\data:/data`
+            if (match && !/^[a-zA-Z]:[\\/]/.test(item.value)) {
+                addSymbol(item, 'volume', false, symbols, match[1]);
+            }
+        } else if (item.type === 'mapping') {
+            const type = item.pairs.find(p => p.key.value === 'type');
+            const source = item.pairs.find(p => p.key.value === 'source');
+            if ((!type || (type.value && type.value.type === 'scalar' && type.value.value === 'volume')) && source && source.value && source.value.type === 'scalar') {
+                addSymbol(source.value, 'volume', false, symbols);
+            }
+        }
+    }
+}
+
+function forEachScalar(node: ComposeNode | undefined, callback: (scalar: IComposeScalar) => void): void {
+    if (node && node.type === 'sequence') {
+        for (const item of node.items) {
+            if (item.type === 'scalar') {
+                callback(item);
+            }
+        }
+    }
+}
+
+/**
+ * Adds a symbol for (part of) a scalar
+ * @param name The name in the scalar, if it's not the whole value
+ * @param nameOffset The offset of the name in the value
+ */
+function addSymbol(scalar: IComposeScalar, kind: ComposeSymbolKind, isDefinition: boolean, symbols: IComposeSymbol[], name: string = scalar.value, nameOffset: number = 0): void {
+    if (name && !scalar.alias) {
+        const start = scalar.start + (scalar.quoted ? 1 : 0) + nameOffset;
+        symbols.push({ kind, name, start, end: start + name.length, isDefinition });
+    }
+}
+
+// Merge keys and extension fields aren't names
+function isSpecialKey(key: IComposeScalar): boolean {
+    return key.value === '<<' || key.value.startsWith('x-');
+}
@@ -0,0 +1,240 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ComposePath, DockerComposeDocument } from './dockerComposeDocument';
+import { composeFileVersions, ComposeKeyScope, getComposeKeyInfo, getComposeKeyScope, getComposeVersionKeys } from './dockerComposeKeyInfo';
+import { ComposeNode, IComposeMapping } from './dockerComposeParser';
+
+export interface IComposeProblem {
+    start: number;
+    end: number;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+type ComposeValueType = 'string' | 'number' | 'boolean' | 'list' | 'mapping';
+
+const listOrMapping: ComposeValueType[] = ['list', 'mapping'];
+const stringOrList: ComposeValueType[] = ['string', 'list'];
+const stringOrMapping: ComposeValueType[] = ['string', 'mapping'];
+
+// The types the values of keys can have. Any scalar is a string, since e.g. `image: 3` is still a valid image name.
+const VALUE_TYPES: { [scope in ComposeKeyScope]?: { [key: string]: ComposeValueType[] } } = {
+    'root': {
+        'version': ['string'], 'name': ['string'], 'include': ['list'], 'services': ['mapping'], 'networks': ['mapping'], 'volumes': ['mapping'], 'secrets': ['mapping'], 'configs': ['mapping']
+    },
+    'service': {
+        'build': stringOrMapping, 'command': stringOrList, 'entrypoint': stringOrList, 'env_file': stringOrList, 'dns': stringOrList, 'dns_search': stringOrList, 'tmpfs': stringOrList,
+        'environment': listOrMapping, 'labels': listOrMapping, 'extra_hosts': listOrMapping, 'sysctls': listOrMapping, 'depends_on': listOrMapping, 'networks': listOrMapping,
+        'ports': ['list'], 'expose': ['list'], 'volumes': ['list'], 'volumes_from': ['list'], 'links': ['list'], 'external_links': ['list'], 'cap_add': ['list'], 'cap_drop': ['list'],
+        'devices': ['list'], 'dns_opt': ['list'], 'security_opt': ['list'], 'group_add': ['list'], 'secrets': ['list'], 'configs': ['list'], 'profiles': ['list'],
+        'device_cgroup_rules': ['list'], 'post_start': ['list'], 'pre_stop': ['list'], 'annotations': listOrMapping, 'attach': ['boolean'], 'blkio_config': ['mapping'], 'develop': ['mapping'],
+        'privileged': ['boolean'], 'read_only': ['boolean'], 'stdin_open': ['boolean'], 'tty': ['boolean'], 'init': ['boolean'], 'oom_kill_disable': ['boolean'],
+        'scale': ['number'], 'cpu_count': ['number'], 'cpu_percent': ['number'], 'cpu_shares': ['number'], 'pids_limit': ['number'], 'oom_score_adj': ['number'],
+        'extends': stringOrMapping, 'healthcheck': ['mapping'], 'logging': ['mapping'], 'deploy': ['mapping'], 'ulimits': ['mapping'], 'storage_opt': ['mapping'], 'credential_spec': ['mapping'],
+        'image': ['string'], 'container_name': ['string'], 'hostname': ['string'], 'working_dir': ['string'], 'user': ['string'], 'restart': ['string'], 'network_mode': ['string'],
+        'runtime': ['string'], 'platform': ['string']
+    },
+    'build': {
+        'context': ['string'], 'dockerfile': ['string'], 'args': listOrMapping, 'cache_from': ['list'], 'labels': listOrMapping, 'network': ['string'], 'target': ['string'],
+        'ssh': listOrMapping, 'cache_to': ['list'], 'additional_contexts': listOrMapping, 'extra_hosts': listOrMapping, 'secrets': ['list'], 'tags': ['list'], 'platforms': ['list'],
+        'privileged': ['boolean'], 'no_cache': ['boolean'], 'pull': ['boolean']
+    },
+    'logging': {
+        'driver': ['string'], 'options': ['mapping']
+    },
+    'extends': {
+        'service': ['string'], 'file': ['string']
+    },
+    'healthcheck': {
+        'test': stringOrList, 'retries': ['number'], 'disable': ['boolean']
+    },
+    serviceNetwork: {
+        'aliases': ['list'], 'link_local_ips': ['list']
+    },
+    servicePort: {
+        'target': ['number']
+    },
+    serviceVolume: {
+        'read_only': ['boolean'], 'bind': ['mapping'], 'volume': ['mapping'], 'tmpfs': ['mapping']
+    },
+    serviceSecret: {
+        'source': ['string'], 'target': ['string']
+    },
+    'deploy': {
+        'replicas': ['number'], 'labels': listOrMapping, 'placement': ['mapping'], 'resources': ['mapping'], 'restart_policy': ['mapping'], 'update_config': ['mapping'], 'rollback_config': ['mapping']
+    },
+    'resources': {
+        'limits': ['mapping'], 'reservations': ['mapping']
+    },
+    resourceReservations: {
+        'devices': ['list'], 'generic_resources': ['list']
+    },
+    resourceDevice: {
+        'capabilities': ['list'], 'device_ids': ['list'], 'options': ['mapping']
+    },
+    restartPolicy: {
+        'max_attempts': ['number']
+    },
+    updateConfig: {
+        'parallelism': ['number'], 'max_failure_ratio': ['number']
+    },
+    'placement': {
+        'constraints': ['list'], 'preferences': ['list']
+    },
+    'network': {
+        'driver': ['string'], 'driver_opts': ['mapping'], 'ipam': ['mapping'], 'external': ['boolean', 'mapping'], 'internal': ['boolean'], 'enable_ipv6': ['boolean'], 'attachable': ['boolean'],
+        'labels': listOrMapping, 'name': ['string']
+    },
+    'ipam': {
+        'driver': ['string'], 'config': ['list'], 'options': ['mapping']
+    },
+    ipamConfig: {
+        'aux_addresses': ['mapping']
+    },
+    'volume': {
+        'driver': ['string'], 'driver_opts': ['mapping'], 'external': ['boolean', 'mapping'], 'labels': listOrMapping, 'name': ['string']
+    },
+    'secret': {
+        'file': ['string'], 'external': ['boolean', 'mapping'], 'labels': listOrMapping, 'name': ['string']
+    }
+};
+
+const typeNames: { [type in ComposeValueType]: string } = {
+    'string': 'a string',
+    'number': 'a number',
+    'boolean': 'a boolean',
+    'list': 'a list',
+    'mapping': 'a mapping'
+};
+
+// Unquoted scalars that YAML (1.1, which Compose uses) reads as booleans and numbers
+const booleanPattern = /^(true|false|yes|no|on|off)$/i;
+const numberPattern = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+
+// Values with variables (`${VAR}` or `$VAR`, but not `$$` which escapes a dollar sign) only get their type once they're interpolated
+const variablePattern = /(^|[^$])(\$\$)*\$[{a-zA-Z_]/;
+
+/**
+ * Checks a compose document against the keys of its version, returning unknown keys, values of the wrong type and keys from other versions
+ */
+export function validateComposeDocument(document: DockerComposeDocument): IComposeProblem[] {
+    const problems: IComposeProblem[] = [];
+    if (document.root && document.root.type !== 'mapping') {
+        problems.push({ start: document.root.start, end: document.root.end, message: 'A Compose file should be a mapping of keys to values.', severity: 'error' });
+    } else if (document.root) {
+        // Unknown versions are checked against all of the keys, but their keys can't be compared with other versions
+        const version = document.version;
+        validateNode(document.root, [], version, getComposeVersionKeys(version) !== undefined, problems);
+    }
+
+    return problems;
+}
+
+function validateNode(node: ComposeNode | undefined, path: ComposePath, version: string | undefined, isKnownVersion: boolean, problems: IComposeProblem[]): void {
+    if (!node || node.type === 'scalar') {
+        return;
+    } else if (node.type === 'sequence') {
+        node.items.forEach((item, i) => validateNode(item, [...path, i], version, isKnownVersion, problems));
+    } else {
+        const scope = getComposeKeyScope(version, path);
+        if (scope) {
+            validateMapping(node, path, scope, version, isKnownVersion, problems);
+        }
+
+        for (const pair of node.pairs) {
+            if (pair.hasSeparator && pair.key.value !== '<<' && !pair.key.value.startsWith('x-')) {
+                validateNode(pair.value, [...path, pair.key.value], version, isKnownVersion, problems);
+            }
+        }
+    }
+}
+
+function validateMapping(mapping: IComposeMapping, path: ComposePath, scope: ComposeKeyScope, version: string | undefined, isKnownVersion: boolean, problems: IComposeProblem[]): void {
+    const keyInfo = getComposeKeyInfo(version, path);
+    const seen = new Set<string>();
+
+    for (const pair of mapping.pairs) {
+        const key = pair.key.value;
+        const addProblem = (message: string, severity: 'error' | 'warning') => problems.push({ start: pair.key.start, end: pair.key.end, message, severity });
+
+        if (!pair.hasSeparator) {
+            addProblem(`Expected a ":" after "${key}".`, 'error');
+            continue;
+        } else if (key === '<<') {
+            continue;
+        } else if (seen.has(key)) {
+            addProblem(`Duplicate key "${key}".`, 'error');
+        }
+
+        seen.add(key);
+
+        if (key.startsWith('x-')) {
+            if (isKnownVersion && version !== undefined && version !== '2.4' && parseFloat(version) < 3.4) {
+                addProblem(`Extension fields like "${key}" are only supported in version 2.4, version 3.4 and later, and files without a version.`, 'warning');
+            }
+        } else if (!(key in keyInfo)) {
+            const supportedIn = isKnownVersion ? describeSupportedVersions(key, path) : undefined;
+            if (supportedIn) {
+                const unsupportedIn = version === undefined ? 'by the Compose Specification' : `in version ${version}`;
+                addProblem(`"${key}" isn't supported ${unsupportedIn}. It's supported in ${supportedIn}.`, 'warning');
+            } else {
+                // The catalog of keys may be missing some, so they're only reported as warnings
+                addProblem(`Unknown key "${key}".`, 'warning');
+            }
+        } else {
+            const types = (VALUE_TYPES[scope] || {})[key];
+            if (types && !hasValueType(pair.value, types)) {
+                problems.push({
+                    start: pair.value.start,
+                    end: pair.value.end,
+                    message: `The value of "${key}" should be ${types.map(t => typeNames[t]).join(' or ')}.`,
+                    severity: 'error'
+                });
+            }
+        }
+    }
+}
+
+// Describes the versions that allow a key, e.g. "version 3 and later, and files without a version"
+function describeSupportedVersions(key: string, path: ComposePath): string | undefined {
+    const versions = composeFileVersions.filter(v => key in getComposeKeyInfo(v, path));
+    const descriptions: string[] = [];
+    if (versions.length > 1 && composeFileVersions.indexOf(versions[0]) + versions.length === composeFileVersions.length) {
+        descriptions.push(`version ${versions[0]} and later`);
+    } else if (versions.length > 0) {
+        descriptions.push(`version ${versions.join(', ')}`);
+    }
+
+    if (key in getComposeKeyInfo(undefined, path)) {
+        descriptions.push('files without a version');
+    }
+
+    return descriptions.length > 0 ? descriptions.join(', and ') : undefined;
+}
+
+function hasValueType(node: ComposeNode | undefined, types: ComposeValueType[]): boolean {
+    // Empty values, aliases and values with variables could be anything
+    if (!node || (node.type === 'scalar' && (node.alias || variablePattern.test(node.value)))) {
+        return true;
+    }
+
+    return types.some(type => {
+        switch (type) {
+            case 'list':
+                return node.type === 'sequence';
+            case 'mapping':
+                return node.type === 'mapping';
+            case 'string':
+                return node.type === 'scalar';
+            case 'boolean':
+                return node.type === 'scalar' && !node.quoted && booleanPattern.test(node.value);
+            case 'number':
+                return node.type === 'scalar' && !node.quoted && numberPattern.test(node.value);
+            default:
+                return false;
+        }
+    });
+}
@@ -17,15 +17,22 @@ import { COMPOSE_FILE_GLOB_PATTERN } from './constants';
 import { registerDebugConfigurationProvider } from './debugging/coreclr/registerDebugConfigurationProvider';
 import { registerDebugProvider } from './debugging/DebugHelper';
 import { DockerComposeCompletionItemProvider } from './dockerCompose/dockerComposeCompletionItemProvider';
+import { DockerComposeDiagnosticsProvider } from './dockerCompose/dockerComposeDiagnosticsProvider';
 import { DockerComposeHoverProvider } from './dockerCompose/dockerComposeHoverProvider';
-import composeVersionKeys from './dockerCompose/dockerComposeKeyInfo';
-import { DockerComposeParser } from './dockerCompose/dockerComposeParser';
+import { DockerComposeReferenceProvider } from './dockerCompose/dockerComposeReferenceProvider';
 import { DockerfileCompletionItemProvider } from './dockerfileCompletionItemProvider';
 import { ext } from './extensionVariables';
 import { registerListeners } from './registerListeners';
 import { registerTaskProviders } from './tasks/TaskHelper';
 import { registerTrees } from './tree/registerTrees';
 import { AzureAccountExtensionListener } from './utils/AzureAccountExtensionListener';
+import { ContainerFileDocumentProvider } from './utils/ContainerFileDocumentProvider';
+import { ContainerLogsDocumentProvider } from './utils/ContainerLogsDocumentProvider';
+import { ContainerNotificationsListener } from './utils/ContainerNotificationsListener';
+import { ContainerProcessesDocumentProvider } from './utils/ContainerProcessesDocumentProvider';
+import { ContainerStatsDocumentProvider } from './utils/ContainerStatsDocumentProvider';
+import { ContainerStatsManager } from './utils/ContainerStatsManager';
+import { DockerEventsListener } from './utils/DockerEventsListener';
 import { Keytar } from './utils/keytar';
 import { nps } from './utils/nps';
 import { refreshDockerode } from './utils/refreshDockerode';
@@ -35,6 +42,7 @@ export type KeyInfo = { [keyName: string]: string };
 
 export interface ComposeVersionKeys {
     All: KeyInfo;
+    Spec: KeyInfo;
     v1: KeyInfo;
     v2: KeyInfo;
 }
@@ -90,13 +98,14 @@ export async function activateInternal(ctx: vscode.ExtensionContext, perfStats:
             scheme: 'file',
             pattern: COMPOSE_FILE_GLOB_PATTERN
         };
-        let yamlHoverProvider = new DockerComposeHoverProvider(
-            new DockerComposeParser(),
-            composeVersionKeys.All
-        );
+        let yamlHoverProvider = new DockerComposeHoverProvider();
         ctx.subscriptions.push(
             vscode.languages.registerHoverProvider(YAML_MODE_ID, yamlHoverProvider)
         );
+        const yamlReferenceProvider = new DockerComposeReferenceProvider();
+        ctx.subscriptions.push(vscode.languages.registerDefinitionProvider(YAML_MODE_ID, yamlReferenceProvider));
+        ctx.subscriptions.push(vscode.languages.registerReferenceProvider(YAML_MODE_ID, yamlReferenceProvider));
+        ctx.subscriptions.push(vscode.languages.registerRenameProvider(YAML_MODE_ID, yamlReferenceProvider));
         ctx.subscriptions.push(
             vscode.languages.registerCompletionItemProvider(
                 YAML_MODE_ID,
@@ -104,8 +113,18 @@ export async function activateInternal(ctx: vscode.ExtensionContext, perfStats:
                 "."
             )
         );
+        ctx.subscriptions.push(DockerComposeDiagnosticsProvider.register(YAML_MODE_ID));
 
         await refreshDockerode();
+        ext.dockerEvents = new DockerEventsListener();
+        ctx.subscriptions.push(ext.dockerEvents);
+        ext.containerStats = new ContainerStatsManager();
+        ctx.subscriptions.push(ext.containerStats);
+        ctx.subscriptions.push(ContainerStatsDocumentProvider.register());
+        ctx.subscriptions.push(ContainerFileDocumentProvider.register());
+        ctx.subscriptions.push(ContainerLogsDocumentProvider.register());
+        ctx.subscriptions.push(ContainerProcessesDocumentProvider.register());
+        ctx.subscriptions.push(ContainerNotificationsListener.register());
 
         registerTrees();
         registerCommands();
@@ -191,8 +210,10 @@ namespace Configuration {
                 if (e.affectsConfiguration('docker.host') ||
                     e.affectsConfiguration('docker.certPath') ||
                     e.affectsConfiguration('docker.tlsVerify') ||
-                    e.affectsConfiguration('docker.machineName')) {
+                    e.affectsConfiguration('docker.machineName') ||
+                    e.affectsConfiguration('docker.context')) {
                     await refreshDockerode();
+                    await ext.contextsTree.refresh();
                 }
             }
         ));
@@ -8,10 +8,15 @@ import * as osNode from 'os';
 import { ExtensionContext, TreeView } from "vscode";
 import { AzExtTreeDataProvider, AzExtTreeItem, IAzExtOutputChannel, IAzureUserInput, ITelemetryReporter } from "vscode-azureextensionui";
 import { ContainersTreeItem } from './tree/containers/ContainersTreeItem';
+import { ContextsTreeItem } from './tree/contexts/ContextsTreeItem';
+import { DiskUsageTreeItem } from './tree/diskUsage/DiskUsageTreeItem';
 import { ImagesTreeItem } from './tree/images/ImagesTreeItem';
 import { NetworksTreeItem } from './tree/networks/NetworksTreeItem';
 import { RegistriesTreeItem } from './tree/registries/RegistriesTreeItem';
 import { VolumesTreeItem } from './tree/volumes/VolumesTreeItem';
+import { ContainerLogsDocumentProvider } from './utils/ContainerLogsDocumentProvider';
+import { ContainerStatsManager } from './utils/ContainerStatsManager';
+import { DockerEventsListener } from './utils/DockerEventsListener';
 import { IKeytar } from './utils/keytar';
 import { ITerminalProvider } from "./utils/TerminalProvider";
 
@@ -28,6 +33,9 @@ export namespace ext {
     export let keytar: IKeytar | undefined;
     export let dockerode: Dockerode;
     export let dockerodeInitError: unknown;
+    export let dockerEvents: DockerEventsListener;
+    export let containerStats: ContainerStatsManager;
+    export let containerLogs: ContainerLogsDocumentProvider;
     export const ignoreBundle = !/^(false|0)?$/i.test(process.env.AZCODE_DOCKER_IGNORE_BUNDLE || '');
 
     export let imagesTree: AzExtTreeDataProvider;
@@ -52,6 +60,14 @@ export namespace ext {
     export let volumesTreeView: TreeView<AzExtTreeItem>;
     export let volumesRoot: VolumesTreeItem;
 
+    export let diskUsageTree: AzExtTreeDataProvider;
+    export let diskUsageTreeView: TreeView<AzExtTreeItem>;
+    export let diskUsageRoot: DiskUsageTreeItem;
+
+    export let contextsTree: AzExtTreeDataProvider;
+    export let contextsTreeView: TreeView<AzExtTreeItem>;
+    export let contextsRoot: ContextsTreeItem;
+
     /**
      * A test-injectable structure defining the current operating system and version
      */
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Task } from 'vscode';
+import { Task, WorkspaceFolder } from 'vscode';
 import { DockerPlatform } from '../debugging/DockerPlatformHelper';
 import { cloneObject } from '../utils/cloneObject';
 import { CommandLineBuilder } from '../utils/commandLineBuilder';
@@ -11,7 +11,7 @@ import { DockerRunOptions } from './DockerRunTaskDefinitionBase';
 import { DockerTaskProvider } from './DockerTaskProvider';
 import { NetCoreRunTaskDefinition } from './netcore/NetCoreTaskHelper';
 import { NodeRunTaskDefinition } from './node/NodeTaskHelper';
-import { defaultVsCodeLabels, getAggregateLabels } from './TaskDefinitionBase';
+import { defaultVsCodeLabels, getAggregateLabels, workspaceFolderLabel } from './TaskDefinitionBase';
 import { DockerRunTaskContext, getAssociatedDockerBuildTask, TaskHelper, throwIfCancellationRequested } from './TaskHelper';
 
 export interface DockerRunTaskDefinition extends NetCoreRunTaskDefinition, NodeRunTaskDefinition {
@@ -50,7 +50,7 @@ export class DockerRunTaskProvider extends DockerTaskProvider {
 
         await this.validateResolvedDefinition(context, definition.dockerRun);
 
-        const commandLine = await this.resolveCommandLine(definition.dockerRun);
+        const commandLine = await this.resolveCommandLine(definition.dockerRun, context.folder);
 
         const stdoutBuffer = Buffer.alloc(4 * 1024); // Any output beyond 4K is not a container ID and we won't deal with it
         await context.terminal.executeCommandInTerminal(
@@ -76,7 +76,7 @@ export class DockerRunTaskProvider extends DockerTaskProvider {
         }
     }
 
-    private async resolveCommandLine(runOptions: DockerRunOptions): Promise<CommandLineBuilder> {
+    private async resolveCommandLine(runOptions: DockerRunOptions, folder: WorkspaceFolder): Promise<CommandLineBuilder> {
         return CommandLineBuilder
             .create('docker', 'run', '-dt')
             .withFlagArg('-P', runOptions.portsPublishAll || (runOptions.portsPublishAll === undefined && (runOptions.ports === undefined || runOptions.ports.length < 1)))
@@ -85,7 +85,7 @@ export class DockerRunTaskProvider extends DockerTaskProvider {
             .withNamedArg('--network-alias', runOptions.networkAlias)
             .withKeyValueArgs('-e', runOptions.env)
             .withArrayArgs('--env-file', runOptions.envFiles)
-            .withKeyValueArgs('--label', getAggregateLabels(runOptions.labels, defaultVsCodeLabels))
+            .withKeyValueArgs('--label', getAggregateLabels(runOptions.labels, { ...defaultVsCodeLabels, [workspaceFolderLabel]: folder.uri.fsPath }))
             .withArrayArgs('-v', runOptions.volumes, volume => `${volume.localPath}:${volume.containerPath}${volume.permissions ? ':' + volume.permissions : ''}`)
             .withArrayArgs('-p', runOptions.ports, port => `${port.hostPort ? port.hostPort + ':' : ''}${port.containerPort}${port.protocol ? '/' + port.protocol : ''}`)
             .withArrayArgs('--add-host', runOptions.extraHosts, extraHost => `${extraHost.hostname}:${extraHost.ip}`)
@@ -20,6 +20,11 @@ export const defaultVsCodeLabels: { [key: string]: string } = {
     'com.microsoft.created-by': 'visual-studio-code'
 };
 
+/**
+ * Added to containers started by tasks (along with the default labels), so they can be told apart from the ones of other workspaces
+ */
+export const workspaceFolderLabel: string = 'com.microsoft.vscode.workspace-folder';
+
 export function getAggregateLabels(labels: DockerLabels | undefined, defaultLabels: { [key: string]: string }): { [key: string]: string } {
     const { includeDefaults, ...explicitLabels } = labels || {};
 
@@ -27,10 +27,18 @@ export abstract class LocalGroupTreeItemBase<TItem extends ILocalItem, TProperty
         return this.group + '|LocalGroup'; // Add suffix to ensure this id doesn't coincidentally overlap with a non-grouped item
     }
 
+    public get items(): TItem[] {
+        return this._items;
+    }
+
     public get maxCreatedTime(): number {
         return Math.max(...this._items.map(i => i.createdTime));
     }
 
+    public get totalSize(): number {
+        return this._items.reduce((total, i) => total + (i.size || 0), 0);
+    }
+
     public async loadMoreChildrenImpl(_clearCache: boolean): Promise<AzExtTreeItem[]> {
         this._childTreeItems = this.getChildTreeItems();
         return this._childTreeItems;
@@ -3,10 +3,11 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { ConfigurationChangeEvent, ConfigurationTarget, TreeView, TreeViewVisibilityChangeEvent, window, workspace, WorkspaceConfiguration } from "vscode";
+import { commands, ConfigurationChangeEvent, ConfigurationTarget, Disposable, TreeView, TreeViewVisibilityChangeEvent, window, workspace, WorkspaceConfiguration } from "vscode";
 import { AzExtParentTreeItem, AzExtTreeItem, AzureWizard, GenericTreeItem, IActionContext, InvalidTreeItem, registerEvent } from "vscode-azureextensionui";
 import { configPrefix } from "../constants";
 import { ext } from "../extensionVariables";
+import { DockerEventType, IDockerEvent } from "../utils/DockerEventsListener";
 import { DockerExtensionKind, getVSCodeRemoteInfo, IVSCodeRemoteInfo, RemoteKind } from "../utils/getVSCodeRemoteInfo";
 import { getThemedIconPath } from "./IconPath";
 import { LocalGroupTreeItemBase } from "./LocalGroupTreeItemBase";
@@ -14,16 +15,18 @@ import { OpenUrlTreeItem } from "./OpenUrlTreeItem";
 import { CommonGroupBy, CommonProperty, CommonSortBy, sortByProperties } from "./settings/CommonProperties";
 import { ITreeArraySettingInfo, ITreeSettingInfo } from "./settings/ITreeSettingInfo";
 import { ITreeSettingsWizardContext, ITreeSettingWizardInfo } from "./settings/ITreeSettingsWizardContext";
+import { ITreeFilterTerm, matchesTreeFilterTerm, parseTreeFilter } from "./settings/TreeFilter";
 import { TreeSettingListStep } from "./settings/TreeSettingListStep";
 import { TreeSettingStep } from "./settings/TreeSettingStep";
 
 export interface ILocalItem {
     createdTime: number;
+    size?: number;
     treeId: string;
     data: {};
 }
 
-export type LocalChildType<T extends ILocalItem> = new (parent: AzExtParentTreeItem, item: T) => AzExtTreeItem & { createdTime: number; };
+export type LocalChildType<T extends ILocalItem> = new (parent: AzExtParentTreeItem, item: T) => AzExtTreeItem & { createdTime: number; size?: number; };
 export type LocalChildGroupType<TItem extends ILocalItem, TProperty extends string | CommonProperty> = new (parent: LocalRootTreeItemBase<TItem, TProperty>, group: string, items: TItem[]) => LocalGroupTreeItemBase<TItem, TProperty>;
 
 const groupByKey: string = 'groupBy';
@@ -31,6 +34,10 @@ const sortByKey: string = 'sortBy';
 const labelKey: string = 'label';
 const descriptionKey: string = 'description';
 
+// Events that don't affect what is shown in the explorer (health checks alone generate a constant stream of exec events)
+const ignoredEventActions: RegExp = /^(exec_|attach|detach|resize|top|export|archive-path|extract-to-dir|copy)/;
+const eventRefreshDelay: number = 500;
+
 export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty extends string | CommonProperty> extends AzExtParentTreeItem {
     public abstract labelSettingInfo: ITreeSettingInfo<TProperty>;
     public abstract descriptionSettingInfo: ITreeArraySettingInfo<TProperty>;
@@ -41,6 +48,7 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
     }
 
     public abstract treePrefix: string;
+    public abstract dockerEventType: DockerEventType;
     public abstract configureExplorerTitle: string;
     public abstract childType: LocalChildType<TItem>;
     public abstract childGroupType: LocalChildGroupType<TItem, TProperty>;
@@ -56,6 +64,10 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
     private _currentItems: TItem[] | undefined;
     private _itemsFromPolling: TItem[] | undefined;
     private _failedToConnect: boolean = false;
+    private _pollingIntervalId: NodeJS.Timeout | undefined;
+    private _eventRefreshTimeoutId: NodeJS.Timeout | undefined;
+    private _eventDisposables: Disposable[] = [];
+    private _treeView: TreeView<AzExtTreeItem> | undefined;
 
     public get contextValue(): string {
         return this.treePrefix;
@@ -65,26 +77,33 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
         return workspace.getConfiguration(`${configPrefix}.${this.treePrefix}`);
     }
 
+    /**
+     * The filter is persisted per workspace, since what's interesting usually depends on the project
+     */
+    public get filterText(): string {
+        return ext.context.workspaceState.get<string>(this.filterStateKey, '');
+    }
+
+    private get filterStateKey(): string {
+        return `vscode-docker.${this.treePrefix}.filter`;
+    }
+
     public registerRefreshEvents(treeView: TreeView<AzExtTreeItem>): void {
-        let intervalId: NodeJS.Timeout;
-        registerEvent('treeView.onDidChangeVisibility', treeView.onDidChangeVisibility, (context: IActionContext, e: TreeViewVisibilityChangeEvent) => {
+        this._treeView = treeView;
+        this.updateFilterDisplay();
+
+        registerEvent('treeView.onDidChangeVisibility', treeView.onDidChangeVisibility, async (context: IActionContext, e: TreeViewVisibilityChangeEvent) => {
             context.errorHandling.suppressDisplay = true;
             context.telemetry.suppressIfSuccessful = true;
             context.telemetry.properties.isActivationEvent = 'true';
 
             if (e.visible) {
-                const configOptions: WorkspaceConfiguration = workspace.getConfiguration('docker');
-                const refreshInterval: number = configOptions.get<number>('explorerRefreshInterval', 2000);
-                intervalId = setInterval(
-                    async () => {
-                        if (window.state.focused && await this.hasChanged()) {
-                            await this.refresh();
-                        }
-                    },
-                    refreshInterval);
+                await this.startListening(context);
             } else {
-                clearInterval(intervalId);
+                this.stopListening();
             }
+
+            this.onDidChangeVisibility(e.visible);
         });
 
         registerEvent('treeView.onDidChangeConfiguration', workspace.onDidChangeConfiguration, async (context: IActionContext, e: ConfigurationChangeEvent) => {
@@ -98,6 +117,13 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
         });
     }
 
+    /**
+     * Lets derived trees pause background work (e.g. sampling stats) while they're hidden
+     */
+    protected onDidChangeVisibility(_visible: boolean): void {
+        // Nothing to do by default
+    }
+
     public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
         try {
             this._currentItems = this._itemsFromPolling || await this.getSortedItems();
@@ -127,7 +153,17 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
             this.descriptionSetting = this.getTreeArraySetting(descriptionKey, this.descriptionSettingInfo);
             context.telemetry.properties.descriptionSetting = this.descriptionSetting.toString();
 
-            return this.groupItems(this._currentItems);
+            const filteredItems = this.filterItems(this._currentItems);
+            if (filteredItems.length === 0) {
+                context.telemetry.properties.noMatchingItems = 'true';
+                return [new GenericTreeItem(this, {
+                    label: "No items match the current filter.",
+                    iconPath: getThemedIconPath('info'),
+                    contextValue: 'dockerNoMatchingItems'
+                })];
+            }
+
+            return this.groupItems(filteredItems);
         }
     }
 
@@ -142,10 +178,14 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
             if (ti1 instanceof this.childGroupType && ti2 instanceof this.childGroupType) {
                 if (this.groupBySetting === 'CreatedTime' && ti2.maxCreatedTime !== ti1.maxCreatedTime) {
                     return ti2.maxCreatedTime - ti1.maxCreatedTime;
+                } else if (this.sortBySetting === 'Size' && ti2.totalSize !== ti1.totalSize) {
+                    return ti2.totalSize - ti1.totalSize;
                 }
             } else if (ti1 instanceof this.childType && ti2 instanceof this.childType) {
                 if (this.sortBySetting === 'CreatedTime' && ti2.createdTime !== ti1.createdTime) {
                     return ti2.createdTime - ti1.createdTime;
+                } else if (this.sortBySetting === 'Size' && (ti2.size || 0) !== (ti1.size || 0)) {
+                    return (ti2.size || 0) - (ti1.size || 0);
                 }
             }
 
@@ -224,6 +264,21 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
         }
     }
 
+    /**
+     * Checks the settings directly (rather than the cached values, which are only updated after getting the items) to see if any of these properties are used by the tree.
+     * Useful for skipping expensive calls to get properties that aren't displayed.
+     */
+    public isAnyPropertyUsed(properties: string[]): boolean {
+        const usedProperties: string[] = [
+            this.getTreeSetting(labelKey, this.labelSettingInfo),
+            ...this.getTreeArraySetting(descriptionKey, this.descriptionSettingInfo),
+            this.getTreeSetting(groupByKey, this.groupBySettingInfo),
+            this.getTreeSetting(sortByKey, this.sortBySettingInfo),
+            ...this.getFilterTerms().map(t => t.property || '')
+        ];
+        return usedProperties.some(p => properties.includes(p));
+    }
+
     public getSettingWizardInfoList(): ITreeSettingWizardInfo[] {
         return [
             {
@@ -285,6 +340,161 @@ export abstract class LocalRootTreeItemBase<TItem extends ILocalItem, TProperty
         }
     }
 
+    public async filterExplorer(context: IActionContext): Promise<void> {
+        const filterText: string = await ext.ui.showInputBox({
+            prompt: 'Enter text to filter by, or "property:value" to filter by a specific property (e.g. "CreatedTime:days"). Leave empty to clear the filter.',
+            value: this.filterText
+        });
+
+        context.telemetry.properties.hasPropertyFilter = String(this.getFilterTerms(filterText).some(t => !!t.property));
+        await this.setFilter(filterText.trim());
+    }
+
+    public async clearFilter(): Promise<void> {
+        await this.setFilter('');
+    }
+
+    /**
+     * Finds and reveals the tree item for an item, looking inside groups if needed (e.g. to navigate to it from another view).
+     * Returns false if it isn't in the tree, for example because it's hidden by the filter.
+     */
+    public async revealChildTreeItem(context: IActionContext, predicate: (treeItem: AzExtTreeItem) => boolean): Promise<boolean> {
+        let match: AzExtTreeItem | undefined;
+        for (const child of await this.getCachedChildren(context)) {
+            if (child instanceof this.childGroupType) {
+                match = (await child.getCachedChildren(context)).find(predicate);
+            } else if (predicate(child)) {
+                match = child;
+            }
+
+            if (match) {
+                if (this._treeView) {
+                    await this._treeView.reveal(match, { select: true, focus: true });
+                }
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private async setFilter(filterText: string): Promise<void> {
+        await ext.context.workspaceState.update(this.filterStateKey, filterText || undefined);
+        this.updateFilterDisplay();
+        await this.refresh();
+    }
+
+    private updateFilterDisplay(): void {
+        const filterText = this.filterText;
+        if (this._treeView) {
+            this._treeView.message = filterText ? `Filtered by "${filterText}"` : undefined;
+        }
+
+        // Controls whether the "Clear Filter" button is shown
+        /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+        commands.executeCommand('setContext', `vscode-docker:${this.treePrefix}Filtered`, !!filterText);
+    }
+
+    private getFilterTerms(filterText: string = this.filterText): ITreeFilterTerm[] {
+        return parseTreeFilter(filterText, this.labelSettingInfo.properties.map(p => p.property));
+    }
+
+    private filterItems(items: TItem[]): TItem[] {
+        const terms = this.getFilterTerms();
+        return items.filter(item => terms.every(term => {
+            const values: string[] = term.property ?
+                [this.getPropertyValue(item, <TProperty>term.property)] :
+                [this.getTreeItemLabel(item), this.getTreeItemDescription(item)];
+            return values.some(v => matchesTreeFilterTerm(v, term));
+        }));
+    }
+
+    private async startListening(context: IActionContext): Promise<void> {
+        this.stopListening();
+
+        this._eventDisposables.push(
+            ext.dockerEvents.onDidReceiveEvent(event => this.onDockerEvent(event)),
+            ext.dockerEvents.onDidChangeListening(listening => {
+                if (listening) {
+                    this.stopPolling();
+                    this.scheduleEventRefresh(); // Catch up on anything that was missed while disconnected
+                } else {
+                    this.startPolling();
+                }
+            })
+        );
+
+        if (await ext.dockerEvents.listen()) {
+            context.telemetry.properties.refreshMode = 'events';
+        } else {
+            // Fall back to polling if the events stream isn't available
+            context.telemetry.properties.refreshMode = 'polling';
+            this.startPolling();
+        }
+    }
+
+    private stopListening(): void {
+        for (const disposable of this._eventDisposables) {
+            disposable.dispose();
+        }
+        this._eventDisposables = [];
+
+        this.stopPolling();
+
+        if (this._eventRefreshTimeoutId !== undefined) {
+            clearTimeout(this._eventRefreshTimeoutId);
+            this._eventRefreshTimeoutId = undefined;
+        }
+    }
+
+    private startPolling(): void {
+        if (this._pollingIntervalId === undefined) {
+            const configOptions: WorkspaceConfiguration = workspace.getConfiguration('docker');
+            const refreshInterval: number = configOptions.get<number>('explorerRefreshInterval', 2000);
+            this._pollingIntervalId = setInterval(
+                async () => {
+                    if (window.state.focused && await this.hasChanged()) {
+                        await this.refresh();
+                    }
+                },
+                refreshInterval);
+        }
+    }
+
+    private stopPolling(): void {
+        if (this._pollingIntervalId !== undefined) {
+            clearInterval(this._pollingIntervalId);
+            this._pollingIntervalId = undefined;
+        }
+    }
+
+    /**
+     * Whether an event may change what is shown in this explorer. By default, that's any event for `dockerEventType` that isn't ignored.
+     */
+    protected isRefreshEvent(event: IDockerEvent): boolean {
+        return event.Type === this.dockerEventType && !ignoredEventActions.test(event.Action);
+    }
+
+    private onDockerEvent(event: IDockerEvent): void {
+        if (this.isRefreshEvent(event)) {
+            this.scheduleEventRefresh();
+        }
+    }
+
+    /**
+     * Events tend to come in bursts (e.g. `docker-compose up`), so wait a bit and refresh once
+     */
+    private scheduleEventRefresh(): void {
+        if (this._eventRefreshTimeoutId === undefined) {
+            this._eventRefreshTimeoutId = setTimeout(
+                async () => {
+                    this._eventRefreshTimeoutId = undefined;
+                    await this.refresh();
+                },
+                eventRefreshDelay);
+        }
+    }
+
     private getDockerErrorTreeItems(context: IActionContext, error: unknown): AzExtTreeItem[] {
         const connectionMessage = 'Failed to connect. Is Docker installed and running?';
 
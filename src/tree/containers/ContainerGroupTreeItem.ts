@@ -8,13 +8,36 @@ import { getThemedIconPath, IconPath } from "../IconPath";
 import { getImageGroupIcon } from "../images/ImageProperties";
 import { LocalGroupTreeItemBase } from "../LocalGroupTreeItemBase";
 import { ContainerProperty, getContainerStateIcon } from "./ContainerProperties";
+import { ContainerTreeItem } from "./ContainerTreeItem";
 import { LocalContainerInfo } from "./LocalContainerInfo";
 
 export class ContainerGroupTreeItem extends LocalGroupTreeItemBase<LocalContainerInfo, ContainerProperty> {
     public static readonly contextValue: string = 'containerGroup';
-    public readonly contextValue: string = ContainerGroupTreeItem.contextValue;
+    public static readonly composeProjectContextValue: string = 'composeProjectContainerGroup';
     public childTypeLabel: string = 'container';
 
+    public get contextValue(): string {
+        return this.isComposeProject ? ContainerGroupTreeItem.composeProjectContextValue : ContainerGroupTreeItem.contextValue;
+    }
+
+    public get isComposeProject(): boolean {
+        return this.parent.groupBySetting === 'ComposeProjectName' && this.items.some(i => i.composeProjectName === this.group);
+    }
+
+    public get containers(): ContainerTreeItem[] {
+        return <ContainerTreeItem[]>this.ChildTreeItems;
+    }
+
+    public get composeWorkingDir(): string | undefined {
+        const item = this.items.find(i => !!i.composeWorkingDir);
+        return item && item.composeWorkingDir;
+    }
+
+    public get composeConfigFiles(): string[] {
+        const item = this.items.find(i => i.composeConfigFiles.length > 0);
+        return item ? item.composeConfigFiles : [];
+    }
+
     public get iconPath(): IconPath {
         let icon: string;
         switch (this.parent.groupBySetting) {
@@ -23,10 +46,20 @@ export class ContainerGroupTreeItem extends LocalGroupTreeItemBase<LocalContaine
             case 'Networks':
                 icon = 'network';
                 break;
+            case 'Command':
+            case 'ComposeProjectName':
+            case 'ComposeServiceName':
+            case 'CpuPercent':
+            case 'MemoryUsage':
             case 'Ports':
+            case 'RestartCount':
             case 'Status':
+            case 'Uptime':
                 icon = 'applicationGroup';
                 break;
+            case 'Health':
+                icon = this.group === 'unhealthy' ? 'statusWarning' : 'applicationGroup';
+                break;
             case 'State':
                 return getContainerStateIcon(this.group);
             default:
@@ -37,7 +70,7 @@ export class ContainerGroupTreeItem extends LocalGroupTreeItemBase<LocalContaine
     }
 
     public isAncestorOfImpl(expectedContextValue: string | RegExp): boolean {
-        return this.ChildTreeItems.some((container: AzExtTreeItem) => this.matchesValue(container, expectedContextValue));
+        return this.containers.some(container => this.matchesValue(container, expectedContextValue) || container.isAncestorOfImpl(expectedContextValue));
     }
 
     private matchesValue(container: AzExtTreeItem, expectedContextValue: (string | RegExp)): boolean {
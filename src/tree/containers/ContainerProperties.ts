@@ -4,19 +4,37 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { getThemedIconPath, IconPath } from "../IconPath";
-import { imageProperties, ImageProperty } from "../images/ImageProperties";
+import { commonImageProperties, CommonImageProperty } from "../images/ImageProperties";
 import { ITreePropertyInfo } from "../settings/ITreeSettingInfo";
 
-export type ContainerProperty = ImageProperty | 'ContainerId' | 'ContainerName' | 'Networks' | 'Ports' | 'State' | 'Status';
+export type ContainerStatsProperty = 'CpuPercent' | 'MemoryUsage';
+export type ContainerProperty = CommonImageProperty | ContainerStatsProperty | 'Command' | 'ComposeProjectName' | 'ComposeServiceName' | 'ContainerId' | 'ContainerName' | 'Health' | 'Labels' | 'Networks' | 'Ports' | 'RestartCount' | 'Size' | 'State' | 'Status' | 'Uptime';
+
+/**
+ * These require an extra call to the daemon for each running container, so they're only retrieved if they're shown in the explorer
+ */
+export const containerStatsProperties: ITreePropertyInfo<ContainerStatsProperty>[] = [
+    { property: 'CpuPercent', exampleValue: '0.25%' },
+    { property: 'MemoryUsage', exampleValue: '24.5MB' },
+];
 
 export const containerProperties: ITreePropertyInfo<ContainerProperty>[] = [
-    ...imageProperties,
+    ...commonImageProperties,
+    { property: 'Command', exampleValue: 'npm start' },
+    { property: 'ComposeProjectName', exampleValue: 'myapp' },
+    { property: 'ComposeServiceName', exampleValue: 'web' },
     { property: 'ContainerId', exampleValue: 'fdeab20e859d' },
     { property: 'ContainerName', exampleValue: 'amazing_hoover' },
+    ...containerStatsProperties,
+    { property: 'Health', exampleValue: 'healthy' },
+    { property: 'Labels', exampleValue: 'maintainer=me' },
     { property: 'Networks', exampleValue: 'mybridge_network' },
     { property: 'Ports', exampleValue: '8080' },
+    { property: 'RestartCount', exampleValue: '2' },
+    { property: 'Size', exampleValue: '2.5KB (virtual 133MB)' },
     { property: 'State', exampleValue: 'exited' },
-    { property: 'Status', exampleValue: 'Exited (0) 2 hours ago' }
+    { property: 'Status', exampleValue: 'Exited (0) 2 hours ago' },
+    { property: 'Uptime', exampleValue: '2 hours' }
 ];
 
 export function getContainerStateIcon(state: string): IconPath {
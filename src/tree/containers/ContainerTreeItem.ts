@@ -3,17 +3,25 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Container } from "dockerode";
+import { Container, ContainerInspectInfo } from "dockerode";
 import { AzExtParentTreeItem, AzExtTreeItem, IActionContext } from "vscode-azureextensionui";
 import { ext } from "../../extensionVariables";
 import { callDockerodeWithErrorHandling } from "../../utils/callDockerodeWithErrorHandling";
+import { getContainerDetails } from "../../utils/containerDetails";
 import { getThemedIconPath, IconPath } from '../IconPath';
+import { ContainerChangeGroupTreeItem } from "./changes/ContainerChangeGroupTreeItem";
+import { ContainerChangesTreeItem } from "./changes/ContainerChangesTreeItem";
 import { getContainerStateIcon } from "./ContainerProperties";
+import { ContainerDetailsCategoryTreeItem } from "./details/ContainerDetailsCategoryTreeItem";
+import { ContainerDetailTreeItem } from "./details/ContainerDetailTreeItem";
+import { ContainerFileTreeItem } from "./files/ContainerFileTreeItem";
+import { ContainerFolderTreeItem } from "./files/ContainerFolderTreeItem";
 import { LocalContainerInfo } from "./LocalContainerInfo";
 
-export class ContainerTreeItem extends AzExtTreeItem {
+export class ContainerTreeItem extends AzExtParentTreeItem {
     public static allContextRegExp: RegExp = /Container$/;
     public static runningContainerRegExp: RegExp = /^runningContainer$/i;
+    public childTypeLabel: string = 'folder';
     private readonly _item: LocalContainerInfo;
 
     public constructor(parent: AzExtParentTreeItem, itemInfo: LocalContainerInfo) {
@@ -41,6 +49,10 @@ export class ContainerTreeItem extends AzExtTreeItem {
         return this._item.fullTag;
     }
 
+    public get size(): number | undefined {
+        return this._item.size;
+    }
+
     public get label(): string {
         return ext.containersRoot.getTreeItemLabel(this._item);
     }
@@ -53,6 +65,10 @@ export class ContainerTreeItem extends AzExtTreeItem {
         return this._item.state + 'Container';
     }
 
+    public get isRunning(): boolean {
+        return this._item.state === 'running';
+    }
+
     /**
      * @deprecated This is only kept for backwards compatability with the "Remote Containers" extension
      * They add a context menu item "Attach Visual Studio Code" to our container nodes that relies on containerDesc
@@ -74,6 +90,42 @@ export class ContainerTreeItem extends AzExtTreeItem {
         return ext.dockerode.getContainer(this.containerId);
     }
 
+    public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        const container: Container = this.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        const info: ContainerInspectInfo = await callDockerodeWithErrorHandling(() => container.inspect(), context);
+        return [
+            new ContainerFolderTreeItem(this, this, '/', 'Files'),
+            new ContainerChangesTreeItem(this, this),
+            ...getContainerDetails(info).map(c => new ContainerDetailsCategoryTreeItem(this, c))
+        ];
+    }
+
+    public compareChildrenImpl(_ti1: AzExtTreeItem, _ti2: AzExtTreeItem): number {
+        return 0; // Keep "Files" and "Filesystem Changes" first, followed by the details in a fixed order
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public isAncestorOfImpl(expectedContextValue: string | RegExp): boolean {
+        // Only files, folders, filesystem changes and details are nested under containers
+        const nestedContextValues: string[] = [
+            ContainerFileTreeItem.contextValue,
+            ContainerFolderTreeItem.contextValue,
+            ContainerChangesTreeItem.contextValue,
+            ContainerChangeGroupTreeItem.contextValue,
+            ContainerChangeGroupTreeItem.deletedFileContextValue,
+            ContainerDetailsCategoryTreeItem.contextValue,
+            ContainerDetailTreeItem.portContextValue,
+            ContainerDetailTreeItem.volumeMountContextValue,
+            ContainerDetailTreeItem.detailContextValue
+        ];
+        return nestedContextValues.some(contextValue =>
+            contextValue === expectedContextValue || (expectedContextValue instanceof RegExp && expectedContextValue.test(contextValue)));
+    }
+
     public async deleteTreeItemImpl(context: IActionContext): Promise<void> {
         const container: Container = this.getContainer();
         // eslint-disable-next-line @typescript-eslint/promise-function-async
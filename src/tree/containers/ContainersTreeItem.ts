@@ -3,18 +3,26 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import { AzExtParentTreeItem, callWithTelemetryAndErrorHandling, IActionContext } from "vscode-azureextensionui";
 import { ext } from "../../extensionVariables";
-import { getImagePropertyValue } from "../images/ImageProperties";
+import { IContainerStatsEvent } from "../../utils/ContainerStatsManager";
+import { DockerEventType } from "../../utils/DockerEventsListener";
+import { formatBytes } from "../../utils/formatBytes";
+import { getImagePropertyValue, getLabelsPropertyValue } from "../images/ImageProperties";
 import { LocalChildGroupType, LocalChildType, LocalRootTreeItemBase } from "../LocalRootTreeItemBase";
-import { CommonGroupBy, groupByNoneProperty } from "../settings/CommonProperties";
+import { CommonGroupBy, CommonSortBy, groupByNoneProperty, sortByProperties, sortBySizeProperty } from "../settings/CommonProperties";
 import { ITreeArraySettingInfo, ITreeSettingInfo } from "../settings/ITreeSettingInfo";
 import { ContainerGroupTreeItem } from "./ContainerGroupTreeItem";
-import { containerProperties, ContainerProperty } from "./ContainerProperties";
+import { containerProperties, ContainerProperty, containerStatsProperties } from "./ContainerProperties";
 import { ContainerTreeItem } from "./ContainerTreeItem";
 import { LocalContainerInfo } from "./LocalContainerInfo";
 
+// Stats arrive every second per container, but the labels only need to be updated every few seconds
+const statsRefreshDelay: number = 5000;
+
 export class ContainersTreeItem extends LocalRootTreeItemBase<LocalContainerInfo, ContainerProperty> {
     public treePrefix: string = 'containers';
+    public dockerEventType: DockerEventType = 'container';
     public label: string = 'Containers';
     public configureExplorerTitle: string = 'Configure containers explorer';
 
@@ -32,14 +40,29 @@ export class ContainersTreeItem extends LocalRootTreeItemBase<LocalContainerInfo
     };
 
     public groupBySettingInfo: ITreeSettingInfo<ContainerProperty | CommonGroupBy> = {
-        properties: [...containerProperties, groupByNoneProperty],
+        // Stats change constantly, so they don't make sense for grouping
+        properties: [...containerProperties.filter(p => !containerStatsProperties.some(sp => sp.property === p.property)), groupByNoneProperty],
         defaultProperty: 'None',
     };
 
+    public sortBySettingInfo: ITreeSettingInfo<CommonSortBy> = {
+        properties: [...sortByProperties, sortBySizeProperty],
+        defaultProperty: 'CreatedTime',
+    };
+
     public get childTypeLabel(): string {
         return this.groupBySetting === 'None' ? 'container' : 'container group';
     }
 
+    private _isVisible: boolean = true;
+    private _statsContainerIds: string[] = [];
+    private _statsRefreshTimeoutId: NodeJS.Timer | undefined;
+
+    public constructor(parent: AzExtParentTreeItem | undefined) {
+        super(parent);
+        ext.context.subscriptions.push(ext.containerStats.onDidReceiveSample(e => this.onDidReceiveSample(e)));
+    }
+
     public async getItems(): Promise<LocalContainerInfo[]> {
         const options = {
             "filters": {
@@ -47,20 +70,60 @@ export class ContainersTreeItem extends LocalRootTreeItemBase<LocalContainerInfo
             }
         };
 
-        const items = await ext.dockerode.listContainers(options) || [];
-        return items.map(c => new LocalContainerInfo(c));
+        // Calculating the size is expensive for the daemon, so only ask for it if it's shown
+        const includeSize = this.isAnyPropertyUsed(['Size']);
+        const items = await ext.dockerode.listContainers({ ...options, size: includeSize }) || [];
+        const result = items.map(c => new LocalContainerInfo(c));
+
+        if (this.isAnyPropertyUsed(['RestartCount'])) {
+            await Promise.all(result.map(async c => {
+                try {
+                    const inspectInfo = await ext.dockerode.getContainer(c.containerId).inspect();
+                    c.restartCount = inspectInfo.RestartCount;
+                } catch {
+                    // Ignore--the property will just show as "<none>"
+                }
+            }));
+        }
+
+        // Stats are sampled in the background, so that refreshing doesn't have to wait for them and they don't go stale between refreshes
+        ext.containerStats.pruneHistory(result.map(c => c.containerId));
+        this._statsContainerIds = this.isAnyPropertyUsed(containerStatsProperties.map(p => p.property)) ?
+            result.filter(c => c.state === 'running').map(c => c.containerId) :
+            [];
+        if (this._isVisible) {
+            ext.containerStats.watch(this._statsContainerIds);
+        }
+
+        return result;
     }
 
     public getPropertyValue(item: LocalContainerInfo, property: ContainerProperty): string {
         switch (property) {
+            case 'ComposeProjectName':
+                return item.composeProjectName || '<none>';
+            case 'ComposeServiceName':
+                return item.composeServiceName || '<none>';
             case 'ContainerId':
                 return item.containerId.slice(0, 12);
             case 'ContainerName':
                 return item.containerName;
+            case 'CpuPercent':
+            case 'MemoryUsage':
+                return this.getStatsPropertyValue(item, property);
+            case 'Command':
+            case 'Health':
+            case 'RestartCount':
+            case 'Uptime':
+                return this.getRuntimePropertyValue(item, property);
+            case 'Labels':
+                return getLabelsPropertyValue(item.data.Labels);
             case 'Networks':
-                return item.networks.length > 0 ? item.networks.join(',') : '<none>';
+                return joinOrNone(item.networks);
             case 'Ports':
-                return item.ports.length > 0 ? item.ports.join(',') : '<none>';
+                return joinOrNone(item.ports);
+            case 'Size':
+                return this.getSizePropertyValue(item);
             case 'State':
                 return item.state;
             case 'Status':
@@ -69,4 +132,82 @@ export class ContainersTreeItem extends LocalRootTreeItemBase<LocalContainerInfo
                 return getImagePropertyValue(item, property);
         }
     }
+
+    protected onDidChangeVisibility(visible: boolean): void {
+        this._isVisible = visible;
+        ext.containerStats.watch(visible ? this._statsContainerIds : []);
+    }
+
+    private onDidReceiveSample(e: IContainerStatsEvent): void {
+        if (this._isVisible && this._statsRefreshTimeoutId === undefined && this._statsContainerIds.includes(e.containerId)) {
+            this._statsRefreshTimeoutId = setTimeout(
+                async () => {
+                    this._statsRefreshTimeoutId = undefined;
+                    await this.refreshStatsLabels();
+                },
+                statsRefreshDelay);
+        }
+    }
+
+    /**
+     * Updates the labels of the running containers without listing the containers again
+     */
+    private async refreshStatsLabels(): Promise<void> {
+        await callWithTelemetryAndErrorHandling('containers.refreshStats', async (context: IActionContext) => {
+            context.telemetry.suppressIfSuccessful = true;
+            context.errorHandling.suppressDisplay = true;
+
+            const refreshChildren = async (parent: AzExtParentTreeItem) => {
+                for (const child of await parent.getCachedChildren(context)) {
+                    if (child instanceof ContainerTreeItem && child.isRunning) {
+                        await child.refresh();
+                    } else if (child instanceof AzExtParentTreeItem) {
+                        await refreshChildren(child);
+                    }
+                }
+            };
+
+            await refreshChildren(this);
+        });
+    }
+
+    private getRuntimePropertyValue(item: LocalContainerInfo, property: 'Command' | 'Health' | 'RestartCount' | 'Uptime'): string {
+        let value: string | undefined;
+        if (property === 'Command') {
+            value = item.command;
+        } else if (property === 'Health') {
+            value = item.health;
+        } else if (property === 'RestartCount') {
+            value = item.restartCount !== undefined ? item.restartCount.toString() : undefined;
+        } else {
+            value = item.uptime;
+        }
+
+        return value || '<none>';
+    }
+
+    private getSizePropertyValue(item: LocalContainerInfo): string {
+        if (item.size === undefined) {
+            return '<none>';
+        }
+
+        // Same format as `docker ps --size`
+        return item.virtualSize !== undefined ? `${formatBytes(item.size)} (virtual ${formatBytes(item.virtualSize)})` : formatBytes(item.size);
+    }
+
+    private getStatsPropertyValue(item: LocalContainerInfo, property: 'CpuPercent' | 'MemoryUsage'): string {
+        // Samples from before the container stopped would be misleading
+        const sample = item.state === 'running' ? ext.containerStats.getLatestSample(item.containerId) : undefined;
+        if (!sample) {
+            return '<none>';
+        } else if (property === 'CpuPercent') {
+            return `${sample.cpuPercent.toFixed(2)}%`;
+        } else {
+            return formatBytes(sample.memoryUsage);
+        }
+    }
+}
+
+function joinOrNone(values: (string | number)[]): string {
+    return values.length > 0 ? values.join(',') : '<none>';
 }
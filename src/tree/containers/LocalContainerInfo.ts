@@ -6,12 +6,24 @@
 import { ContainerInfo } from "dockerode";
 import { ILocalImageInfo } from "../images/LocalImageInfo";
 
+// Labels that Docker Compose adds to every container it creates
+const composeProjectLabel: string = 'com.docker.compose.project';
+const composeServiceLabel: string = 'com.docker.compose.service';
+const composeWorkingDirLabel: string = 'com.docker.compose.project.working_dir';
+const composeConfigFilesLabel: string = 'com.docker.compose.project.config_files';
+
 /**
  * Wrapper class for Dockerode item, which has inconsistent names/types
  */
 export class LocalContainerInfo implements ILocalImageInfo {
     private _containerName: string;
-    public data: ContainerInfo;
+    public data: ContainerInfo & { SizeRw?: number; SizeRootFs?: number };
+
+    /**
+     * Only set if used by the explorer, since it requires inspecting the container
+     */
+    public restartCount: number | undefined;
+
     public constructor(data: ContainerInfo) {
         this.data = data;
     }
@@ -41,6 +53,24 @@ export class LocalContainerInfo implements ILocalImageInfo {
         return this.data.Image;
     }
 
+    public get command(): string {
+        return this.data.Command;
+    }
+
+    /**
+     * Only set if the size was requested when listing containers
+     */
+    public get size(): number | undefined {
+        return this.data.SizeRw;
+    }
+
+    /**
+     * Only set if the size was requested when listing containers
+     */
+    public get virtualSize(): number | undefined {
+        return this.data.SizeRootFs;
+    }
+
     public get imageId(): string {
         return this.data.ImageID;
     }
@@ -53,6 +83,33 @@ export class LocalContainerInfo implements ILocalImageInfo {
         return this.data.Ports.map(p => p.PublicPort);
     }
 
+    public get labels(): { [key: string]: string } {
+        return this.data.Labels || {};
+    }
+
+    public get composeProjectName(): string | undefined {
+        return this.labels[composeProjectLabel];
+    }
+
+    public get composeServiceName(): string | undefined {
+        return this.labels[composeServiceLabel];
+    }
+
+    /**
+     * Only set by newer versions of Docker Compose
+     */
+    public get composeWorkingDir(): string | undefined {
+        return this.labels[composeWorkingDirLabel];
+    }
+
+    /**
+     * Only set by newer versions of Docker Compose
+     */
+    public get composeConfigFiles(): string[] {
+        const configFiles = this.labels[composeConfigFilesLabel];
+        return configFiles ? configFiles.split(',') : [];
+    }
+
     public get state(): string {
         return this.data.State;
     }
@@ -61,6 +118,22 @@ export class LocalContainerInfo implements ILocalImageInfo {
         return this.data.Status;
     }
 
+    /**
+     * Parsed from the status, e.g. "Up 2 hours (healthy)"
+     */
+    public get health(): string | undefined {
+        const match = /\((healthy|unhealthy|health: starting)\)/i.exec(this.status);
+        return match ? match[1].replace(/^health: /, '') : undefined;
+    }
+
+    /**
+     * Parsed from the status, e.g. "Up 2 hours (Paused)"
+     */
+    public get uptime(): string | undefined {
+        const match = /^Up (.+?)(?: \(.*\))?$/.exec(this.status);
+        return match ? match[1] : undefined;
+    }
+
     public get treeId(): string {
         // include state in treeId so that auto-refresh will detect and show a new icon when state changes
         return this.containerId + this.state;
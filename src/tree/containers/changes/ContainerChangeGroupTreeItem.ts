@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem, GenericTreeItem, IActionContext } from "vscode-azureextensionui";
+import { ContainerChangeKind } from "../../../utils/containerChanges";
+import { ContainerFileType, getContainerPathType } from "../../../utils/containerFileSystem";
+import { getThemedIconPath, IconPath } from "../../IconPath";
+import { ContainerTreeItem } from "../ContainerTreeItem";
+import { ContainerFileTreeItem } from "../files/ContainerFileTreeItem";
+import { ContainerFolderTreeItem } from "../files/ContainerFolderTreeItem";
+
+const kindLabels: { [kind in ContainerChangeKind]: string } = {
+    added: 'Added',
+    changed: 'Changed',
+    deleted: 'Deleted',
+};
+
+const maxConcurrentLookups: number = 10;
+
+export class ContainerChangeGroupTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'containerChangeGroup';
+    public static deletedFileContextValue: string = 'containerDeletedFile';
+    public contextValue: string = ContainerChangeGroupTreeItem.contextValue;
+    public childTypeLabel: string = 'file';
+    public readonly kind: ContainerChangeKind;
+    private readonly _containerItem: ContainerTreeItem;
+    private readonly _paths: string[];
+
+    public constructor(parent: AzExtParentTreeItem, containerItem: ContainerTreeItem, kind: ContainerChangeKind, paths: string[]) {
+        super(parent);
+        this._containerItem = containerItem;
+        this.kind = kind;
+        this._paths = paths;
+    }
+
+    public get id(): string {
+        return this.kind;
+    }
+
+    public get label(): string {
+        return kindLabels[this.kind];
+    }
+
+    public get description(): string {
+        return String(this._paths.length);
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath('folder');
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, _context: IActionContext): Promise<AzExtTreeItem[]> {
+        if (this.kind === 'deleted') {
+            return this._paths.map(p => new GenericTreeItem(this, {
+                id: p,
+                label: p,
+                contextValue: ContainerChangeGroupTreeItem.deletedFileContextValue,
+                iconPath: getThemedIconPath('file')
+            }));
+        }
+
+        // The changes don't say which paths are folders (e.g. an empty folder that was added), so look them up a few at a time
+        const types: ContainerFileType[] = [];
+        for (let index = 0; index < this._paths.length; index += maxConcurrentLookups) {
+            types.push(...await Promise.all(this._paths.slice(index, index + maxConcurrentLookups).map(async p => this.getPathType(p))));
+        }
+
+        // The full path is used as the label, since the files of all folders are listed together
+        return this._paths.map((p, index) => types[index] === 'directory' ?
+            new ContainerFolderTreeItem(this, this._containerItem, p, p) :
+            new ContainerFileTreeItem(this, this._containerItem, { name: p, path: p, type: types[index] }));
+    }
+
+    private async getPathType(containerPath: string): Promise<ContainerFileType> {
+        try {
+            return await getContainerPathType(this._containerItem.getContainer(), containerPath);
+        } catch {
+            // e.g. it was deleted since the changes were listed
+            return 'file';
+        }
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+}
@@ -0,0 +1,62 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from "dockerode";
+import { AzExtParentTreeItem, AzExtTreeItem, GenericTreeItem, IActionContext } from "vscode-azureextensionui";
+import { callDockerodeWithErrorHandling } from "../../../utils/callDockerodeWithErrorHandling";
+import { ContainerChangeKind, groupContainerChanges, IContainerChange, IContainerChanges } from "../../../utils/containerChanges";
+import { getThemedIconPath, IconPath } from "../../IconPath";
+import { ContainerTreeItem } from "../ContainerTreeItem";
+import { ContainerChangeGroupTreeItem } from "./ContainerChangeGroupTreeItem";
+
+const kinds: ContainerChangeKind[] = ['added', 'changed', 'deleted'];
+
+/**
+ * The changes to a container's filesystem compared to its image, the same as `docker diff`
+ */
+export class ContainerChangesTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'containerChanges';
+    public contextValue: string = ContainerChangesTreeItem.contextValue;
+    public label: string = 'Filesystem Changes';
+    public childTypeLabel: string = 'change';
+    public readonly containerItem: ContainerTreeItem;
+
+    public constructor(parent: AzExtParentTreeItem, containerItem: ContainerTreeItem) {
+        super(parent);
+        this.containerItem = containerItem;
+    }
+
+    public get id(): string {
+        return 'changes';
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath('layers');
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        const container: Container = this.containerItem.getContainer();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        const changes: IContainerChange[] | null = await callDockerodeWithErrorHandling<IContainerChange[] | null>(() => container.changes(), context);
+        const grouped: IContainerChanges = groupContainerChanges(changes);
+
+        const groups: AzExtTreeItem[] = kinds
+            .filter(kind => grouped[kind].length > 0)
+            .map(kind => new ContainerChangeGroupTreeItem(this, this.containerItem, kind, grouped[kind]));
+
+        return groups.length > 0 ? groups : [new GenericTreeItem(this, {
+            label: 'No changes',
+            contextValue: 'containerNoChanges'
+        })];
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public compareChildrenImpl(_ti1: AzExtTreeItem, _ti2: AzExtTreeItem): number {
+        return 0; // Keep the groups in a fixed order
+    }
+}
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem } from "vscode-azureextensionui";
+import { IContainerDetail } from "../../../utils/containerDetails";
+
+export class ContainerDetailTreeItem extends AzExtTreeItem {
+    public static allContextRegExp: RegExp = /^container\w*Detail$/;
+    public static detailContextValue: string = 'containerDetail';
+    public static portContextValue: string = 'containerPortDetail';
+    public static volumeMountContextValue: string = 'containerVolumeMountDetail';
+    public readonly detail: IContainerDetail;
+    private readonly _index: number;
+
+    public constructor(parent: AzExtParentTreeItem, detail: IContainerDetail, index: number) {
+        super(parent);
+        this.detail = detail;
+        this._index = index;
+        if (detail.volumeName) {
+            // Clicking a mount of a named volume navigates to the volume
+            this.commandId = 'vscode-docker.containers.details.revealVolume';
+        }
+    }
+
+    public get id(): string {
+        // Labels aren't necessarily unique (e.g. a port published on several host addresses)
+        return `${this._index}/${this.detail.label}`;
+    }
+
+    public get label(): string {
+        return this.detail.label;
+    }
+
+    public get description(): string | undefined {
+        return this.detail.description;
+    }
+
+    public get contextValue(): string {
+        if (this.detail.port && this.detail.port.protocol === 'tcp') {
+            return ContainerDetailTreeItem.portContextValue;
+        } else if (this.detail.volumeName) {
+            return ContainerDetailTreeItem.volumeMountContextValue;
+        } else {
+            return ContainerDetailTreeItem.detailContextValue;
+        }
+    }
+}
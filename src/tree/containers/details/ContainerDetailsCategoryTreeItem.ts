@@ -0,0 +1,60 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem, IActionContext } from "vscode-azureextensionui";
+import { ContainerDetailsCategoryType, IContainerDetailsCategory } from "../../../utils/containerDetails";
+import { getThemedIconPath, IconPath } from "../../IconPath";
+import { ContainerDetailTreeItem } from "./ContainerDetailTreeItem";
+
+const categoryIcons: { [type in ContainerDetailsCategoryType]: string } = {
+    environment: 'settings',
+    mounts: 'volume',
+    ports: 'web',
+    labels: 'tag',
+    networks: 'network',
+};
+
+export class ContainerDetailsCategoryTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'containerDetailsCategory';
+    public contextValue: string = ContainerDetailsCategoryTreeItem.contextValue;
+    public readonly category: IContainerDetailsCategory;
+
+    public constructor(parent: AzExtParentTreeItem, category: IContainerDetailsCategory) {
+        super(parent);
+        this.category = category;
+    }
+
+    public get id(): string {
+        return this.category.type;
+    }
+
+    public get label(): string {
+        return this.category.label;
+    }
+
+    public get description(): string {
+        return String(this.category.details.length);
+    }
+
+    public get childTypeLabel(): string {
+        return this.category.label.toLowerCase();
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath(categoryIcons[this.category.type]);
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, _context: IActionContext): Promise<AzExtTreeItem[]> {
+        return this.category.details.map((d, index) => new ContainerDetailTreeItem(this, d, index));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public compareChildrenImpl(_ti1: AzExtTreeItem, _ti2: AzExtTreeItem): number {
+        return 0; // Keep the order from `container.inspect()`
+    }
+}
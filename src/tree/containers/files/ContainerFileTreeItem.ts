@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from "dockerode";
+import { AzExtParentTreeItem, AzExtTreeItem } from "vscode-azureextensionui";
+import { IContainerFileInfo } from "../../../utils/containerFileSystem";
+import { getThemedIconPath, IconPath } from "../../IconPath";
+import { ContainerTreeItem } from "../ContainerTreeItem";
+
+export class ContainerFileTreeItem extends AzExtTreeItem {
+    public static contextValue: string = 'containerFile';
+    public contextValue: string = ContainerFileTreeItem.contextValue;
+    public commandId: string = 'vscode-docker.containers.files.open';
+    public readonly containerItem: ContainerTreeItem;
+    private readonly _file: IContainerFileInfo;
+
+    public constructor(parent: AzExtParentTreeItem, containerItem: ContainerTreeItem, file: IContainerFileInfo) {
+        super(parent);
+        this.containerItem = containerItem;
+        this._file = file;
+    }
+
+    public get id(): string {
+        return this._file.path;
+    }
+
+    public get label(): string {
+        return this._file.name;
+    }
+
+    public get description(): string | undefined {
+        return this._file.type === 'symlink' ? 'symlink' : undefined;
+    }
+
+    public get path(): string {
+        return this._file.path;
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath('file');
+    }
+
+    public getContainer(): Container {
+        return this.containerItem.getContainer();
+    }
+}
@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from "dockerode";
+import { AzExtParentTreeItem, AzExtTreeItem, IActionContext } from "vscode-azureextensionui";
+import { callDockerodeWithErrorHandling } from "../../../utils/callDockerodeWithErrorHandling";
+import { IContainerFileInfo, listContainerDirectory } from "../../../utils/containerFileSystem";
+import { getThemedIconPath, IconPath } from "../../IconPath";
+import { ContainerTreeItem } from "../ContainerTreeItem";
+import { ContainerFileTreeItem } from "./ContainerFileTreeItem";
+
+export class ContainerFolderTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'containerFolder';
+    public contextValue: string = ContainerFolderTreeItem.contextValue;
+    public childTypeLabel: string = 'file';
+    public readonly containerItem: ContainerTreeItem;
+    public readonly path: string;
+    private readonly _label: string | undefined;
+
+    /**
+     * @param label Only needed for the root folder and changed folders (which show their full path), otherwise the name is taken from the path
+     */
+    public constructor(parent: AzExtParentTreeItem, containerItem: ContainerTreeItem, folderPath: string, label?: string) {
+        super(parent);
+        this.containerItem = containerItem;
+        this.path = folderPath;
+        this._label = label;
+    }
+
+    public get id(): string {
+        return this.path;
+    }
+
+    public get label(): string {
+        return this._label || this.path.slice(this.path.lastIndexOf('/') + 1);
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath('folder');
+    }
+
+    public getContainer(): Container {
+        return this.containerItem.getContainer();
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        const files: IContainerFileInfo[] = await callDockerodeWithErrorHandling(
+            async () => listContainerDirectory(this.getContainer(), this.path, this.containerItem.isRunning),
+            context
+        );
+
+        return files.map(f => f.type === 'directory' ?
+            new ContainerFolderTreeItem(this, this.containerItem, f.path) :
+            new ContainerFileTreeItem(this, this.containerItem, f));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public compareChildrenImpl(): number {
+        return 0; // already sorted with folders first
+    }
+}
@@ -0,0 +1,44 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem } from "vscode-azureextensionui";
+import { IDockerContextListItem } from "../../utils/dockerContexts";
+import { getThemedIconPath, IconPath } from "../IconPath";
+
+export class ContextTreeItem extends AzExtTreeItem {
+    public static allContextRegExp: RegExp = /Context$/;
+    public static inactiveContextValue: string = 'dockerContext';
+    public readonly dockerContext: IDockerContextListItem;
+
+    public constructor(parent: AzExtParentTreeItem, dockerContext: IDockerContextListItem) {
+        super(parent);
+        this.dockerContext = dockerContext;
+    }
+
+    public get id(): string {
+        return this.name;
+    }
+
+    public get name(): string {
+        return this.dockerContext.Name;
+    }
+
+    public get contextValue(): string {
+        return this.dockerContext.Current ? 'currentDockerContext' : ContextTreeItem.inactiveContextValue;
+    }
+
+    public get label(): string {
+        return this.name;
+    }
+
+    public get description(): string {
+        const description: string = this.dockerContext.Description || this.dockerContext.DockerEndpoint;
+        return this.dockerContext.Current ? `${description} (current)` : description;
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath(this.dockerContext.Current ? 'statusOk' : 'connect');
+    }
+}
@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem, GenericTreeItem, IActionContext, parseError } from "vscode-azureextensionui";
+import { getSelectedDockerContext, IDockerContextListItem, listDockerContexts } from "../../utils/dockerContexts";
+import { getThemedIconPath } from "../IconPath";
+import { ContextTreeItem } from "./ContextTreeItem";
+
+export class ContextsTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'dockerContexts';
+    public contextValue: string = ContextsTreeItem.contextValue;
+    public label: string = 'Contexts';
+    public childTypeLabel: string = 'context';
+
+    public constructor() {
+        super(undefined);
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        let contexts: IDockerContextListItem[];
+        try {
+            contexts = await listDockerContexts();
+        } catch (error) {
+            // Contexts are a feature of the Docker CLI, so there's nothing to show if it's missing or too old
+            context.telemetry.properties.failedToList = 'true';
+            return [new GenericTreeItem(this, {
+                label: 'Failed to list contexts. Contexts require Docker CLI 19.03 or later.',
+                description: parseError(error).message,
+                iconPath: getThemedIconPath('statusWarning'),
+                contextValue: 'dockerContextsError'
+            })];
+        }
+
+        const result: AzExtTreeItem[] = contexts.map(c => new ContextTreeItem(this, c));
+        const selectedName: string | undefined = getSelectedDockerContext();
+        if (selectedName && !contexts.some(c => c.Name === selectedName)) {
+            // e.g. the context was removed outside of VS Code. Using one of the others replaces the setting.
+            context.telemetry.properties.selectedContextMissing = 'true';
+            result.unshift(new GenericTreeItem(this, {
+                label: `Context "${selectedName}" doesn't exist. Use another context to replace it.`,
+                iconPath: getThemedIconPath('statusWarning'),
+                contextValue: 'dockerContextsError'
+            }));
+        }
+
+        return result;
+    }
+
+    public compareChildrenImpl(ti1: AzExtTreeItem, ti2: AzExtTreeItem): number {
+        // Keep warnings above the contexts
+        if ((ti1 instanceof ContextTreeItem) !== (ti2 instanceof ContextTreeItem)) {
+            return ti1 instanceof ContextTreeItem ? 1 : -1;
+        }
+
+        return super.compareChildrenImpl(ti1, ti2);
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+}
@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem, GenericTreeItem, IActionContext } from "vscode-azureextensionui";
+import { IDiskUsageCategory } from "../../utils/diskUsage";
+import { formatBytes } from "../../utils/formatBytes";
+import { getThemedIconPath, IconPath } from "../IconPath";
+import { DiskUsageItemTreeItem, getCategoryIcon } from "./DiskUsageItemTreeItem";
+
+const maxLargestItems: number = 10;
+
+export class DiskUsageCategoryTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'diskUsageCategory';
+    public contextValue: string = DiskUsageCategoryTreeItem.contextValue;
+    public childTypeLabel: string = 'item';
+    public readonly category: IDiskUsageCategory;
+
+    public constructor(parent: AzExtParentTreeItem, category: IDiskUsageCategory) {
+        super(parent);
+        this.category = category;
+    }
+
+    public get id(): string {
+        return this.category.type;
+    }
+
+    public get label(): string {
+        return this.category.label;
+    }
+
+    public get description(): string {
+        return `${formatBytes(this.category.totalSize)} (${formatBytes(this.category.reclaimableSize)} reclaimable)`;
+    }
+
+    public get iconPath(): IconPath {
+        return getCategoryIcon(this.category.type);
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, _context: IActionContext): Promise<AzExtTreeItem[]> {
+        const { totalCount, activeCount, totalSize, reclaimableSize } = this.category;
+        const reclaimablePercent: number = totalSize > 0 ? Math.round(reclaimableSize / totalSize * 100) : 0;
+        const summary: [string, string][] = [
+            ['Total', `${formatBytes(totalSize)} (${totalCount})`],
+            ['Active', String(activeCount)],
+            ['Reclaimable', `${formatBytes(reclaimableSize)} (${reclaimablePercent}%)`],
+        ];
+
+        const children: AzExtTreeItem[] = summary.map(([label, description]) => new GenericTreeItem(this, {
+            label,
+            description,
+            contextValue: 'diskUsageSummary',
+            iconPath: getThemedIconPath('info')
+        }));
+
+        return children.concat(this.category.items.slice(0, maxLargestItems).map(i => new DiskUsageItemTreeItem(this, i)));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public compareChildrenImpl(_ti1: AzExtTreeItem, _ti2: AzExtTreeItem): number {
+        return 0; // Summary first, then the largest items
+    }
+}
@@ -0,0 +1,59 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem } from "vscode-azureextensionui";
+import { DiskUsageCategoryType, IDiskUsageItem } from "../../utils/diskUsage";
+import { formatBytes } from "../../utils/formatBytes";
+import { getThemedIconPath, IconPath } from "../IconPath";
+
+/**
+ * One of the largest items in a category. Selecting it reveals the corresponding node in its explorer (except for build cache records, which don't have one).
+ */
+export class DiskUsageItemTreeItem extends AzExtTreeItem {
+    public static revealableContextValueRegExp: RegExp = /^diskUsage(Image|Container|Volume)$/;
+    public readonly item: IDiskUsageItem;
+
+    public constructor(parent: AzExtParentTreeItem, item: IDiskUsageItem) {
+        super(parent);
+        this.item = item;
+        if (DiskUsageItemTreeItem.revealableContextValueRegExp.test(this.contextValue)) {
+            this.commandId = 'vscode-docker.diskUsage.reveal';
+        }
+    }
+
+    public get id(): string {
+        return this.item.id;
+    }
+
+    public get contextValue(): string {
+        return 'diskUsage' + this.item.type.charAt(0).toUpperCase() + this.item.type.slice(1);
+    }
+
+    public get label(): string {
+        return this.item.name;
+    }
+
+    public get description(): string {
+        return this.item.active ? `${formatBytes(this.item.size)} (in use)` : formatBytes(this.item.size);
+    }
+
+    public get iconPath(): IconPath {
+        return getCategoryIcon(this.item.type);
+    }
+}
+
+export function getCategoryIcon(type: DiskUsageCategoryType): IconPath {
+    switch (type) {
+        case 'image':
+            return getThemedIconPath('layers');
+        case 'container':
+            return getThemedIconPath('application');
+        case 'volume':
+            return getThemedIconPath('volume');
+        case 'buildCache':
+        default:
+            return getThemedIconPath('tasks');
+    }
+}
@@ -0,0 +1,39 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem, IActionContext } from "vscode-azureextensionui";
+import { ext } from "../../extensionVariables";
+import { callDockerodeWithErrorHandling } from "../../utils/callDockerodeWithErrorHandling";
+import { IDiskUsage, IDiskUsageCategory, summarizeDiskUsage } from "../../utils/diskUsage";
+import { DiskUsageCategoryTreeItem } from "./DiskUsageCategoryTreeItem";
+
+/**
+ * The root of the disk usage view. Calculating disk usage is expensive for the daemon, so unlike the other local trees this only refreshes on demand.
+ */
+export class DiskUsageTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'diskUsage';
+    public contextValue: string = DiskUsageTreeItem.contextValue;
+    public label: string = 'Disk Usage';
+    public childTypeLabel: string = 'category';
+
+    public constructor() {
+        super(undefined);
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        const diskUsage: IDiskUsage = await callDockerodeWithErrorHandling<IDiskUsage>(() => ext.dockerode.df(), context);
+        const categories: IDiskUsageCategory[] = summarizeDiskUsage(diskUsage);
+        return categories.map(c => new DiskUsageCategoryTreeItem(this, c));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public compareChildrenImpl(_ti1: AzExtTreeItem, _ti2: AzExtTreeItem): number {
+        return 0; // Keep the same order as "docker system df"
+    }
+}
@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as moment from 'moment';
+import { AzExtParentTreeItem, AzExtTreeItem } from "vscode-azureextensionui";
+import { formatBytes } from '../../utils/formatBytes';
+import { getThemedIconPath, IconPath } from '../IconPath';
+
+// Not exhaustive--only the properties we're interested in
+export interface IImageHistoryItem {
+    Id: string;
+    Created: number;
+    CreatedBy: string;
+    Size: number;
+}
+
+export class ImageLayerTreeItem extends AzExtTreeItem {
+    public static contextValue: string = 'imageLayer';
+    public contextValue: string = ImageLayerTreeItem.contextValue;
+    private readonly _layer: IImageHistoryItem;
+    private readonly _index: number;
+    private readonly _isLarge: boolean;
+
+    /**
+     * @param isLarge Whether this layer should be highlighted as one of the biggest in the image
+     */
+    public constructor(parent: AzExtParentTreeItem, layer: IImageHistoryItem, index: number, isLarge: boolean) {
+        super(parent);
+        this._layer = layer;
+        this._index = index;
+        this._isLarge = isLarge;
+    }
+
+    public get id(): string {
+        return this._index.toString();
+    }
+
+    public get label(): string {
+        return getLayerInstruction(this._layer.CreatedBy);
+    }
+
+    public get description(): string {
+        return `${formatBytes(this._layer.Size)} - ${moment(new Date(this._layer.Created * 1000)).fromNow()}`;
+    }
+
+    public get size(): number {
+        return this._layer.Size;
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath(this._isLarge ? 'statusWarning' : 'layers');
+    }
+}
+
+/**
+ * Converts the command recorded in an image's history into (roughly) the Dockerfile instruction that created it
+ * For example, "/bin/sh -c #(nop)  CMD ["node"]" becomes "CMD ["node"]" and "/bin/sh -c npm install" becomes "RUN npm install"
+ */
+export function getLayerInstruction(createdBy: string | undefined): string {
+    let instruction = (createdBy || '').trim();
+    if (!instruction) {
+        return '<missing>';
+    }
+
+    // BuildKit records the instruction itself (e.g. "RUN /bin/sh -c npm install # buildkit")
+    instruction = instruction.replace(/\s+# buildkit$/, '');
+    const isBuildKitRun = /^RUN\s/.test(instruction);
+    if (isBuildKitRun) {
+        instruction = instruction.replace(/^RUN\s+/, '');
+    }
+
+    // Build args are recorded as a prefix, e.g. "|2 NODE_ENV=production PORT=80 /bin/sh -c npm install"
+    const buildArgsMatch = /^\|(\d+) /.exec(instruction);
+    if (buildArgsMatch) {
+        const argCount = parseInt(buildArgsMatch[1], 10);
+        instruction = instruction.slice(buildArgsMatch[0].length).split(' ').slice(argCount).join(' ');
+    }
+
+    const shellMatch = /^(\/bin\/sh -c|cmd \/S \/C|powershell -Command)\s+/i.exec(instruction);
+    if (shellMatch) {
+        instruction = instruction.slice(shellMatch[0].length);
+        const nopMatch = /^#\(nop\)\s*/.exec(instruction);
+        instruction = nopMatch ? instruction.slice(nopMatch[0].length) : `RUN ${instruction}`;
+    } else if (isBuildKitRun) {
+        instruction = `RUN ${instruction}`;
+    }
+
+    return instruction.trim();
+}
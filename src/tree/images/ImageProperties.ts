@@ -11,9 +11,13 @@ import { CommonGroupBy, commonProperties, CommonProperty, getCommonGroupIcon, ge
 import { ITreePropertyInfo } from '../settings/ITreeSettingInfo';
 import { ILocalImageInfo } from "./LocalImageInfo";
 
-export type ImageProperty = CommonProperty | 'FullTag' | 'ImageId' | 'Registry' | 'Repository' | 'RepositoryName' | 'RepositoryNameAndTag' | 'Tag';
+/**
+ * Properties that describe an image, which containers share with the image they were created from
+ */
+export type CommonImageProperty = CommonProperty | 'FullTag' | 'ImageId' | 'Registry' | 'Repository' | 'RepositoryName' | 'RepositoryNameAndTag' | 'Tag';
+export type ImageProperty = CommonImageProperty | 'Architecture' | 'Labels' | 'OS' | 'Size' | 'VirtualSize';
 
-export const imageProperties: ITreePropertyInfo<ImageProperty>[] = [
+export const commonImageProperties: ITreePropertyInfo<CommonImageProperty>[] = [
     ...commonProperties,
     { property: 'FullTag', exampleValue: 'example.azurecr.io/hello-world:latest' },
     { property: 'ImageId', exampleValue: 'd9d09edd6115' },
@@ -24,9 +28,36 @@ export const imageProperties: ITreePropertyInfo<ImageProperty>[] = [
     { property: 'Tag', exampleValue: 'latest' },
 ];
 
+/**
+ * These require inspecting each image, so they're only retrieved if they're used by the explorer
+ */
+export const imagePlatformProperties: ITreePropertyInfo<ImageProperty>[] = [
+    { property: 'Architecture', exampleValue: 'amd64' },
+    { property: 'OS', exampleValue: 'linux' },
+];
+
+export const imageProperties: ITreePropertyInfo<ImageProperty>[] = [
+    ...commonImageProperties,
+    ...imagePlatformProperties,
+    { property: 'Labels', exampleValue: 'maintainer=someone@example.com' },
+    { property: 'Size', exampleValue: '133MB' },
+    { property: 'VirtualSize', exampleValue: '133MB' },
+];
+
 export function getImageGroupIcon(property: ImageProperty | CommonGroupBy): IconPath {
     let icon: string;
     switch (property) {
+        case 'Architecture':
+        case 'OS':
+            icon = 'docker';
+            break;
+        case 'Labels':
+            icon = 'tag';
+            break;
+        case 'Size':
+        case 'VirtualSize':
+            icon = 'applicationGroup';
+            break;
         case 'Registry':
             icon = 'registry';
             break;
@@ -49,7 +80,7 @@ export function getImageGroupIcon(property: ImageProperty | CommonGroupBy): Icon
     return getThemedIconPath(icon);
 }
 
-export function getImagePropertyValue(item: ILocalImageInfo, property: ImageProperty): string {
+export function getImagePropertyValue(item: ILocalImageInfo, property: CommonImageProperty): string {
     const parsedFullTag = parseFullTag(item.fullTag);
     let registry: string | undefined;
     switch (property) {
@@ -89,6 +120,11 @@ export function getImagePropertyValue(item: ILocalImageInfo, property: ImageProp
     }
 }
 
+export function getLabelsPropertyValue(labels: { [key: string]: string }): string {
+    const keys = Object.keys(labels).sort();
+    return keys.length > 0 ? keys.map(k => `${k}=${labels[k]}`).join(',') : '<none>';
+}
+
 interface IParsedFullTag {
     registry?: string;
     namespace?: string;
@@ -9,14 +9,20 @@ import { AzExtParentTreeItem, AzExtTreeItem, IActionContext, IParsedError, parse
 import { ext } from '../../extensionVariables';
 import { callDockerodeWithErrorHandling } from '../../utils/callDockerodeWithErrorHandling';
 import { getThemedIconPath, IconPath } from '../IconPath';
-import { ILocalImageInfo } from './LocalImageInfo';
+import { IImageHistoryItem, ImageLayerTreeItem } from './ImageLayerTreeItem';
+import { LocalImageInfo } from './LocalImageInfo';
 
-export class ImageTreeItem extends AzExtTreeItem {
+// Layers in the top few by size that also take up a significant part of the image are highlighted
+const maxLargeLayers: number = 3;
+const largeLayerRatio: number = 0.1;
+
+export class ImageTreeItem extends AzExtParentTreeItem {
     public static contextValue: string = 'image';
     public contextValue: string = ImageTreeItem.contextValue;
-    private readonly _item: ILocalImageInfo;
+    public childTypeLabel: string = 'layer';
+    private readonly _item: LocalImageInfo;
 
-    public constructor(parent: AzExtParentTreeItem, itemInfo: ILocalImageInfo) {
+    public constructor(parent: AzExtParentTreeItem, itemInfo: LocalImageInfo) {
         super(parent);
         this._item = itemInfo;
     }
@@ -37,6 +43,10 @@ export class ImageTreeItem extends AzExtTreeItem {
         return this._item.fullTag;
     }
 
+    public get size(): number | undefined {
+        return this._item.size;
+    }
+
     public get label(): string {
         return ext.imagesRoot.getTreeItemLabel(this._item);
     }
@@ -61,6 +71,34 @@ export class ImageTreeItem extends AzExtTreeItem {
         return ext.dockerode.getImage(this.imageId);
     }
 
+    public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        const image: Image = this.getImage();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        const history = <IImageHistoryItem[]>await callDockerodeWithErrorHandling(() => image.history(), context);
+
+        // The history is newest first, but showing it in Dockerfile order is easier to follow
+        const layers = history.slice().reverse();
+        const totalSize = layers.reduce((total, l) => total + l.Size, 0);
+        const largeLayers = layers
+            .filter(l => l.Size > 0 && l.Size >= totalSize * largeLayerRatio)
+            .sort((a, b) => b.Size - a.Size)
+            .slice(0, maxLargeLayers);
+
+        return layers.map((l, index) => new ImageLayerTreeItem(this, l, index, largeLayers.includes(l)));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public compareChildrenImpl(): number {
+        return 0; // keep the layers in order
+    }
+
+    public isAncestorOfImpl(): boolean {
+        return false; // layers can't be picked
+    }
+
     public async deleteTreeItemImpl(context: IActionContext): Promise<void> {
         const image: Image = this.getImage();
         try {
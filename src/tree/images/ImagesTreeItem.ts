@@ -3,23 +3,26 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { ImageInfo } from "dockerode";
+import { ImageInfo, ImageInspectInfo } from "dockerode";
 import { ext } from "../../extensionVariables";
+import { DockerEventType } from "../../utils/DockerEventsListener";
+import { formatBytes } from "../../utils/formatBytes";
 import { LocalChildGroupType, LocalChildType, LocalRootTreeItemBase } from "../LocalRootTreeItemBase";
-import { CommonGroupBy, groupByNoneProperty } from "../settings/CommonProperties";
+import { CommonGroupBy, CommonSortBy, groupByNoneProperty, sortByProperties, sortBySizeProperty } from "../settings/CommonProperties";
 import { ITreeArraySettingInfo, ITreeSettingInfo } from "../settings/ITreeSettingInfo";
 import { ImageGroupTreeItem } from './ImageGroupTreeItem';
-import { getImagePropertyValue, imageProperties, ImageProperty } from "./ImageProperties";
+import { getImagePropertyValue, getLabelsPropertyValue, imagePlatformProperties, imageProperties, ImageProperty } from "./ImageProperties";
 import { ImageTreeItem } from "./ImageTreeItem";
-import { ILocalImageInfo, LocalImageInfo } from "./LocalImageInfo";
+import { LocalImageInfo } from "./LocalImageInfo";
 
-export class ImagesTreeItem extends LocalRootTreeItemBase<ILocalImageInfo, ImageProperty> {
+export class ImagesTreeItem extends LocalRootTreeItemBase<LocalImageInfo, ImageProperty> {
     public treePrefix: string = 'images';
+    public dockerEventType: DockerEventType = 'image';
     public label: string = 'Images';
     public configureExplorerTitle: string = 'Configure images explorer';
 
-    public childType: LocalChildType<ILocalImageInfo> = ImageTreeItem;
-    public childGroupType: LocalChildGroupType<ILocalImageInfo, ImageProperty> = ImageGroupTreeItem;
+    public childType: LocalChildType<LocalImageInfo> = ImageTreeItem;
+    public childGroupType: LocalChildGroupType<LocalImageInfo, ImageProperty> = ImageGroupTreeItem;
 
     public labelSettingInfo: ITreeSettingInfo<ImageProperty> = {
         properties: imageProperties,
@@ -36,11 +39,19 @@ export class ImagesTreeItem extends LocalRootTreeItemBase<ILocalImageInfo, Image
         defaultProperty: 'Repository',
     };
 
+    public sortBySettingInfo: ITreeSettingInfo<CommonSortBy> = {
+        properties: [...sortByProperties, sortBySizeProperty],
+        defaultProperty: 'CreatedTime',
+    };
+
+    // The platform of an image never changes, so it only needs to be inspected once per session
+    private readonly _platformCache: Map<string, { architecture: string; os: string }> = new Map<string, { architecture: string; os: string }>();
+
     public get childTypeLabel(): string {
         return this.groupBySetting === 'None' ? 'image' : 'image group';
     }
 
-    public async getItems(): Promise<ILocalImageInfo[]> {
+    public async getItems(): Promise<LocalImageInfo[]> {
         const options = {
             "filters": {
                 "dangling": ["false"]
@@ -48,7 +59,7 @@ export class ImagesTreeItem extends LocalRootTreeItemBase<ILocalImageInfo, Image
         };
 
         const images = await ext.dockerode.listImages(options) || [];
-        let result: ILocalImageInfo[] = [];
+        let result: LocalImageInfo[] = [];
         for (const image of images) {
             if (!image.RepoTags) {
                 result.push(new LocalImageInfo(image, getFullTagFromDigest(image)));
@@ -59,11 +70,45 @@ export class ImagesTreeItem extends LocalRootTreeItemBase<ILocalImageInfo, Image
             }
         }
 
+        if (this.isAnyPropertyUsed(imagePlatformProperties.map(p => p.property))) {
+            await this.addPlatforms(result);
+        }
+
         return result;
     }
 
-    public getPropertyValue(item: ILocalImageInfo, property: ImageProperty): string {
-        return getImagePropertyValue(item, property);
+    public getPropertyValue(item: LocalImageInfo, property: ImageProperty): string {
+        switch (property) {
+            case 'Architecture':
+                return item.platform ? item.platform.architecture : '<none>';
+            case 'Labels':
+                return getLabelsPropertyValue(item.labels);
+            case 'OS':
+                return item.platform ? item.platform.os : '<none>';
+            case 'Size':
+                return formatBytes(item.size);
+            case 'VirtualSize':
+                return formatBytes(item.virtualSize);
+            default:
+                return getImagePropertyValue(item, property);
+        }
+    }
+
+    private async addPlatforms(items: LocalImageInfo[]): Promise<void> {
+        await Promise.all(items.map(async item => {
+            let platform = this._platformCache.get(item.imageId);
+            if (!platform) {
+                try {
+                    const inspectInfo: ImageInspectInfo = await ext.dockerode.getImage(item.imageId).inspect();
+                    platform = { architecture: inspectInfo.Architecture, os: inspectInfo.Os };
+                    this._platformCache.set(item.imageId, platform);
+                } catch {
+                    // Ignore--the properties will just show as "<none>"
+                }
+            }
+
+            item.platform = platform;
+        }));
     }
 }
 
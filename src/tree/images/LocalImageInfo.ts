@@ -20,6 +20,12 @@ export interface ILocalImageInfo extends ILocalItem {
 export class LocalImageInfo implements ILocalImageInfo {
     public data: ImageInfo;
     public fullTag: string;
+
+    /**
+     * Only set if the platform properties are used by the explorer, since they require inspecting the image
+     */
+    public platform: { architecture: string; os: string } | undefined;
+
     public constructor(data: ImageInfo, fullTag: string) {
         this.data = data;
         this.fullTag = fullTag;
@@ -33,6 +39,18 @@ export class LocalImageInfo implements ILocalImageInfo {
         return this.data.Id;
     }
 
+    public get size(): number {
+        return this.data.Size;
+    }
+
+    public get virtualSize(): number {
+        return this.data.VirtualSize;
+    }
+
+    public get labels(): { [key: string]: string } {
+        return this.data.Labels || {};
+    }
+
     public get treeId(): string {
         return this.fullTag + this.imageId;
     }
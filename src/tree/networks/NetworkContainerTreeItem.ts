@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Network } from "dockerode";
+import { AzExtParentTreeItem, AzExtTreeItem, GenericTreeItem, IActionContext } from "vscode-azureextensionui";
+import { callDockerodeWithErrorHandling } from "../../utils/callDockerodeWithErrorHandling";
+import { getThemedIconPath, IconPath } from "../IconPath";
+import { NetworkTreeItem } from "./NetworkTreeItem";
+
+/**
+ * A container's endpoint in a network, combining the network inspect info (addresses) with the container's own network settings (aliases)
+ */
+export interface INetworkEndpointInfo {
+    containerId: string;
+    containerName: string;
+    ipv4Address?: string;
+    ipv6Address?: string;
+    macAddress?: string;
+    aliases: string[];
+}
+
+export class NetworkContainerTreeItem extends AzExtParentTreeItem {
+    public static contextValue: string = 'networkContainer';
+    public contextValue: string = NetworkContainerTreeItem.contextValue;
+    public childTypeLabel: string = 'property';
+    public readonly parent: NetworkTreeItem;
+    public readonly endpoint: INetworkEndpointInfo;
+
+    public constructor(parent: NetworkTreeItem, endpoint: INetworkEndpointInfo) {
+        super(parent);
+        this.endpoint = endpoint;
+    }
+
+    public get id(): string {
+        return this.endpoint.containerId;
+    }
+
+    public get label(): string {
+        return this.endpoint.containerName;
+    }
+
+    public get description(): string | undefined {
+        return this.endpoint.ipv4Address || this.endpoint.ipv6Address;
+    }
+
+    public get iconPath(): IconPath {
+        return getThemedIconPath('application');
+    }
+
+    public getNetwork(): Network {
+        return this.parent.getNetwork();
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean, _context: IActionContext): Promise<AzExtTreeItem[]> {
+        const details: [string, string | undefined][] = [
+            ['IPv4 Address', this.endpoint.ipv4Address],
+            ['IPv6 Address', this.endpoint.ipv6Address],
+            ['MAC Address', this.endpoint.macAddress],
+            ['Aliases', this.endpoint.aliases.join(', ')],
+        ];
+
+        return details.map(([name, value]) => new GenericTreeItem(this, {
+            label: name,
+            description: value || '<none>',
+            contextValue: 'networkContainerDetail'
+        }));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public compareChildrenImpl(_ti1: AzExtTreeItem, _ti2: AzExtTreeItem): number {
+        return 0; // Keep the order above
+    }
+
+    public isAncestorOfImpl(_expectedContextValue: string | RegExp): boolean {
+        return false;
+    }
+
+    /**
+     * Disconnects the container from the network (the container itself is left alone)
+     */
+    public async deleteTreeItemImpl(context: IActionContext): Promise<void> {
+        const network: Network = this.getNetwork();
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        await callDockerodeWithErrorHandling(() => network.disconnect({ Container: this.endpoint.containerId }), context);
+    }
+}
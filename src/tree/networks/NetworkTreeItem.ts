@@ -3,16 +3,30 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Network } from "dockerode";
+import { ContainerInspectInfo, Network } from "dockerode";
 import { AzExtParentTreeItem, AzExtTreeItem, IActionContext } from "vscode-azureextensionui";
 import { ext } from "../../extensionVariables";
 import { callDockerodeWithErrorHandling } from "../../utils/callDockerodeWithErrorHandling";
 import { getThemedIconPath, IconPath } from '../IconPath';
 import { LocalNetworkInfo } from "./LocalNetworkInfo";
+import { INetworkEndpointInfo, NetworkContainerTreeItem } from "./NetworkContainerTreeItem";
 
-export class NetworkTreeItem extends AzExtTreeItem {
+// The typings for the containers in a network are wrong (e.g. "Ipv4Address" instead of "IPv4Address")
+interface IRawNetworkContainers {
+    Containers?: {
+        [id: string]: {
+            Name: string;
+            MacAddress?: string;
+            IPv4Address?: string;
+            IPv6Address?: string;
+        }
+    };
+}
+
+export class NetworkTreeItem extends AzExtParentTreeItem {
     public static contextValue: string = 'network';
     public contextValue: string = NetworkTreeItem.contextValue;
+    public childTypeLabel: string = 'container';
     private readonly _item: LocalNetworkInfo;
 
     public constructor(parent: AzExtParentTreeItem, itemInfo: LocalNetworkInfo) {
@@ -28,6 +42,10 @@ export class NetworkTreeItem extends AzExtTreeItem {
         return this._item.networkId;
     }
 
+    public get networkName(): string {
+        return this._item.networkName;
+    }
+
     public get createdTime(): number {
         return this._item.createdTime;
     }
@@ -48,9 +66,50 @@ export class NetworkTreeItem extends AzExtTreeItem {
         return ext.dockerode.getNetwork(this.networkId);
     }
 
+    public async loadMoreChildrenImpl(_clearCache: boolean, context: IActionContext): Promise<AzExtTreeItem[]> {
+        const network: Network = this.getNetwork();
+        // The network list doesn't include the containers, so they have to come from inspect
+        // eslint-disable-next-line @typescript-eslint/promise-function-async
+        const inspectInfo = <IRawNetworkContainers>await callDockerodeWithErrorHandling(() => network.inspect(), context);
+
+        const endpoints: INetworkEndpointInfo[] = await Promise.all(Object.entries(inspectInfo.Containers || {}).map(async ([containerId, container]) => {
+            return {
+                containerId,
+                containerName: container.Name,
+                ipv4Address: container.IPv4Address,
+                ipv6Address: container.IPv6Address,
+                macAddress: container.MacAddress,
+                aliases: await this.getAliases(containerId),
+            };
+        }));
+
+        return endpoints.map(e => new NetworkContainerTreeItem(this, e));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public isAncestorOfImpl(expectedContextValue: string | RegExp): boolean {
+        // Only containers are nested under networks
+        const contextValue = NetworkContainerTreeItem.contextValue;
+        return contextValue === expectedContextValue || (expectedContextValue instanceof RegExp && expectedContextValue.test(contextValue));
+    }
+
     public async deleteTreeItemImpl(context: IActionContext): Promise<void> {
         const network: Network = this.getNetwork();
         // eslint-disable-next-line @typescript-eslint/promise-function-async
         await callDockerodeWithErrorHandling(() => network.remove({ force: true }), context);
     }
+
+    private async getAliases(containerId: string): Promise<string[]> {
+        try {
+            const containerInfo: ContainerInspectInfo = await ext.dockerode.getContainer(containerId).inspect();
+            const endpointSettings = <{ Aliases?: string[] | null } | undefined>containerInfo.NetworkSettings.Networks[this.networkName];
+            return endpointSettings && endpointSettings.Aliases || [];
+        } catch {
+            // Some endpoints (e.g. swarm load balancers) aren't real containers
+            return [];
+        }
+    }
 }
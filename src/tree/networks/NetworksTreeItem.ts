@@ -5,6 +5,7 @@
 
 import { NetworkInspectInfo } from "dockerode";
 import { ext } from "../../extensionVariables";
+import { DockerEventType } from "../../utils/DockerEventsListener";
 import { LocalChildGroupType, LocalChildType, LocalRootTreeItemBase } from "../LocalRootTreeItemBase";
 import { CommonGroupBy, getCommonPropertyValue, groupByNoneProperty } from "../settings/CommonProperties";
 import { ITreeArraySettingInfo, ITreeSettingInfo } from "../settings/ITreeSettingInfo";
@@ -15,6 +16,7 @@ import { NetworkTreeItem } from "./NetworkTreeItem";
 
 export class NetworksTreeItem extends LocalRootTreeItemBase<LocalNetworkInfo, NetworkProperty> {
     public treePrefix: string = 'networks';
+    public dockerEventType: DockerEventType = 'network';
     public label: string = 'Networks';
     public configureExplorerTitle: string = 'Configure networks explorer';
     public childType: LocalChildType<LocalNetworkInfo> = NetworkTreeItem;
@@ -7,6 +7,8 @@ import { window } from "vscode";
 import { AzExtTreeDataProvider, AzExtTreeItem, IActionContext, registerCommand } from "vscode-azureextensionui";
 import { ext } from '../extensionVariables';
 import { ContainersTreeItem } from './containers/ContainersTreeItem';
+import { ContextsTreeItem } from "./contexts/ContextsTreeItem";
+import { DiskUsageTreeItem } from "./diskUsage/DiskUsageTreeItem";
 import { ImagesTreeItem } from "./images/ImagesTreeItem";
 import { NetworksTreeItem } from "./networks/NetworksTreeItem";
 import { OpenUrlTreeItem } from "./OpenUrlTreeItem";
@@ -17,7 +19,7 @@ export function registerTrees(): void {
     ext.containersRoot = new ContainersTreeItem(undefined);
     const containersLoadMore = 'vscode-docker.containers.loadMore';
     ext.containersTree = new AzExtTreeDataProvider(ext.containersRoot, containersLoadMore);
-    ext.containersTreeView = window.createTreeView('dockerContainers', { treeDataProvider: ext.containersTree });
+    ext.containersTreeView = window.createTreeView('dockerContainers', { treeDataProvider: ext.containersTree, canSelectMany: true });
     ext.context.subscriptions.push(ext.containersTreeView);
     ext.containersRoot.registerRefreshEvents(ext.containersTreeView);
     /* eslint-disable-next-line @typescript-eslint/promise-function-async */
@@ -27,7 +29,7 @@ export function registerTrees(): void {
     ext.networksRoot = new NetworksTreeItem(undefined);
     const networksLoadMore = 'vscode-docker.networks.loadMore';
     ext.networksTree = new AzExtTreeDataProvider(ext.networksRoot, networksLoadMore);
-    ext.networksTreeView = window.createTreeView('dockerNetworks', { treeDataProvider: ext.networksTree });
+    ext.networksTreeView = window.createTreeView('dockerNetworks', { treeDataProvider: ext.networksTree, canSelectMany: true });
     ext.context.subscriptions.push(ext.networksTreeView);
     ext.networksRoot.registerRefreshEvents(ext.networksTreeView);
     /* eslint-disable-next-line @typescript-eslint/promise-function-async */
@@ -37,7 +39,7 @@ export function registerTrees(): void {
     ext.imagesRoot = new ImagesTreeItem(undefined);
     const imagesLoadMore = 'vscode-docker.images.loadMore';
     ext.imagesTree = new AzExtTreeDataProvider(ext.imagesRoot, imagesLoadMore);
-    ext.imagesTreeView = window.createTreeView('dockerImages', { treeDataProvider: ext.imagesTree });
+    ext.imagesTreeView = window.createTreeView('dockerImages', { treeDataProvider: ext.imagesTree, canSelectMany: true });
     ext.context.subscriptions.push(ext.imagesTreeView);
     ext.imagesRoot.registerRefreshEvents(ext.imagesTreeView);
     /* eslint-disable-next-line @typescript-eslint/promise-function-async */
@@ -56,12 +58,30 @@ export function registerTrees(): void {
     ext.volumesRoot = new VolumesTreeItem(undefined);
     const volumesLoadMore = 'vscode-docker.volumes.loadMore';
     ext.volumesTree = new AzExtTreeDataProvider(ext.volumesRoot, volumesLoadMore);
-    ext.volumesTreeView = window.createTreeView('dockerVolumes', { treeDataProvider: ext.volumesTree });
+    ext.volumesTreeView = window.createTreeView('dockerVolumes', { treeDataProvider: ext.volumesTree, canSelectMany: true });
     ext.context.subscriptions.push(ext.volumesTreeView);
     ext.volumesRoot.registerRefreshEvents(ext.volumesTreeView);
     /* eslint-disable-next-line @typescript-eslint/promise-function-async */
     registerCommand(volumesLoadMore, (context: IActionContext, node: AzExtTreeItem) => ext.volumesTree.loadMore(node, context));
     registerCommand('vscode-docker.volumes.refresh', async (_context: IActionContext, node?: AzExtTreeItem) => ext.volumesTree.refresh(node));
 
+    ext.diskUsageRoot = new DiskUsageTreeItem();
+    const diskUsageLoadMore = 'vscode-docker.diskUsage.loadMore';
+    ext.diskUsageTree = new AzExtTreeDataProvider(ext.diskUsageRoot, diskUsageLoadMore);
+    ext.diskUsageTreeView = window.createTreeView('dockerDiskUsage', { treeDataProvider: ext.diskUsageTree });
+    ext.context.subscriptions.push(ext.diskUsageTreeView);
+    /* eslint-disable-next-line @typescript-eslint/promise-function-async */
+    registerCommand(diskUsageLoadMore, (context: IActionContext, node: AzExtTreeItem) => ext.diskUsageTree.loadMore(node, context));
+    registerCommand('vscode-docker.diskUsage.refresh', async (_context: IActionContext, node?: AzExtTreeItem) => ext.diskUsageTree.refresh(node));
+
+    ext.contextsRoot = new ContextsTreeItem();
+    const contextsLoadMore = 'vscode-docker.contexts.loadMore';
+    ext.contextsTree = new AzExtTreeDataProvider(ext.contextsRoot, contextsLoadMore);
+    ext.contextsTreeView = window.createTreeView('dockerContexts', { treeDataProvider: ext.contextsTree });
+    ext.context.subscriptions.push(ext.contextsTreeView);
+    /* eslint-disable-next-line @typescript-eslint/promise-function-async */
+    registerCommand(contextsLoadMore, (context: IActionContext, node: AzExtTreeItem) => ext.contextsTree.loadMore(node, context));
+    registerCommand('vscode-docker.contexts.refresh', async (_context: IActionContext, node?: AzExtTreeItem) => ext.contextsTree.refresh(node));
+
     registerCommand('vscode-docker.openUrl', async (_context: IActionContext, node: OpenUrlTreeItem) => node.openUrl());
 }
@@ -10,7 +10,7 @@ import { ITreePropertyInfo } from './ITreeSettingInfo';
 
 export type CommonProperty = 'CreatedTime';
 export type CommonGroupBy = 'None';
-export type CommonSortBy = 'CreatedTime' | 'Label';
+export type CommonSortBy = 'CreatedTime' | 'Label' | 'Size';
 
 export const commonProperties: ITreePropertyInfo<CommonProperty>[] = [
     { property: 'CreatedTime', exampleValue: '2 hours ago' },
@@ -26,6 +26,14 @@ export const sortByProperties: ITreePropertyInfo<CommonSortBy>[] = [
     { property: 'Label', description: 'Sort alphabetically by label' }
 ];
 
+/**
+ * Only applies to trees whose items have a size
+ */
+export const sortBySizeProperty: ITreePropertyInfo<CommonSortBy> = {
+    property: 'Size',
+    description: 'Sort by largest'
+};
+
 export function getCommonPropertyValue(item: ILocalItem, property: CommonProperty): string {
     switch (property) {
         case 'CreatedTime':
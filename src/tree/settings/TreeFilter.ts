@@ -0,0 +1,38 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface ITreeFilterTerm {
+    /**
+     * If undefined, the term matches the label or description of an item
+     */
+    property?: string;
+    value: string;
+}
+
+/**
+ * Parses a filter query like `nginx state:running label:"my app"` into terms, all of which must match.
+ * A prefix is only treated as a property if it's one of `properties` (case-insensitive), so something like `localhost:5000/app` is still a plain substring.
+ */
+export function parseTreeFilter(query: string, properties: string[]): ITreeFilterTerm[] {
+    const terms: ITreeFilterTerm[] = [];
+    const termRegExp = /(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+    let match: RegExpExecArray | null;
+    while ((match = termRegExp.exec(query)) !== null) {
+        const [fullMatch, prefix, quotedValue, value] = match;
+        const property = prefix ? properties.find(p => p.toLowerCase() === prefix.toLowerCase()) : undefined;
+        if (property) {
+            terms.push({ property, value: quotedValue !== undefined ? quotedValue : value });
+        } else {
+            terms.push({ value: fullMatch.replace(/"/g, '') });
+        }
+    }
+
+    return terms.filter(t => !!t.value);
+}
+
+export function matchesTreeFilterTerm(value: string, term: ITreeFilterTerm): boolean {
+    return value.toLowerCase().includes(term.value.toLowerCase());
+}
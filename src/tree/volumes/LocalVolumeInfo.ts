@@ -5,6 +5,7 @@
 
 import { VolumeInspectInfo } from "dockerode";
 import { ILocalItem } from "../LocalRootTreeItemBase";
+import { IVolumeUsage } from "./VolumeContainerTreeItem";
 
 type VolumeInspectInfoExt = VolumeInspectInfo & { CreatedAt: string };
 
@@ -13,8 +14,10 @@ type VolumeInspectInfoExt = VolumeInspectInfo & { CreatedAt: string };
  */
 export class LocalVolumeInfo implements ILocalItem {
     public data: VolumeInspectInfoExt;
-    public constructor(data: VolumeInspectInfo) {
+    public usages: IVolumeUsage[];
+    public constructor(data: VolumeInspectInfo, usages: IVolumeUsage[]) {
         this.data = <VolumeInspectInfoExt>data;
+        this.usages = usages;
     }
 
     public get createdTime(): number {
@@ -26,6 +29,10 @@ export class LocalVolumeInfo implements ILocalItem {
         return this.data.Name;
     }
 
+    public get inUse(): boolean {
+        return this.usages.length > 0;
+    }
+
     public get treeId(): string {
         return this.volumeName;
     }
@@ -0,0 +1,46 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzExtParentTreeItem, AzExtTreeItem } from "vscode-azureextensionui";
+import { getContainerStateIcon } from "../containers/ContainerProperties";
+import { IconPath } from "../IconPath";
+
+/**
+ * A container (running or not) that mounts a volume
+ */
+export interface IVolumeUsage {
+    containerId: string;
+    containerName: string;
+    containerState: string;
+    mountPath: string;
+    readWrite: boolean;
+}
+
+export class VolumeContainerTreeItem extends AzExtTreeItem {
+    public static contextValue: string = 'volumeContainer';
+    public contextValue: string = VolumeContainerTreeItem.contextValue;
+    public readonly usage: IVolumeUsage;
+
+    public constructor(parent: AzExtParentTreeItem, usage: IVolumeUsage) {
+        super(parent);
+        this.usage = usage;
+    }
+
+    public get id(): string {
+        return `${this.usage.containerId}|${this.usage.mountPath}`;
+    }
+
+    public get label(): string {
+        return this.usage.containerName;
+    }
+
+    public get description(): string {
+        return `${this.usage.mountPath} (${this.usage.readWrite ? 'rw' : 'ro'})`;
+    }
+
+    public get iconPath(): IconPath {
+        return getContainerStateIcon(this.usage.containerState);
+    }
+}
@@ -17,6 +17,7 @@ export class VolumeGroupTreeItem extends LocalGroupTreeItemBase<LocalVolumeInfo,
     public get iconPath(): IconPath {
         let icon: string;
         switch (this.parent.groupBySetting) {
+            case 'InUse':
             case 'VolumeName':
                 icon = 'volume';
                 break;
@@ -6,9 +6,10 @@
 import { commonProperties, CommonProperty } from "../settings/CommonProperties";
 import { ITreePropertyInfo } from "../settings/ITreeSettingInfo";
 
-export type VolumeProperty = CommonProperty | 'VolumeName';
+export type VolumeProperty = CommonProperty | 'InUse' | 'VolumeName';
 
 export const volumeProperties: ITreePropertyInfo<VolumeProperty>[] = [
     ...commonProperties,
+    { property: 'InUse', exampleValue: 'In use' },
     { property: 'VolumeName', exampleValue: 'my-vol' },
 ];
@@ -4,15 +4,17 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { Volume } from "dockerode";
-import { AzExtParentTreeItem, AzExtTreeItem, IActionContext } from "vscode-azureextensionui";
+import { AzExtParentTreeItem, AzExtTreeItem, GenericTreeItem, IActionContext } from "vscode-azureextensionui";
 import { ext } from "../../extensionVariables";
 import { callDockerodeWithErrorHandling } from "../../utils/callDockerodeWithErrorHandling";
 import { getThemedIconPath, IconPath } from "../IconPath";
 import { LocalVolumeInfo } from "./LocalVolumeInfo";
+import { IVolumeUsage, VolumeContainerTreeItem } from "./VolumeContainerTreeItem";
 
-export class VolumeTreeItem extends AzExtTreeItem {
+export class VolumeTreeItem extends AzExtParentTreeItem {
     public static contextValue: string = 'volume';
     public contextValue: string = VolumeTreeItem.contextValue;
+    public childTypeLabel: string = 'container';
     private readonly _item: LocalVolumeInfo;
 
     public constructor(parent: AzExtParentTreeItem, itemInfo: LocalVolumeInfo) {
@@ -32,6 +34,10 @@ export class VolumeTreeItem extends AzExtTreeItem {
         return this._item.volumeName;
     }
 
+    public get usages(): IVolumeUsage[] {
+        return this._item.usages;
+    }
+
     public get label(): string {
         return ext.volumesRoot.getTreeItemLabel(this._item);
     }
@@ -48,6 +54,26 @@ export class VolumeTreeItem extends AzExtTreeItem {
         return ext.dockerode.getVolume(this.volumeName);
     }
 
+    public async loadMoreChildrenImpl(_clearCache: boolean, _context: IActionContext): Promise<AzExtTreeItem[]> {
+        if (this.usages.length === 0) {
+            return [new GenericTreeItem(this, {
+                label: 'Not used by any containers',
+                iconPath: getThemedIconPath('info'),
+                contextValue: 'volumeNotInUse'
+            })];
+        }
+
+        return this.usages.map(u => new VolumeContainerTreeItem(this, u));
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public isAncestorOfImpl(_expectedContextValue: string | RegExp): boolean {
+        return false;
+    }
+
     public async deleteTreeItemImpl(context: IActionContext): Promise<void> {
         const volume: Volume = this.getVolume();
         // eslint-disable-next-line @typescript-eslint/promise-function-async
@@ -3,17 +3,24 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import { ContainerInfo } from "dockerode";
 import { ext } from "../../extensionVariables";
+import { DockerEventType, IDockerEvent } from "../../utils/DockerEventsListener";
 import { LocalChildGroupType, LocalChildType, LocalRootTreeItemBase } from "../LocalRootTreeItemBase";
 import { CommonGroupBy, getCommonPropertyValue, groupByNoneProperty } from "../settings/CommonProperties";
 import { ITreeArraySettingInfo, ITreeSettingInfo } from "../settings/ITreeSettingInfo";
 import { LocalVolumeInfo } from "./LocalVolumeInfo";
+import { IVolumeUsage } from "./VolumeContainerTreeItem";
 import { VolumeGroupTreeItem } from "./VolumeGroupTreeItem";
 import { volumeProperties, VolumeProperty } from "./VolumeProperties";
 import { VolumeTreeItem } from "./VolumeTreeItem";
 
+// Container events that change the containers shown under volumes
+const containerEventActions: RegExp = /^(create|destroy|start|die|pause|unpause|rename)$/;
+
 export class VolumesTreeItem extends LocalRootTreeItemBase<LocalVolumeInfo, VolumeProperty> {
     public treePrefix: string = 'volumes';
+    public dockerEventType: DockerEventType = 'volume';
     public label: string = 'Volumes';
     public configureExplorerTitle: string = 'Configure volumes explorer';
     public childType: LocalChildType<LocalVolumeInfo> = VolumeTreeItem;
@@ -41,15 +48,47 @@ export class VolumesTreeItem extends LocalRootTreeItemBase<LocalVolumeInfo, Volu
     public async getItems(): Promise<LocalVolumeInfo[]> {
         const result = await ext.dockerode.listVolumes();
         const volumes = (result && result.Volumes) || [];
-        return volumes.map(v => new LocalVolumeInfo(v));
+        const usages = await this.getVolumeUsages();
+        return volumes.map(v => new LocalVolumeInfo(v, usages.get(v.Name) || []));
     }
 
     public getPropertyValue(item: LocalVolumeInfo, property: VolumeProperty): string {
         switch (property) {
+            case 'InUse':
+                return item.inUse ? 'In use' : 'Not in use';
             case 'VolumeName':
                 return item.volumeName;
             default:
                 return getCommonPropertyValue(item, property);
         }
     }
+
+    protected isRefreshEvent(event: IDockerEvent): boolean {
+        // Whether a volume is in use and the containers under it (with their state) come from the containers that mount it
+        return super.isRefreshEvent(event) || (event.Type === 'container' && containerEventActions.test(event.Action));
+    }
+
+    /**
+     * Gets the containers (running or not) that mount each volume, keyed by volume name
+     */
+    private async getVolumeUsages(): Promise<Map<string, IVolumeUsage[]>> {
+        const containers: ContainerInfo[] = await ext.dockerode.listContainers({ all: true }) || [];
+        const usages = new Map<string, IVolumeUsage[]>();
+        for (const container of containers) {
+            for (const mount of container.Mounts || []) {
+                if (mount.Type === 'volume' && mount.Name) {
+                    const volumeUsages = usages.get(mount.Name) || [];
+                    volumeUsages.push({
+                        containerId: container.Id,
+                        containerName: container.Names[0].replace(/^\//, ''),
+                        containerState: container.State,
+                        mountPath: mount.Destination,
+                        readWrite: mount.RW,
+                    });
+                    usages.set(mount.Name, volumeUsages);
+                }
+            }
+        }
+        return usages;
+    }
 }
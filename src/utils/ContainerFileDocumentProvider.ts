@@ -0,0 +1,32 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Disposable, TextDocumentContentProvider, Uri, workspace } from "vscode";
+import { ext } from "../extensionVariables";
+import { readContainerFile } from "./containerFileSystem";
+
+const containerFileScheme: string = 'docker-container-file';
+
+export function getContainerFileUri(containerId: string, filePath: string): Uri {
+    return Uri.parse(`${containerFileScheme}:${encodeURI(filePath)}?${containerId}`);
+}
+
+/**
+ * Provides read-only documents for files inside of containers (running or not)
+ */
+export class ContainerFileDocumentProvider implements TextDocumentContentProvider {
+    public static register(): Disposable {
+        return workspace.registerTextDocumentContentProvider(containerFileScheme, new ContainerFileDocumentProvider());
+    }
+
+    public async provideTextDocumentContent(uri: Uri): Promise<string> {
+        const contents: Buffer = await readContainerFile(ext.dockerode.getContainer(uri.query), uri.path);
+        if (contents.includes(0)) {
+            throw new Error(`"${uri.path}" appears to be a binary file. Download it instead.`);
+        }
+
+        return contents.toString();
+    }
+}
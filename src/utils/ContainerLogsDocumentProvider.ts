@@ -0,0 +1,357 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ContainerInspectInfo } from "dockerode";
+import { Disposable, Event, EventEmitter, Range, TextDocument, TextDocumentContentProvider, TextEditor, TextEditorDecorationType, ThemeColor, Uri, window, workspace } from "vscode";
+import { parseError } from "vscode-azureextensionui";
+import { ext } from "../extensionVariables";
+import { ContainerLogParser, defaultContainerLogsOptions, describeLogsOptions, formatLogLine, IContainerLogLine, IContainerLogsOptions, insertLogLines, matchesLogFilter } from "./containerLogs";
+import { parseTimeFilter } from "./pruneFilters";
+
+export const containerLogsScheme: string = 'docker-container-logs';
+
+// Older lines are dropped once the followed containers have logged this many
+const maxLines: number = 50000;
+
+// Chatty containers log many lines per second, so changes are batched rather than re-rendering the document for every chunk
+const changeDelay: number = 250;
+
+// The same colors `docker-compose logs` cycles through for its prefixes
+const prefixColors: string[] = ['terminal.ansiCyan', 'terminal.ansiYellow', 'terminal.ansiGreen', 'terminal.ansiMagenta', 'terminal.ansiBlue', 'terminal.ansiRed'];
+const prefixRegExp: RegExp = /^\[([^\]]+)\]/;
+
+export interface IContainerLogsSource {
+    containerId: string;
+    containerName: string;
+}
+
+interface ILogsSession {
+    uri: Uri;
+    title: string;
+    containers: IContainerLogsSource[];
+    options: IContainerLogsOptions;
+    lines: IContainerLogLine[];
+
+    /**
+     * The streams that are still open, by container id
+     */
+    streams: Map<string, NodeJS.ReadableStream>;
+
+    /**
+     * By container name
+     */
+    errors: Map<string, string>;
+
+    /**
+     * Set when following was stopped because the document isn't shown anymore, so that it's restarted once the document is shown again
+     */
+    pausedWhileHidden: boolean;
+}
+
+/**
+ * Gets the uri of a document with the logs of one or more containers. The logs of several containers are interleaved by timestamp.
+ */
+export function getContainerLogsUri(containers: IContainerLogsSource[], title?: string): Uri {
+    const query = containers.map(c => `${c.containerId}:${c.containerName}`).join(',');
+    return Uri.parse(`${containerLogsScheme}:/${encodeURIComponent(title || containers[0].containerName)}.log?${encodeURIComponent(query)}`);
+}
+
+/**
+ * Shows the logs of containers in a read-only document that follows the logs while it's shown.
+ * Both streams are always requested with timestamps, so toggling what's displayed doesn't need to fetch the logs again.
+ */
+export class ContainerLogsDocumentProvider implements TextDocumentContentProvider, Disposable {
+    private readonly _onDidChangeEmitter: EventEmitter<Uri> = new EventEmitter<Uri>();
+    private readonly _sessions: Map<string, ILogsSession> = new Map<string, ILogsSession>();
+    private readonly _pendingChanges: Map<string, NodeJS.Timer> = new Map<string, NodeJS.Timer>();
+    private readonly _restartingSessions: Set<ILogsSession> = new Set<ILogsSession>();
+    private readonly _decorationTypes: TextEditorDecorationType[] = prefixColors.map(c => window.createTextEditorDecorationType({ color: new ThemeColor(c) }));
+    private readonly _disposables: Disposable[] = [];
+
+    public constructor() {
+        this._disposables.push(workspace.onDidCloseTextDocument(doc => this.onDidCloseTextDocument(doc)));
+        this._disposables.push(workspace.onDidChangeTextDocument(e => this.decorateEditors(e.document)));
+        this._disposables.push(window.onDidChangeVisibleTextEditors(editors => this.onDidChangeVisibleTextEditors(editors)));
+        this._disposables.push(...this._decorationTypes);
+    }
+
+    public static register(): Disposable {
+        const provider = new ContainerLogsDocumentProvider();
+        ext.containerLogs = provider;
+        return Disposable.from(
+            workspace.registerTextDocumentContentProvider(containerLogsScheme, provider),
+            provider
+        );
+    }
+
+    public get onDidChange(): Event<Uri> {
+        return this._onDidChangeEmitter.event;
+    }
+
+    public async provideTextDocumentContent(uri: Uri): Promise<string> {
+        let session = this._sessions.get(uri.query);
+        if (!session) {
+            session = {
+                uri,
+                title: decodeURIComponent(uri.path.replace(/^\//, '').replace(/\.log$/, '')),
+                containers: uri.query.split(',').map(c => {
+                    const [containerId, containerName] = c.split(':');
+                    return { containerId, containerName };
+                }),
+                options: { ...defaultContainerLogsOptions },
+                lines: [],
+                streams: new Map<string, NodeJS.ReadableStream>(),
+                errors: new Map<string, string>(),
+                pausedWhileHidden: false
+            };
+            this._sessions.set(uri.query, session);
+            await this.startStreaming(session);
+        }
+
+        return this.render(session);
+    }
+
+    public getOptions(uri: Uri): IContainerLogsOptions | undefined {
+        const session = this._sessions.get(uri.query);
+        return session ? { ...session.options } : undefined;
+    }
+
+    /**
+     * Changes what's displayed. Changing `since` or `tail` fetches the logs again.
+     */
+    public async updateOptions(uri: Uri, options: Partial<IContainerLogsOptions>): Promise<void> {
+        const session = this._sessions.get(uri.query);
+        if (session) {
+            const refetch: boolean = ('since' in options && options.since !== session.options.since) || ('tail' in options && options.tail !== session.options.tail);
+            session.options = { ...session.options, ...options };
+            if (refetch) {
+                await this.startStreaming(session);
+            }
+
+            this._onDidChangeEmitter.fire(session.uri);
+        }
+    }
+
+    /**
+     * Fetches the logs again and follows them, e.g. after the containers were restarted
+     */
+    public async restart(uri: Uri): Promise<void> {
+        const session = this._sessions.get(uri.query);
+        if (session && !this._restartingSessions.has(session)) {
+            this._restartingSessions.add(session);
+            try {
+                session.pausedWhileHidden = false;
+                await this.startStreaming(session);
+            } finally {
+                this._restartingSessions.delete(session);
+            }
+
+            // The document may have been hidden while the logs were fetched
+            if (!window.visibleTextEditors.some(e => e.document.uri.scheme === containerLogsScheme && e.document.uri.query === session.uri.query)) {
+                this.stopStreaming(session);
+                session.pausedWhileHidden = true;
+            }
+
+            this._onDidChangeEmitter.fire(session.uri);
+        }
+    }
+
+    /**
+     * Gets the lines that are currently displayed (without the header), e.g. to export them
+     */
+    public getLogText(uri: Uri): string | undefined {
+        const session = this._sessions.get(uri.query);
+        return session ? this.getDisplayedLines(session).join('\n') : undefined;
+    }
+
+    public dispose(): void {
+        for (const session of this._sessions.values()) {
+            this.stopStreaming(session);
+        }
+        this._sessions.clear();
+
+        for (const timer of this._pendingChanges.values()) {
+            clearTimeout(timer);
+        }
+        this._pendingChanges.clear();
+
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
+
+        this._onDidChangeEmitter.dispose();
+    }
+
+    private async startStreaming(session: ILogsSession): Promise<void> {
+        this.stopStreaming(session);
+        session.lines = [];
+        session.errors.clear();
+
+        await Promise.all(session.containers.map(async c => {
+            try {
+                await this.startStreamingContainer(session, c);
+            } catch (error) {
+                session.errors.set(c.containerName, parseError(error).message);
+            }
+        }));
+    }
+
+    private async startStreamingContainer(session: ILogsSession, source: IContainerLogsSource): Promise<void> {
+        const container = ext.dockerode.getContainer(source.containerId);
+        const info: ContainerInspectInfo = await container.inspect();
+        const stream = await container.logs({
+            follow: true,
+            stdout: true,
+            stderr: true,
+            timestamps: true,
+            since: session.options.since ? Math.floor(parseTimeFilter('since', session.options.since, Date.now()) / 1000) : undefined,
+            tail: session.options.tail
+        });
+
+        const parser = new ContainerLogParser(!info.Config.Tty, true);
+        const containerName: string | undefined = session.containers.length > 1 ? source.containerName : undefined;
+        const addLines = (lines: IContainerLogLine[]) => this.addLines(session, lines.map(l => ({ ...l, containerName })));
+        const onClosed = () => {
+            // Ignore streams that were already replaced or stopped on purpose
+            if (session.streams.get(source.containerId) === stream) {
+                session.streams.delete(source.containerId);
+                addLines(parser.end());
+                this.scheduleChange(session);
+            }
+        };
+
+        session.streams.set(source.containerId, stream);
+        stream.on('data', (chunk: Buffer) => addLines(parser.write(chunk)));
+        stream.on('end', onClosed);
+        stream.on('error', (error: unknown) => {
+            session.errors.set(source.containerName, parseError(error).message);
+            onClosed();
+        });
+    }
+
+    private stopStreaming(session: ILogsSession): void {
+        const streams = Array.from(session.streams.values());
+        session.streams.clear();
+
+        for (const stream of streams) {
+            stream.removeAllListeners('data');
+            const destroyable = <{ destroy?(): void }><unknown>stream;
+            if (destroyable.destroy) {
+                destroyable.destroy();
+            }
+        }
+    }
+
+    private addLines(session: ILogsSession, lines: IContainerLogLine[]): void {
+        if (lines.length > 0) {
+            insertLogLines(session.lines, lines);
+            if (session.lines.length > maxLines) {
+                session.lines.splice(0, session.lines.length - maxLines);
+            }
+
+            this.scheduleChange(session);
+        }
+    }
+
+    private scheduleChange(session: ILogsSession): void {
+        const key = session.uri.query;
+        if (!this._pendingChanges.has(key)) {
+            this._pendingChanges.set(key, setTimeout(
+                () => {
+                    this._pendingChanges.delete(key);
+                    this._onDidChangeEmitter.fire(session.uri);
+                },
+                changeDelay
+            ));
+        }
+    }
+
+    private onDidCloseTextDocument(doc: TextDocument): void {
+        if (doc.uri.scheme === containerLogsScheme) {
+            const session = this._sessions.get(doc.uri.query);
+            if (session) {
+                this.stopStreaming(session);
+                this._sessions.delete(doc.uri.query);
+            }
+        }
+    }
+
+    /**
+     * Closed documents stay open for a while before VS Code disposes them, and their content isn't provided again if they're reopened in the
+     * meantime. So following stops as soon as a document isn't shown anymore, and starts again when it's shown.
+     */
+    private onDidChangeVisibleTextEditors(editors: TextEditor[]): void {
+        const shownQueries = new Set<string>(editors.filter(e => e.document.uri.scheme === containerLogsScheme).map(e => e.document.uri.query));
+        for (const session of this._sessions.values()) {
+            if (this._restartingSessions.has(session)) {
+                continue;
+            } else if (!shownQueries.has(session.uri.query) && session.streams.size > 0) {
+                this.stopStreaming(session);
+                session.pausedWhileHidden = true;
+            } else if (shownQueries.has(session.uri.query) && session.pausedWhileHidden) {
+                // don't wait
+                /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+                this.restart(session.uri);
+            }
+        }
+
+        editors.forEach(editor => this.decorate(editor));
+    }
+
+    private decorateEditors(doc: TextDocument): void {
+        if (doc.uri.scheme === containerLogsScheme) {
+            window.visibleTextEditors.filter(e => e.document === doc).forEach(e => this.decorate(e));
+        }
+    }
+
+    /**
+     * Colors the `[containerName]` prefixes, using the same color for all lines of a container
+     */
+    private decorate(editor: TextEditor): void {
+        const session = editor.document.uri.scheme === containerLogsScheme && this._sessions.get(editor.document.uri.query);
+        if (!session || session.containers.length < 2) {
+            return;
+        }
+
+        const ranges: Range[][] = this._decorationTypes.map(() => []);
+        for (let i = 0; i < editor.document.lineCount; i++) {
+            const match = prefixRegExp.exec(editor.document.lineAt(i).text);
+            const index = match ? session.containers.findIndex(c => c.containerName === match[1]) : -1;
+            if (match && index >= 0) {
+                ranges[index % ranges.length].push(new Range(i, 0, i, match[0].length));
+            }
+        }
+
+        this._decorationTypes.forEach((decorationType, index) => editor.setDecorations(decorationType, ranges[index]));
+    }
+
+    private getDisplayedLines(session: ILogsSession): string[] {
+        const nameWidth: number = Math.max(...session.containers.map(c => c.containerName.length));
+        return session.lines
+            .filter(l => matchesLogFilter(l, session.options))
+            .map(l => formatLogLine(l, session.options, nameWidth));
+    }
+
+    private render(session: ILogsSession): string {
+        const lines: string[] = [
+            session.containers.length === 1 ?
+                `Container: ${session.containers[0].containerName} (${session.containers[0].containerId.slice(0, 12)})` :
+                `Containers: ${session.containers.map(c => c.containerName).join(', ')}`,
+            `Showing: ${describeLogsOptions(session.options)}`,
+        ];
+
+        for (const [containerName, error] of session.errors) {
+            lines.push(session.containers.length === 1 ? `Unable to stream logs: ${error}` : `Unable to stream logs of "${containerName}": ${error}`);
+        }
+
+        if (session.streams.size === 0 && session.errors.size === 0) {
+            lines.push(`Not following. The container${session.containers.length === 1 ? ' may have' : 's may have'} stopped--use "Restart Following Logs" to try again.`);
+        }
+
+        const displayedLines: string[] = this.getDisplayedLines(session);
+        lines.push('', ...(displayedLines.length > 0 ? displayedLines : [session.lines.length > 0 ? 'No lines match the filter.' : 'Waiting for logs...']));
+        return lines.join('\n');
+    }
+}
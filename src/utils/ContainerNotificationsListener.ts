@@ -0,0 +1,156 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container } from "dockerode";
+import { Disposable, MessageItem, TextDocument, window, workspace } from "vscode";
+import { callWithTelemetryAndErrorHandling, IActionContext, openReadOnlyJson } from "vscode-azureextensionui";
+import { configPrefix } from "../constants";
+import { ext } from "../extensionVariables";
+import { callDockerodeWithErrorHandling } from "./callDockerodeWithErrorHandling";
+import { getContainerLogsUri } from "./ContainerLogsDocumentProvider";
+import { ContainerNotificationScope, getContainerNotification, IContainerNotification } from "./containerNotifications";
+import { IDockerEvent } from "./DockerEventsListener";
+
+const settingName: string = 'containers.notifications';
+
+// `docker stop` sends SIGTERM and waits 10 seconds by default before sending SIGKILL, so a container can die a while after it was killed
+const expectedExitWindow: number = 30 * 1000;
+
+// Only these signals are meant to stop a container (others, like SIGHUP, usually just ask it to reload). Events have the signal's number.
+const stopSignalRegExp: RegExp = /^(2|9|15|(SIG)?(INT|KILL|TERM))$/;
+
+// Containers with a restart policy can die over and over, so the same notification is only shown once in this window
+const repeatWindow: number = 60 * 1000;
+
+const viewLogsItem: MessageItem = { title: 'View Logs' };
+const restartItem: MessageItem = { title: 'Restart' };
+const inspectItem: MessageItem = { title: 'Inspect' };
+
+/**
+ * Notifies when containers exit with a non-zero code, run out of memory or become unhealthy, based on the shared Docker events stream.
+ * Exits after a container was killed (e.g. `docker stop` or restarting it) are expected and not reported.
+ */
+export class ContainerNotificationsListener implements Disposable {
+    private readonly _disposables: Disposable[] = [];
+    private _eventDisposables: Disposable[] = [];
+
+    /**
+     * The time of the last `kill` (with a signal that stops the container) or `oom` event, by container id
+     */
+    private readonly _expectedExits: Map<string, number> = new Map<string, number>();
+
+    /**
+     * The time a notification was last shown, by container id and kind
+     */
+    private readonly _lastNotified: Map<string, number> = new Map<string, number>();
+
+    public constructor() {
+        this._disposables.push(workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(`${configPrefix}.${settingName}`)) {
+                this.update();
+            }
+        }));
+    }
+
+    public static register(): Disposable {
+        const listener = new ContainerNotificationsListener();
+        listener.update();
+        return listener;
+    }
+
+    public dispose(): void {
+        this.stopListening();
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
+    }
+
+    private get scope(): ContainerNotificationScope {
+        return workspace.getConfiguration(configPrefix).get<ContainerNotificationScope>(settingName, 'Workspace');
+    }
+
+    private update(): void {
+        this.stopListening();
+        if (this.scope === 'None') {
+            return;
+        }
+
+        this._eventDisposables.push(ext.dockerEvents.onDidReceiveEvent(event => this.onDockerEvent(event)));
+
+        // The events listener keeps trying to reconnect if this fails (e.g. until the daemon is started)
+        // don't wait
+        /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+        ext.dockerEvents.listen();
+    }
+
+    private stopListening(): void {
+        for (const disposable of this._eventDisposables) {
+            disposable.dispose();
+        }
+        this._eventDisposables = [];
+    }
+
+    private onDockerEvent(event: IDockerEvent): void {
+        if (event.Type !== 'container') {
+            return;
+        }
+
+        const now: number = Date.now();
+        if (event.Action === 'die') {
+            const expectedExit: number | undefined = this._expectedExits.get(event.Actor.ID);
+            this._expectedExits.delete(event.Actor.ID);
+            if (expectedExit !== undefined && now - expectedExit < expectedExitWindow) {
+                return;
+            }
+        } else if ((event.Action === 'kill' && stopSignalRegExp.test((event.Actor.Attributes || {}).signal || '')) || event.Action === 'oom') {
+            // An OOM is reported on its own, so the exit that follows it is expected too
+            this._expectedExits.set(event.Actor.ID, now);
+        } else if (event.Action === 'destroy') {
+            this._expectedExits.delete(event.Actor.ID);
+            for (const key of Array.from(this._lastNotified.keys()).filter(k => k.startsWith(`${event.Actor.ID}:`))) {
+                this._lastNotified.delete(key);
+            }
+        }
+
+        const workspaceFolderPaths: string[] = (workspace.workspaceFolders || []).map(f => f.uri.fsPath);
+        const notification: IContainerNotification | undefined = getContainerNotification(event, this.scope, workspaceFolderPaths);
+        if (notification) {
+            const key: string = `${notification.containerId}:${notification.kind}`;
+            const lastNotified: number | undefined = this._lastNotified.get(key);
+            if (lastNotified === undefined || now - lastNotified >= repeatWindow) {
+                this._lastNotified.set(key, now);
+
+                // don't wait
+                /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+                this.showNotification(notification);
+            }
+        }
+    }
+
+    private async showNotification(notification: IContainerNotification): Promise<void> {
+        const item: MessageItem | undefined = await window.showWarningMessage(notification.message, viewLogsItem, restartItem, inspectItem);
+        if (!item) {
+            return;
+        }
+
+        await callWithTelemetryAndErrorHandling('containerNotification.action', async (context: IActionContext) => {
+            context.telemetry.properties.kind = notification.kind;
+            context.telemetry.properties.action = item.title;
+
+            const container: Container = ext.dockerode.getContainer(notification.containerId);
+            if (item === viewLogsItem) {
+                const doc: TextDocument = await workspace.openTextDocument(getContainerLogsUri([{ containerId: notification.containerId, containerName: notification.containerName }]));
+                await window.showTextDocument(doc, { preview: false });
+            } else if (item === restartItem) {
+                // eslint-disable-next-line @typescript-eslint/promise-function-async
+                await callDockerodeWithErrorHandling(() => container.restart(), context);
+            } else {
+                // eslint-disable-next-line @typescript-eslint/promise-function-async
+                const inspectInfo = await callDockerodeWithErrorHandling(() => container.inspect(), context);
+                await openReadOnlyJson({ label: notification.containerName, fullId: notification.containerId }, inspectInfo);
+            }
+        });
+    }
+}
@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Disposable, Event, EventEmitter, TextDocument, TextDocumentContentProvider, Uri, workspace } from "vscode";
+import { parseError } from "vscode-azureextensionui";
+import { ext } from "../extensionVariables";
+
+const containerProcessesScheme: string = 'docker-container-processes';
+const refreshInterval: number = 2000;
+
+/**
+ * The response of `container.top()` (`GET /containers/{id}/top`), which isn't typed by dockerode
+ */
+interface IContainerTop {
+    Titles: string[];
+    Processes: string[][] | null;
+}
+
+export function getContainerProcessesUri(containerId: string, containerName: string): Uri {
+    return Uri.parse(`${containerProcessesScheme}:/${encodeURIComponent(containerName)}.processes?${containerId}`);
+}
+
+/**
+ * Shows the processes running in a container (the same as `docker top`) in a read-only document that refreshes for as long as it's open
+ */
+export class ContainerProcessesDocumentProvider implements TextDocumentContentProvider, Disposable {
+    private readonly _onDidChangeEmitter: EventEmitter<Uri> = new EventEmitter<Uri>();
+    private readonly _timers: Map<string, NodeJS.Timer> = new Map<string, NodeJS.Timer>();
+    private readonly _refreshing: Set<string> = new Set<string>();
+    private readonly _disposables: Disposable[] = [];
+
+    public constructor() {
+        this._disposables.push(workspace.onDidCloseTextDocument(doc => this.onDidCloseTextDocument(doc)));
+    }
+
+    public static register(): Disposable {
+        const provider = new ContainerProcessesDocumentProvider();
+        return Disposable.from(
+            workspace.registerTextDocumentContentProvider(containerProcessesScheme, provider),
+            provider
+        );
+    }
+
+    public get onDidChange(): Event<Uri> {
+        return this._onDidChangeEmitter.event;
+    }
+
+    public async provideTextDocumentContent(uri: Uri): Promise<string> {
+        const containerId = uri.query;
+        const containerName = decodeURIComponent(uri.path.replace(/^\//, '').replace(/\.processes$/, ''));
+
+        if (!this._timers.has(containerId)) {
+            this._timers.set(containerId, setInterval(() => this.refresh(containerId, uri), refreshInterval));
+        }
+
+        const lines: string[] = [
+            `Container: ${containerName} (${containerId.slice(0, 12)})`,
+            `Last updated: ${new Date().toLocaleTimeString()}`,
+        ];
+
+        this._refreshing.add(containerId);
+        try {
+            const top = <IContainerTop>await ext.dockerode.getContainer(containerId).top();
+            const processes: string[][] = top.Processes || [];
+            lines.push(`Processes: ${processes.length}`, '', ...formatTable(top.Titles, processes));
+        } catch (error) {
+            // Keep refreshing, e.g. in case the container is started again
+            lines.push(`Unable to list processes: ${parseError(error).message}`);
+        } finally {
+            this._refreshing.delete(containerId);
+        }
+
+        return lines.join('\n');
+    }
+
+    public dispose(): void {
+        for (const timer of this._timers.values()) {
+            clearInterval(timer);
+        }
+        this._timers.clear();
+
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
+
+        this._onDidChangeEmitter.dispose();
+    }
+
+    private refresh(containerId: string, uri: Uri): void {
+        // Skip this refresh if the last one is still waiting on the daemon, rather than piling up more calls
+        if (!this._refreshing.has(containerId)) {
+            this._onDidChangeEmitter.fire(uri);
+        }
+    }
+
+    private onDidCloseTextDocument(doc: TextDocument): void {
+        if (doc.uri.scheme === containerProcessesScheme) {
+            const timer = this._timers.get(doc.uri.query);
+            if (timer) {
+                clearInterval(timer);
+                this._timers.delete(doc.uri.query);
+            }
+        }
+    }
+}
+
+/**
+ * Aligns the columns like `docker top`. The last column (usually the command) isn't padded.
+ */
+function formatTable(titles: string[], rows: string[][]): string[] {
+    const widths: number[] = titles.map((title, index) => Math.max(title.length, ...rows.map(r => (r[index] || '').length)));
+    return [titles, ...rows].map(row => row.map((cell, index) => index < row.length - 1 ? (cell || '').padEnd(widths[index]) : cell).join('  ').trimRight());
+}
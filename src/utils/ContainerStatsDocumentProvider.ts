@@ -0,0 +1,200 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Disposable, Event, EventEmitter, TextDocument, TextDocumentContentProvider, TextEditor, Uri, window, workspace } from "vscode";
+import { parseError } from "vscode-azureextensionui";
+import { ext } from "../extensionVariables";
+import { IContainerStatsEvent, IContainerStatsSample } from "./ContainerStatsManager";
+import { formatBytes } from "./formatBytes";
+
+const containerStatsScheme: string = 'docker-container-stats';
+
+// Only the most recent samples are listed in the document, but the full session history is used for the summary
+const maxHistoryRows: number = 120;
+
+export function getContainerStatsUri(containerId: string, containerName: string): Uri {
+    return Uri.parse(`${containerStatsScheme}:/${encodeURIComponent(containerName)}.stats?${containerId}`);
+}
+
+/**
+ * Shows an auto-updating read-only document with the resource usage of a container, streaming samples for as long as the document is open
+ */
+export class ContainerStatsDocumentProvider implements TextDocumentContentProvider, Disposable {
+    private readonly _onDidChangeEmitter: EventEmitter<Uri> = new EventEmitter<Uri>();
+    private readonly _openDocuments: Map<string, Uri> = new Map<string, Uri>();
+    private readonly _streams: Map<string, Disposable> = new Map<string, Disposable>();
+    private readonly _streamErrors: Map<string, string> = new Map<string, string>();
+    private readonly _startingStreams: Set<string> = new Set<string>();
+    private readonly _disposables: Disposable[] = [];
+
+    public constructor() {
+        this._disposables.push(ext.containerStats.onDidReceiveSample(e => this.onDidReceiveSample(e)));
+        this._disposables.push(workspace.onDidCloseTextDocument(doc => this.onDidCloseTextDocument(doc)));
+        this._disposables.push(window.onDidChangeVisibleTextEditors(editors => this.onDidChangeVisibleTextEditors(editors)));
+    }
+
+    public static register(): Disposable {
+        const provider = new ContainerStatsDocumentProvider();
+        return Disposable.from(
+            workspace.registerTextDocumentContentProvider(containerStatsScheme, provider),
+            provider
+        );
+    }
+
+    public get onDidChange(): Event<Uri> {
+        return this._onDidChangeEmitter.event;
+    }
+
+    public async provideTextDocumentContent(uri: Uri): Promise<string> {
+        const containerId = uri.query;
+        const containerName = decodeURIComponent(uri.path.replace(/^\//, '').replace(/\.stats$/, ''));
+
+        if (!this._openDocuments.has(containerId)) {
+            this._openDocuments.set(containerId, uri);
+            await this.startStreaming(containerId);
+        }
+
+        return this.render(containerId, containerName);
+    }
+
+    public dispose(): void {
+        for (const stream of this._streams.values()) {
+            stream.dispose();
+        }
+        this._streams.clear();
+
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
+
+        this._onDidChangeEmitter.dispose();
+    }
+
+    private async startStreaming(containerId: string): Promise<void> {
+        this._startingStreams.add(containerId);
+        try {
+            const previousStream = this._streams.get(containerId);
+            if (previousStream) {
+                previousStream.dispose();
+                this._streams.delete(containerId);
+            }
+
+            const stream = await ext.containerStats.startStreaming(containerId);
+            if (this._openDocuments.has(containerId)) {
+                this._streams.set(containerId, stream);
+                this._streamErrors.delete(containerId);
+            } else {
+                stream.dispose(); // The document was closed in the meantime
+            }
+        } catch (error) {
+            this._streamErrors.set(containerId, parseError(error).message);
+        } finally {
+            this._startingStreams.delete(containerId);
+        }
+    }
+
+    /**
+     * A document that's shown again may not get its content provided again (it's only disposed a while after being closed), so this is
+     * where streams that stopped, e.g. because the container was restarted, are started again
+     */
+    private onDidChangeVisibleTextEditors(editors: TextEditor[]): void {
+        for (const editor of editors) {
+            const uri = editor.document.uri;
+            const containerId = uri.query;
+            if (uri.scheme === containerStatsScheme && this._openDocuments.has(containerId) && !this._startingStreams.has(containerId) && !ext.containerStats.isStreaming(containerId)) {
+                // don't wait
+                /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+                this.startStreaming(containerId).then(() => this._onDidChangeEmitter.fire(uri));
+            }
+        }
+    }
+
+    private onDidReceiveSample(e: IContainerStatsEvent): void {
+        const uri = this._openDocuments.get(e.containerId);
+        if (uri) {
+            this._onDidChangeEmitter.fire(uri);
+        }
+    }
+
+    private onDidCloseTextDocument(doc: TextDocument): void {
+        if (doc.uri.scheme === containerStatsScheme) {
+            const containerId = doc.uri.query;
+            this._openDocuments.delete(containerId);
+            this._streamErrors.delete(containerId);
+
+            const stream = this._streams.get(containerId);
+            if (stream) {
+                stream.dispose();
+                this._streams.delete(containerId);
+            }
+        }
+    }
+
+    private render(containerId: string, containerName: string): string {
+        const history: IContainerStatsSample[] = ext.containerStats.getHistory(containerId);
+        const lines: string[] = [
+            `Container: ${containerName} (${containerId.slice(0, 12)})`,
+        ];
+
+        const streamError = this._streamErrors.get(containerId);
+        if (streamError) {
+            lines.push(`Unable to stream stats: ${streamError}`);
+        } else if (!ext.containerStats.isStreaming(containerId)) {
+            lines.push('Not streaming. The container may have stopped--switch to another editor and back to this document to try again.');
+        }
+
+        if (history.length === 0) {
+            lines.push('', 'Waiting for stats...');
+            return lines.join('\n');
+        }
+
+        const latest = history[history.length - 1];
+        const first = history[0];
+        const cpuValues = history.map(s => s.cpuPercent);
+        const memoryValues = history.map(s => s.memoryUsage);
+        const memoryChange = latest.memoryUsage - first.memoryUsage;
+
+        lines.push(
+            `Last updated: ${new Date(latest.time).toLocaleTimeString()}`,
+            `Session history: ${history.length} sample(s) since ${new Date(first.time).toLocaleTimeString()}`,
+            '',
+            formatRow(['', 'Current', 'Min', 'Max', 'Average']),
+            formatRow(['CPU %', formatPercent(latest.cpuPercent), formatPercent(Math.min(...cpuValues)), formatPercent(Math.max(...cpuValues)), formatPercent(average(cpuValues))]),
+            formatRow(['Memory', formatBytes(latest.memoryUsage), formatBytes(Math.min(...memoryValues)), formatBytes(Math.max(...memoryValues)), formatBytes(average(memoryValues))]),
+            '',
+            `Memory limit: ${latest.memoryLimit ? formatBytes(latest.memoryLimit) : 'none'}`,
+            `Memory change this session: ${memoryChange >= 0 ? '+' : '-'}${formatBytes(Math.abs(memoryChange))}`,
+            `Network I/O: ${formatBytes(latest.networkRx)} / ${formatBytes(latest.networkTx)}`,
+            `Block I/O: ${formatBytes(latest.blockRead)} / ${formatBytes(latest.blockWrite)}`,
+            `PIDs: ${latest.pids}`,
+            '',
+            formatRow(['Time', 'CPU %', 'Memory', 'Net I/O', 'Block I/O']),
+        );
+
+        for (const sample of history.slice(-maxHistoryRows).reverse()) {
+            lines.push(formatRow([
+                new Date(sample.time).toLocaleTimeString(),
+                formatPercent(sample.cpuPercent),
+                formatBytes(sample.memoryUsage),
+                `${formatBytes(sample.networkRx)} / ${formatBytes(sample.networkTx)}`,
+                `${formatBytes(sample.blockRead)} / ${formatBytes(sample.blockWrite)}`,
+            ]));
+        }
+
+        return lines.join('\n');
+    }
+}
+
+function formatRow(columns: string[]): string {
+    return columns.map(c => c.padEnd(20)).join('').trimRight();
+}
+
+function formatPercent(value: number): string {
+    return `${value.toFixed(2)}%`;
+}
+
+function average(values: number[]): number {
+    return values.reduce((total, v) => total + v, 0) / values.length;
+}
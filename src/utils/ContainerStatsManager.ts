@@ -0,0 +1,310 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ContainerStats } from "dockerode";
+import { Disposable, Event, EventEmitter } from "vscode";
+import { LineSplitter } from "../debugging/coreclr/lineSplitter";
+import { ext } from "../extensionVariables";
+
+// Roughly an hour of history per container when streaming (the daemon sends a sample every second)
+const maxSamplesPerContainer: number = 3600;
+
+export interface IContainerStatsSample {
+    time: number;
+    cpuPercent: number;
+    memoryUsage: number;
+    memoryLimit: number;
+    networkRx: number;
+    networkTx: number;
+    blockRead: number;
+    blockWrite: number;
+    pids: number;
+}
+
+export interface IContainerStatsEvent {
+    containerId: string;
+    sample: IContainerStatsSample;
+}
+
+// Not exhaustive--only the properties we're interested in. The typings for blkio_stats are empty and the memory stats differ between cgroup v1 and v2
+interface IRawContainerStats extends ContainerStats {
+    /* eslint-disable-next-line camelcase */
+    blkio_stats: {
+        /* eslint-disable-next-line camelcase */
+        io_service_bytes_recursive?: { op: string; value: number }[] | null;
+    };
+}
+
+interface IStatsStream {
+    stream: NodeJS.ReadableStream;
+    lineSplitter: LineSplitter;
+    refCount: number;
+}
+
+/**
+ * Calculates CPU and memory usage the same way as `docker stats`
+ */
+export function parseContainerStats(stats: ContainerStats): IContainerStatsSample {
+    const raw = <IRawContainerStats>stats;
+    const memory = getMemoryUsage(raw);
+    const network = getNetworkIO(raw);
+    const block = getBlockIO(raw);
+
+    return {
+        time: raw.read ? new Date(raw.read).valueOf() : Date.now(),
+        cpuPercent: getCpuPercent(raw),
+        memoryUsage: memory.usage,
+        memoryLimit: memory.limit,
+        networkRx: network.rx,
+        networkTx: network.tx,
+        blockRead: block.read,
+        blockWrite: block.write,
+        pids: raw.pid_stats && raw.pid_stats.current || 0,
+    };
+}
+
+function getCpuPercent(raw: IRawContainerStats): number {
+    if (!raw.cpu_stats || !raw.precpu_stats || !raw.cpu_stats.cpu_usage || !raw.precpu_stats.cpu_usage) {
+        return 0;
+    }
+
+    const cpuDelta = raw.cpu_stats.cpu_usage.total_usage - raw.precpu_stats.cpu_usage.total_usage;
+    const systemDelta = raw.cpu_stats.system_cpu_usage - raw.precpu_stats.system_cpu_usage;
+    const onlineCpus = raw.cpu_stats.online_cpus || (raw.cpu_stats.cpu_usage.percpu_usage || []).length || 1;
+    return cpuDelta > 0 && systemDelta > 0 ? cpuDelta / systemDelta * onlineCpus * 100 : 0;
+}
+
+function getMemoryUsage(raw: IRawContainerStats): { usage: number, limit: number } {
+    if (!raw.memory_stats || raw.memory_stats.usage === undefined) {
+        return { usage: 0, limit: 0 };
+    }
+
+    const memStats: { [key: string]: number } = <{}>raw.memory_stats.stats || {};
+    // cgroup v1 reports total_inactive_file, cgroup v2 reports inactive_file
+    const inactiveFile = memStats.total_inactive_file !== undefined ? memStats.total_inactive_file : memStats.inactive_file || 0;
+    return {
+        usage: Math.max(raw.memory_stats.usage - inactiveFile, 0),
+        limit: raw.memory_stats.limit || 0
+    };
+}
+
+function getNetworkIO(raw: IRawContainerStats): { rx: number, tx: number } {
+    const result = { rx: 0, tx: 0 };
+    for (const network of Object.values(raw.networks || {})) {
+        result.rx += network.rx_bytes;
+        result.tx += network.tx_bytes;
+    }
+    return result;
+}
+
+function getBlockIO(raw: IRawContainerStats): { read: number, write: number } {
+    const result = { read: 0, write: 0 };
+    for (const entry of (raw.blkio_stats && raw.blkio_stats.io_service_bytes_recursive) || []) {
+        if (/^read$/i.test(entry.op)) {
+            result.read += entry.value;
+        } else if (/^write$/i.test(entry.op)) {
+            result.write += entry.value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Collects resource usage for containers and keeps the history for the rest of the session, so that trends (e.g. memory leaks) can be spotted
+ */
+export class ContainerStatsManager implements Disposable {
+    private readonly _onDidReceiveSampleEmitter: EventEmitter<IContainerStatsEvent> = new EventEmitter<IContainerStatsEvent>();
+    private readonly _history: Map<string, IContainerStatsSample[]> = new Map<string, IContainerStatsSample[]>();
+    private readonly _streams: Map<string, IStatsStream> = new Map<string, IStatsStream>();
+    private readonly _watched: Map<string, Disposable> = new Map<string, Disposable>();
+    private readonly _eventsDisposable: Disposable;
+
+    public constructor() {
+        this._eventsDisposable = ext.dockerEvents.onDidReceiveEvent(event => {
+            if (event.Type === 'container' && event.Action === 'destroy') {
+                this.forget(event.Actor.ID);
+            }
+        });
+    }
+
+    public get onDidReceiveSample(): Event<IContainerStatsEvent> {
+        return this._onDidReceiveSampleEmitter.event;
+    }
+
+    public getHistory(containerId: string): IContainerStatsSample[] {
+        return this._history.get(containerId) || [];
+    }
+
+    public getLatestSample(containerId: string): IContainerStatsSample | undefined {
+        const history = this.getHistory(containerId);
+        return history.length > 0 ? history[history.length - 1] : undefined;
+    }
+
+    /**
+     * Streams samples in the background for the containers shown in the explorer, replacing the previously watched containers.
+     * Samples arrive through `onDidReceiveSample`, independent of when the explorer refreshes.
+     */
+    public watch(containerIds: string[]): void {
+        for (const [containerId, disposable] of Array.from(this._watched.entries())) {
+            if (!containerIds.includes(containerId)) {
+                disposable.dispose();
+                this._watched.delete(containerId);
+            }
+        }
+
+        for (const containerId of containerIds) {
+            if (!this._watched.has(containerId)) {
+                // Reserve the slot right away so the stream isn't started twice
+                this._watched.set(containerId, new Disposable(() => { /* not started yet */ }));
+
+                // don't wait
+                /* eslint-disable-next-line @typescript-eslint/no-floating-promises */
+                this.startWatching(containerId);
+            }
+        }
+    }
+
+    /**
+     * Drops the history of containers that no longer exist
+     * @param existingContainerIds The ids of all containers, including stopped ones
+     */
+    public pruneHistory(existingContainerIds: string[]): void {
+        for (const containerId of Array.from(this._history.keys())) {
+            if (!existingContainerIds.includes(containerId)) {
+                this.forget(containerId);
+            }
+        }
+    }
+
+    /**
+     * Streams samples for a container until the returned disposable is disposed. Multiple callers share the same stream.
+     */
+    public async startStreaming(containerId: string): Promise<Disposable> {
+        let statsStream = this._streams.get(containerId);
+        if (statsStream) {
+            statsStream.refCount++;
+        } else {
+            // The typings assume `stream: false`
+            const stream = <NodeJS.ReadableStream><unknown>await ext.dockerode.getContainer(containerId).stats({ stream: true });
+            const lineSplitter = new LineSplitter();
+            lineSplitter.onLine(line => this.onLine(containerId, line));
+            stream.on('data', (chunk: Buffer | string) => lineSplitter.write(chunk.toString()));
+            stream.on('error', () => this.onStreamClosed(containerId, stream));
+            stream.on('end', () => this.onStreamClosed(containerId, stream));
+
+            statsStream = { stream, lineSplitter, refCount: 1 };
+            this._streams.set(containerId, statsStream);
+        }
+
+        let disposed = false;
+        return new Disposable(() => {
+            const current = this._streams.get(containerId);
+            if (!disposed && current && current === statsStream) {
+                disposed = true;
+                current.refCount--;
+                if (current.refCount <= 0) {
+                    this.closeStream(containerId);
+                }
+            }
+        });
+    }
+
+    public isStreaming(containerId: string): boolean {
+        return this._streams.has(containerId);
+    }
+
+    public dispose(): void {
+        this._eventsDisposable.dispose();
+        this.watch([]);
+        for (const containerId of Array.from(this._streams.keys())) {
+            this.closeStream(containerId);
+        }
+
+        this._onDidReceiveSampleEmitter.dispose();
+    }
+
+    private async startWatching(containerId: string): Promise<void> {
+        let disposable: Disposable;
+        try {
+            disposable = await this.startStreaming(containerId);
+        } catch {
+            // Ignore--the properties will just show as "<none>"
+            this._watched.delete(containerId);
+            return;
+        }
+
+        // The container may have been unwatched while the stream was starting
+        if (this._watched.has(containerId)) {
+            this._watched.set(containerId, disposable);
+        } else {
+            disposable.dispose();
+        }
+    }
+
+    private forget(containerId: string): void {
+        const watched = this._watched.get(containerId);
+        if (watched) {
+            watched.dispose();
+            this._watched.delete(containerId);
+        }
+
+        this._history.delete(containerId);
+    }
+
+    private onLine(containerId: string, line: string): void {
+        if (!line) {
+            return;
+        }
+
+        let stats: ContainerStats;
+        try {
+            stats = <ContainerStats>JSON.parse(line);
+        } catch {
+            return; // Ignore anything we can't parse
+        }
+
+        this.addSample(containerId, parseContainerStats(stats));
+    }
+
+    private addSample(containerId: string, sample: IContainerStatsSample): void {
+        let history = this._history.get(containerId);
+        if (!history) {
+            history = [];
+            this._history.set(containerId, history);
+        }
+
+        history.push(sample);
+        if (history.length > maxSamplesPerContainer) {
+            history.splice(0, history.length - maxSamplesPerContainer);
+        }
+
+        this._onDidReceiveSampleEmitter.fire({ containerId, sample });
+    }
+
+    private onStreamClosed(containerId: string, stream: NodeJS.ReadableStream): void {
+        // Ignore streams that were already replaced or closed on purpose
+        const statsStream = this._streams.get(containerId);
+        if (statsStream && statsStream.stream === stream) {
+            this.closeStream(containerId);
+
+            // Watch again if the container is started again
+            this._watched.delete(containerId);
+        }
+    }
+
+    private closeStream(containerId: string): void {
+        const statsStream = this._streams.get(containerId);
+        this._streams.delete(containerId);
+
+        if (statsStream) {
+            statsStream.lineSplitter.dispose();
+            statsStream.stream.removeAllListeners('data');
+            const destroyable = <{ destroy?(): void }><unknown>statsStream.stream;
+            if (destroyable.destroy) {
+                destroyable.destroy();
+            }
+        }
+    }
+}
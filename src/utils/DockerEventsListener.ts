@@ -0,0 +1,194 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Disposable, Event, EventEmitter } from "vscode";
+import { LineSplitter } from "../debugging/coreclr/lineSplitter";
+import { ext } from "../extensionVariables";
+
+export type DockerEventType = 'container' | 'image' | 'network' | 'volume' | 'daemon' | 'plugin' | 'service' | 'node' | 'secret' | 'config';
+
+// Not exhaustive--only the properties we're interested in
+export interface IDockerEvent {
+    Type: DockerEventType;
+    Action: string;
+    Actor: {
+        ID: string;
+        Attributes?: { [key: string]: string };
+    };
+    time: number;
+}
+
+// Reconnect attempts start after a second and back off to once a minute (e.g. while the daemon is stopped)
+const initialReconnectDelay: number = 1000;
+const maxReconnectDelay: number = 60 * 1000;
+
+/**
+ * Wraps the `docker events` stream so that multiple consumers (e.g. the explorer trees) can share a single connection to the daemon.
+ * Once something has listened, the stream is reconnected whenever it drops or can't be opened.
+ */
+export class DockerEventsListener implements Disposable {
+    private readonly _onDidReceiveEventEmitter: EventEmitter<IDockerEvent> = new EventEmitter<IDockerEvent>();
+    private readonly _onDidChangeListeningEmitter: EventEmitter<boolean> = new EventEmitter<boolean>();
+    private _stream: NodeJS.ReadableStream | undefined;
+    private _lineSplitter: LineSplitter | undefined;
+    private _connecting: Promise<boolean> | undefined;
+    private _isWanted: boolean = false;
+    private _reconnectDelay: number = initialReconnectDelay;
+    private _reconnectTimeoutId: NodeJS.Timer | undefined;
+
+    public get onDidReceiveEvent(): Event<IDockerEvent> {
+        return this._onDidReceiveEventEmitter.event;
+    }
+
+    /**
+     * Fires `true` when the stream is (re)connected and `false` when it drops
+     */
+    public get onDidChangeListening(): Event<boolean> {
+        return this._onDidChangeListeningEmitter.event;
+    }
+
+    public get isListening(): boolean {
+        return !!this._stream;
+    }
+
+    /**
+     * Starts listening to the events stream if not already listening
+     * @returns `true` if the stream is connected, `false` if it could not be opened
+     */
+    public async listen(): Promise<boolean> {
+        this._isWanted = true;
+        if (this._stream) {
+            return true;
+        }
+
+        if (!this._connecting) {
+            this._connecting = this.connect();
+        }
+
+        try {
+            const connected = await this._connecting;
+            if (!connected) {
+                this.scheduleReconnect();
+            }
+
+            return connected;
+        } finally {
+            this._connecting = undefined;
+        }
+    }
+
+    /**
+     * Reconnects to the (potentially different) daemon, e.g. after the Docker host settings change. Does nothing if nothing has listened yet.
+     */
+    public async restart(): Promise<void> {
+        if (this._isWanted) {
+            const wasListening = this.isListening;
+            this.closeStream();
+            this.cancelReconnect();
+            this._reconnectDelay = initialReconnectDelay;
+            if (!await this.listen() && wasListening) {
+                this._onDidChangeListeningEmitter.fire(false);
+            }
+        }
+    }
+
+    public dispose(): void {
+        this._isWanted = false;
+        this.cancelReconnect();
+        this.closeStream();
+        this._onDidReceiveEventEmitter.dispose();
+        this._onDidChangeListeningEmitter.dispose();
+    }
+
+    private async connect(): Promise<boolean> {
+        if (ext.dockerodeInitError !== undefined) {
+            return false;
+        }
+
+        let stream: NodeJS.ReadableStream;
+        try {
+            stream = await ext.dockerode.getEvents();
+        } catch {
+            return false;
+        }
+
+        const lineSplitter = new LineSplitter();
+        lineSplitter.onLine(line => this.onLine(line));
+
+        stream.on('data', (chunk: Buffer | string) => lineSplitter.write(chunk.toString()));
+        stream.on('error', () => this.onStreamClosed(stream));
+        stream.on('end', () => this.onStreamClosed(stream));
+        stream.on('close', () => this.onStreamClosed(stream));
+
+        this._stream = stream;
+        this._lineSplitter = lineSplitter;
+        this._reconnectDelay = initialReconnectDelay;
+        this._onDidChangeListeningEmitter.fire(true);
+        return true;
+    }
+
+    private onLine(line: string): void {
+        if (!line) {
+            return;
+        }
+
+        let event: IDockerEvent;
+        try {
+            event = <IDockerEvent>JSON.parse(line);
+        } catch {
+            return; // Ignore anything we can't parse
+        }
+
+        if (event && event.Type && event.Action) {
+            this._onDidReceiveEventEmitter.fire(event);
+        }
+    }
+
+    private onStreamClosed(stream: NodeJS.ReadableStream): void {
+        // Ignore streams that were already replaced or closed on purpose
+        if (stream === this._stream) {
+            this.closeStream();
+            this._onDidChangeListeningEmitter.fire(false);
+            this.scheduleReconnect();
+        }
+    }
+
+    private scheduleReconnect(): void {
+        if (this._isWanted && this._reconnectTimeoutId === undefined) {
+            this._reconnectTimeoutId = setTimeout(
+                async () => {
+                    this._reconnectTimeoutId = undefined;
+                    this._reconnectDelay = Math.min(this._reconnectDelay * 2, maxReconnectDelay);
+                    await this.listen();
+                },
+                this._reconnectDelay);
+        }
+    }
+
+    private cancelReconnect(): void {
+        if (this._reconnectTimeoutId !== undefined) {
+            clearTimeout(this._reconnectTimeoutId);
+            this._reconnectTimeoutId = undefined;
+        }
+    }
+
+    private closeStream(): void {
+        const stream = this._stream;
+        this._stream = undefined;
+
+        if (this._lineSplitter) {
+            this._lineSplitter.dispose();
+            this._lineSplitter = undefined;
+        }
+
+        if (stream) {
+            stream.removeAllListeners('data');
+            const destroyable = <{ destroy?(): void }><unknown>stream;
+            if (destroyable.destroy) {
+                destroyable.destroy();
+            }
+        }
+    }
+}
@@ -13,6 +13,7 @@ export function addDockerSettingsToEnv(env: {}, oldEnv: {}): void {
     addDockerSettingToEnv("certPath", 'DOCKER_CERT_PATH', env, oldEnv);
     addDockerSettingToEnv("tlsVerify", 'DOCKER_TLS_VERIFY', env, oldEnv);
     addDockerSettingToEnv("machineName", 'DOCKER_MACHINE_NAME', env, oldEnv);
+    addDockerSettingToEnv("context", 'DOCKER_CONTEXT', env, oldEnv);
 }
 
 function addDockerSettingToEnv(settingKey: string, envVar: string, env: {}, oldEnv: {}): void {
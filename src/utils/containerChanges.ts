@@ -0,0 +1,53 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * An entry of `container.changes()` (`GET /containers/{id}/changes`), which isn't typed by dockerode
+ */
+export interface IContainerChange {
+    Path: string;
+
+    /**
+     * 0 is modified, 1 is added and 2 is deleted
+     */
+    Kind: number;
+}
+
+export type ContainerChangeKind = 'added' | 'changed' | 'deleted';
+
+export interface IContainerChanges {
+    added: string[];
+    changed: string[];
+    deleted: string[];
+}
+
+const changeKinds: ContainerChangeKind[] = ['changed', 'added', 'deleted'];
+
+/**
+ * Groups the changes to a container's filesystem by kind, the same as `docker diff`.
+ * Folders are listed as changed whenever anything inside them changes, so only the paths without changes below them are included.
+ */
+export function groupContainerChanges(changes: IContainerChange[] | null): IContainerChanges {
+    const result: IContainerChanges = { added: [], changed: [], deleted: [] };
+
+    const parentPaths = new Set<string>();
+    for (const change of changes || []) {
+        for (let index = change.Path.lastIndexOf('/'); index > 0; index = change.Path.lastIndexOf('/', index - 1)) {
+            parentPaths.add(change.Path.slice(0, index));
+        }
+    }
+
+    for (const change of changes || []) {
+        const kind: ContainerChangeKind | undefined = changeKinds[change.Kind];
+        if (kind && !parentPaths.has(change.Path)) {
+            result[kind].push(change.Path);
+        }
+    }
+
+    result.added.sort();
+    result.changed.sort();
+    result.deleted.sort();
+    return result;
+}
@@ -0,0 +1,127 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ContainerInspectInfo } from 'dockerode';
+
+export type ContainerDetailsCategoryType = 'environment' | 'mounts' | 'ports' | 'labels' | 'networks';
+
+export interface IContainerPortDetail {
+    containerPort: number;
+    protocol: string;
+    hostIp: string;
+    hostPort: string;
+}
+
+export interface IContainerDetail {
+    label: string;
+    description?: string;
+
+    /**
+     * The value copied by "Copy Value"
+     */
+    value: string;
+
+    /**
+     * Set for published ports
+     */
+    port?: IContainerPortDetail;
+
+    /**
+     * Set for mounts of named volumes
+     */
+    volumeName?: string;
+}
+
+export interface IContainerDetailsCategory {
+    type: ContainerDetailsCategoryType;
+    label: string;
+    details: IContainerDetail[];
+}
+
+// Not exhaustive--only the properties we're interested in. The typings are missing `Name` for volume mounts
+interface IMount {
+    Type?: string;
+    Name?: string;
+    Source: string;
+    Destination: string;
+    RW: boolean;
+}
+
+/**
+ * Gets the details shown under a container in the explorer. Categories without any details are left out.
+ */
+export function getContainerDetails(info: ContainerInspectInfo): IContainerDetailsCategory[] {
+    const categories: IContainerDetailsCategory[] = [
+        { type: 'environment', label: 'Environment', details: getEnvironment(info) },
+        { type: 'mounts', label: 'Mounts', details: getMounts(info) },
+        { type: 'ports', label: 'Published Ports', details: getPorts(info) },
+        { type: 'labels', label: 'Labels', details: getLabels(info) },
+        { type: 'networks', label: 'Networks', details: getNetworks(info) },
+    ];
+
+    return categories.filter(c => c.details.length > 0);
+}
+
+function getEnvironment(info: ContainerInspectInfo): IContainerDetail[] {
+    return (info.Config && info.Config.Env || []).map(variable => {
+        const separator = variable.indexOf('=');
+        const name = separator < 0 ? variable : variable.slice(0, separator);
+        const value = separator < 0 ? '' : variable.slice(separator + 1);
+        return { label: name, description: value, value };
+    });
+}
+
+function getMounts(info: ContainerInspectInfo): IContainerDetail[] {
+    return (<IMount[]>info.Mounts || []).map(mount => {
+        const volumeName: string | undefined = mount.Type === 'volume' && mount.Name ? mount.Name : undefined;
+        const source: string = volumeName || mount.Source;
+        return {
+            label: mount.Destination,
+            description: mount.RW ? source : `${source} (read-only)`,
+            value: source,
+            volumeName
+        };
+    });
+}
+
+function getPorts(info: ContainerInspectInfo): IContainerDetail[] {
+    const ports = info.NetworkSettings && info.NetworkSettings.Ports || {};
+    const details: IContainerDetail[] = [];
+    for (const portAndProtocol of Object.keys(ports)) {
+        const [port, protocol] = portAndProtocol.split('/');
+        // Exposed ports that aren't published have no mappings
+        for (const mapping of ports[portAndProtocol] || []) {
+            const hostIp = mapping.HostIp || '0.0.0.0';
+            const hostAddress = hostIp.includes(':') ? `[${hostIp}]:${mapping.HostPort}` : `${hostIp}:${mapping.HostPort}`;
+            details.push({
+                label: hostAddress,
+                description: `→ ${portAndProtocol}`,
+                value: hostAddress,
+                port: {
+                    containerPort: parseInt(port, 10),
+                    protocol: protocol || 'tcp',
+                    hostIp: mapping.HostIp,
+                    hostPort: mapping.HostPort
+                }
+            });
+        }
+    }
+
+    return details;
+}
+
+function getLabels(info: ContainerInspectInfo): IContainerDetail[] {
+    const labels: { [key: string]: string } = info.Config && info.Config.Labels || {};
+    return Object.keys(labels).sort().map(key => ({ label: key, description: labels[key], value: labels[key] }));
+}
+
+function getNetworks(info: ContainerInspectInfo): IContainerDetail[] {
+    const networks = info.NetworkSettings && info.NetworkSettings.Networks || {};
+    return Object.keys(networks).map(name => ({
+        label: name,
+        description: networks[name].IPAddress || undefined,
+        value: networks[name].IPAddress || name
+    }));
+}
@@ -0,0 +1,264 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container, Exec } from 'dockerode';
+import { IncomingMessage } from 'http';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import * as tar from 'tar';
+import { ext } from '../extensionVariables';
+
+export type ContainerFileType = 'file' | 'directory' | 'symlink';
+
+export interface IContainerFileInfo {
+    name: string;
+    path: string;
+    type: ContainerFileType;
+}
+
+// Lists the direct children of the directory passed as $1 as "<type> <name>" lines, using only POSIX shell builtins so it works on minimal images
+const listDirectoryScript: string = [
+    'cd -- "$1" || exit 1',
+    'for f in * .*; do',
+    '  if [ "$f" = . ] || [ "$f" = .. ]; then continue; fi',
+    '  if [ -d "$f" ]; then echo "d $f";',
+    '  elif [ -L "$f" ]; then echo "l $f";',
+    '  elif [ -e "$f" ]; then echo "f $f";',
+    '  fi',
+    'done'
+].join('\n');
+
+/**
+ * The stat of a path returned by the archive API (in the X-Docker-Container-Path-Stat header), which isn't typed by dockerode
+ */
+interface IContainerPathStat {
+    name: string;
+    mode: number;
+}
+
+// The mode is a Go os.FileMode, which keeps the type in its high bits
+const goModeDir: number = 2 ** 31;
+const goModeSymlink: number = 2 ** 27;
+
+// The archive API tars the whole tree under a directory, so listing with it gives up after this many entries
+const maxArchiveListEntries: number = 10000;
+
+/**
+ * Lists the contents of a directory in a container. Running containers are listed with `exec` (much faster for big directories), everything else
+ * falls back to the archive API which doesn't need a running process, but only works for directories that aren't too big since it reads everything under them.
+ */
+export async function listContainerDirectory(container: Container, dirPath: string, isRunning: boolean): Promise<IContainerFileInfo[]> {
+    let files: IContainerFileInfo[] | undefined;
+    if (isRunning) {
+        try {
+            files = await listWithExec(container, dirPath);
+        } catch {
+            // e.g. there's no shell in the image - fall back to the archive API
+        }
+    }
+
+    files = files || await listWithArchive(container, dirPath);
+    return files.sort((a, b) => {
+        if ((a.type === 'directory') !== (b.type === 'directory')) {
+            return a.type === 'directory' ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name);
+    });
+}
+
+/**
+ * Gets the type of a path in a container without reading it, from the stat the archive API returns in a header
+ */
+export async function getContainerPathType(container: Container, containerPath: string): Promise<ContainerFileType> {
+    const response: IncomingMessage = <IncomingMessage>await container.infoArchive({ path: containerPath });
+    response.resume();
+
+    const statHeader = response.headers['x-docker-container-path-stat'];
+    const stat = <IContainerPathStat>JSON.parse(Buffer.from(<string>statHeader, 'base64').toString());
+
+    if (hasModeBit(stat.mode, goModeDir)) {
+        return 'directory';
+    } else if (hasModeBit(stat.mode, goModeSymlink)) {
+        return 'symlink';
+    } else {
+        return 'file';
+    }
+}
+
+/**
+ * Reads the contents of a single file in a container
+ */
+export async function readContainerFile(container: Container, filePath: string): Promise<Buffer> {
+    const archive: NodeJS.ReadableStream = await container.getArchive({ path: filePath });
+    const chunks: Buffer[] = [];
+    let foundFile: boolean = false;
+    let foundOther: boolean = false;
+
+    await parseArchive(archive, entry => {
+        if (!foundFile && !foundOther) {
+            if (/^(File|OldFile|ContiguousFile)$/.test(entry.type)) {
+                foundFile = true;
+                entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+            } else {
+                foundOther = true;
+            }
+        }
+    });
+
+    if (!foundFile) {
+        throw new Error(`"${filePath}" is not a file.`);
+    }
+
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Copies a file or directory (recursively) from a container into a local directory
+ */
+export async function downloadFromContainer(container: Container, containerPath: string, localDir: string): Promise<void> {
+    const archive: NodeJS.ReadableStream = await container.getArchive({ path: containerPath });
+    await pipeToCompletion(archive, tar.x({ cwd: localDir }));
+}
+
+/**
+ * Copies local files or directories (recursively) into a directory in a container
+ */
+export async function uploadToContainer(container: Container, localPaths: string[], containerDir: string): Promise<void> {
+    for (const localPath of localPaths) {
+        const archive = tar.c({ cwd: path.dirname(localPath) }, [path.basename(localPath)]);
+        await container.putArchive(archive, { path: containerDir });
+    }
+}
+
+/**
+ * Joins paths inside a (Linux) container, regardless of the local OS
+ */
+export function joinContainerPath(dirPath: string, name: string): string {
+    return path.posix.join(dirPath, name);
+}
+
+function hasModeBit(mode: number, bit: number): boolean {
+    return Math.floor(mode / bit) % 2 === 1;
+}
+
+async function listWithExec(container: Container, dirPath: string): Promise<IContainerFileInfo[]> {
+    const stdout = await execInContainer(container, ['sh', '-c', listDirectoryScript, 'sh', dirPath]);
+    const files: IContainerFileInfo[] = [];
+    for (const line of stdout.split(/\r?\n/)) {
+        const match = /^([dlf]) (.+)$/.exec(line);
+        if (match) {
+            const type: ContainerFileType = match[1] === 'd' ? 'directory' : match[1] === 'l' ? 'symlink' : 'file';
+            files.push({ name: match[2], path: joinContainerPath(dirPath, match[2]), type });
+        }
+    }
+    return files;
+}
+
+async function listWithArchive(container: Container, dirPath: string): Promise<IContainerFileInfo[]> {
+    const archive: NodeJS.ReadableStream = await container.getArchive({ path: dirPath });
+    const filesMap = new Map<string, IContainerFileInfo>();
+    let entryCount: number = 0;
+
+    const isComplete: boolean = await parseArchive(archive, entry => {
+        if (++entryCount > maxArchiveListEntries) {
+            return false; // stop reading
+        }
+
+        // Entries are relative to the parent of dirPath (e.g. "etc/ssl/certs" when listing "/etc"), except when listing the root
+        const segments: string[] = entry.path.replace(/^\.?\/+/, '').replace(/\/+$/, '').split('/').filter(s => !!s);
+        if (dirPath !== '/') {
+            segments.shift();
+        }
+
+        if (segments.length > 0 && !filesMap.has(segments[0])) {
+            let type: ContainerFileType;
+            if (segments.length > 1 || entry.type === 'Directory') {
+                type = 'directory';
+            } else if (entry.type === 'SymbolicLink') {
+                type = 'symlink';
+            } else {
+                type = 'file';
+            }
+
+            filesMap.set(segments[0], { name: segments[0], path: joinContainerPath(dirPath, segments[0]), type });
+        }
+
+        return true;
+    });
+
+    if (!isComplete) {
+        throw new Error(`"${dirPath}" has too many files to list without a shell in the container.`);
+    }
+
+    return Array.from(filesMap.values());
+}
+
+async function execInContainer(container: Container, cmd: string[]): Promise<string> {
+    const exec: Exec = <Exec>await container.exec({ Cmd: cmd, AttachStdout: true, AttachStderr: true });
+    const stream = <NodeJS.ReadableStream>await exec.start({ hijack: true, stdin: false });
+
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+    stderr.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+
+    // The output is multiplexed since there's no TTY
+    // tslint:disable-next-line:no-unsafe-any
+    ext.dockerode.modem.demuxStream(stream, stdout, stderr);
+
+    await new Promise((resolve, reject) => {
+        stream.on('end', resolve);
+        stream.on('error', reject);
+    });
+
+    const inspectInfo = <{ ExitCode: number }>await exec.inspect();
+    if (inspectInfo.ExitCode !== 0) {
+        throw new Error(Buffer.concat(stderrChunks).toString() || `Command exited with code ${inspectInfo.ExitCode}.`);
+    }
+
+    return Buffer.concat(stdoutChunks).toString();
+}
+
+/**
+ * Calls back for each entry of an archive. If the callback returns false, the rest of the archive isn't read and false is returned.
+ */
+async function parseArchive(archive: NodeJS.ReadableStream, onEntry: (entry: tar.ReadEntry) => boolean | void): Promise<boolean> {
+    return await new Promise<boolean>((resolve, reject) => {
+        let isStopped: boolean = false;
+        const parser = tar.t({
+            onentry: entry => {
+                if (!isStopped && onEntry(<tar.ReadEntry><unknown>entry) === false) {
+                    isStopped = true;
+                    archive.unpipe(parser);
+                    // Closes the connection so the daemon stops sending the rest
+                    (<NodeJS.ReadableStream & { destroy(): void }>archive).destroy();
+                    resolve(false);
+                }
+            }
+        });
+
+        archive.on('error', err => {
+            if (!isStopped) {
+                reject(err);
+            }
+        });
+        parser.on('error', reject);
+        // node-tar emits 'close' once the last entry has been processed
+        parser.on('close', () => resolve(true));
+        archive.pipe(parser);
+    });
+}
+
+async function pipeToCompletion(source: NodeJS.ReadableStream, destination: NodeJS.WritableStream): Promise<void> {
+    await new Promise((resolve, reject) => {
+        source.on('error', reject);
+        destination.on('error', reject);
+        // node-tar emits 'close' once the last entry has been processed
+        destination.on('close', resolve);
+        source.pipe(destination);
+    });
+}
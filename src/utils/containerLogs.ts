@@ -0,0 +1,190 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { NodeStringDecoder, StringDecoder } from 'string_decoder';
+
+export type ContainerLogStream = 'stdout' | 'stderr';
+
+export interface IContainerLogLine {
+    stream: ContainerLogStream;
+
+    /**
+     * The RFC3339 timestamp the daemon added to the line, if timestamps were requested
+     */
+    timestamp?: string;
+    text: string;
+
+    /**
+     * Set when the logs of several containers are shown together
+     */
+    containerName?: string;
+}
+
+export interface IContainerLogsOptions {
+    timestamps: boolean;
+    stdout: boolean;
+    stderr: boolean;
+
+    /**
+     * A duration relative to now (like "10m") or a timestamp, the same as `docker logs --since`
+     */
+    since?: string;
+
+    /**
+     * The number of lines to show from the end of the logs, the same as `docker logs --tail`
+     */
+    tail?: number;
+
+    /**
+     * Only lines containing this text (case-insensitive) are shown
+     */
+    filter?: string;
+}
+
+export const defaultContainerLogsOptions: IContainerLogsOptions = {
+    timestamps: true,
+    stdout: true,
+    stderr: true,
+    tail: 1000,
+};
+
+// The size of the header the daemon adds to each frame of a multiplexed stream (containers without a TTY)
+const frameHeaderSize: number = 8;
+const timestampRegExp: RegExp = /^(\d{4}-\d{2}-\d{2}T\S+) ?(.*)$/;
+const timestampPartsRegExp: RegExp = /^([^.]+?)(?:\.(\d+))?Z$/;
+
+/**
+ * Splits the output of `container.logs()` into lines. Containers without a TTY send stdout and stderr multiplexed into frames with an 8-byte header,
+ * containers with a TTY send raw text (all of it as stdout).
+ */
+export class ContainerLogParser {
+    private _pending: Buffer = Buffer.alloc(0);
+    private readonly _decoders: { [stream in ContainerLogStream]: NodeStringDecoder } = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+    private readonly _partialLines: { [stream in ContainerLogStream]: string } = { stdout: '', stderr: '' };
+
+    public constructor(private readonly multiplexed: boolean, private readonly timestamps: boolean) {
+    }
+
+    /**
+     * Returns the lines completed by this chunk
+     */
+    public write(chunk: Buffer): IContainerLogLine[] {
+        if (!this.multiplexed) {
+            return this.addText('stdout', chunk);
+        }
+
+        const lines: IContainerLogLine[] = [];
+        this._pending = Buffer.concat([this._pending, chunk]);
+        while (this._pending.length >= frameHeaderSize) {
+            const size: number = this._pending.readUInt32BE(4);
+            if (this._pending.length < frameHeaderSize + size) {
+                break;
+            }
+
+            // 1 is stdout and 2 is stderr (0 is stdin, which isn't included in logs)
+            const stream: ContainerLogStream = this._pending[0] === 2 ? 'stderr' : 'stdout';
+            lines.push(...this.addText(stream, this._pending.slice(frameHeaderSize, frameHeaderSize + size)));
+            this._pending = this._pending.slice(frameHeaderSize + size);
+        }
+
+        return lines;
+    }
+
+    /**
+     * Returns any lines that weren't terminated by a newline
+     */
+    public end(): IContainerLogLine[] {
+        const lines: IContainerLogLine[] = [];
+        for (const stream of <ContainerLogStream[]>['stdout', 'stderr']) {
+            const text: string = this._partialLines[stream] + this._decoders[stream].end();
+            this._partialLines[stream] = '';
+            if (text) {
+                lines.push(this.parseLine(stream, text));
+            }
+        }
+
+        return lines;
+    }
+
+    private addText(stream: ContainerLogStream, data: Buffer): IContainerLogLine[] {
+        const parts: string[] = (this._partialLines[stream] + this._decoders[stream].write(data)).split('\n');
+        this._partialLines[stream] = parts.pop() || '';
+        return parts.map(p => this.parseLine(stream, p));
+    }
+
+    private parseLine(stream: ContainerLogStream, text: string): IContainerLogLine {
+        text = text.replace(/\r$/, '');
+        const match = this.timestamps ? timestampRegExp.exec(text) : null;
+        return match ? { stream, timestamp: match[1], text: match[2] } : { stream, text };
+    }
+}
+
+/**
+ * Inserts lines into lines that are already sorted by timestamp (like `docker-compose logs`, which interleaves the logs of its containers).
+ * Lines from a single container are already in order, so they're usually inserted at or near the end.
+ */
+export function insertLogLines(target: IContainerLogLine[], lines: IContainerLogLine[]): void {
+    for (const line of lines) {
+        const key: string | undefined = getTimestampSortKey(line.timestamp);
+        let index: number = target.length;
+        if (key !== undefined) {
+            while (index > 0) {
+                const previousKey: string | undefined = getTimestampSortKey(target[index - 1].timestamp);
+                if (previousKey === undefined || previousKey <= key) {
+                    break;
+                }
+                index--;
+            }
+        }
+
+        target.splice(index, 0, line);
+    }
+}
+
+/**
+ * The daemon trims trailing zeros from the fractional seconds (RFC3339Nano), so timestamps can't be compared as they are
+ */
+function getTimestampSortKey(timestamp: string | undefined): string | undefined {
+    const match = timestamp ? timestampPartsRegExp.exec(timestamp) : null;
+    return match ? `${match[1]}.${(match[2] || '').padEnd(9, '0')}` : undefined;
+}
+
+export function matchesLogFilter(line: IContainerLogLine, options: IContainerLogsOptions): boolean {
+    return options[line.stream] && (!options.filter || line.text.toLowerCase().includes(options.filter.toLowerCase()));
+}
+
+/**
+ * Formats a line the way it's displayed (and exported), with the timestamp and a stream label if both streams are shown.
+ * Lines from several containers are prefixed with `[containerName]`, padded to `nameWidth` so the rest of the lines align.
+ */
+export function formatLogLine(line: IContainerLogLine, options: IContainerLogsOptions, nameWidth: number = 0): string {
+    let prefix: string = line.containerName ? `[${line.containerName}]`.padEnd(nameWidth + 2) + ' ' : '';
+    if (options.timestamps && line.timestamp) {
+        prefix += `${line.timestamp} `;
+    }
+
+    if (options.stdout && options.stderr) {
+        prefix += line.stream === 'stderr' ? '[err] ' : '[out] ';
+    }
+
+    return prefix + line.text;
+}
+
+/**
+ * Describes the options in a single line, e.g. "stdout and stderr, last 1000 lines, filter: "error""
+ */
+export function describeLogsOptions(options: IContainerLogsOptions): string {
+    const parts: string[] = [options.stdout && options.stderr ? 'stdout and stderr' : options.stdout ? 'stdout only' : options.stderr ? 'stderr only' : 'no streams'];
+    if (options.since) {
+        parts.push(`since ${options.since}`);
+    }
+
+    parts.push(options.tail !== undefined ? `last ${options.tail} lines` : 'all lines');
+    if (options.filter) {
+        parts.push(`filter: "${options.filter}"`);
+    }
+
+    return parts.join(', ');
+}
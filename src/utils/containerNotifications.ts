@@ -0,0 +1,68 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { workspaceFolderLabel } from '../tasks/TaskDefinitionBase';
+import { IDockerEvent } from './DockerEventsListener';
+
+/**
+ * The values of the `docker.containers.notifications` setting
+ */
+export type ContainerNotificationScope = 'All' | 'Workspace' | 'None';
+
+export type ContainerNotificationKind = 'died' | 'oom' | 'unhealthy';
+
+export interface IContainerNotification {
+    kind: ContainerNotificationKind;
+    containerId: string;
+    containerName: string;
+    message: string;
+}
+
+const composeWorkingDirLabel: string = 'com.docker.compose.project.working_dir';
+
+/**
+ * Gets the notification to show for a container event, if any. Containers that exit with code 0 aren't reported, since they finished normally.
+ * Container events include the container's labels in `Actor.Attributes`, so the scope can be checked without inspecting the container.
+ */
+export function getContainerNotification(event: IDockerEvent, scope: ContainerNotificationScope, workspaceFolderPaths: string[]): IContainerNotification | undefined {
+    if (event.Type !== 'container' || !isInNotificationScope(event, scope, workspaceFolderPaths)) {
+        return undefined;
+    }
+
+    const attributes: { [key: string]: string } = event.Actor.Attributes || {};
+    const containerName: string = attributes.name || event.Actor.ID.slice(0, 12);
+    const notification = { containerId: event.Actor.ID, containerName };
+    if (event.Action === 'die' && attributes.exitCode !== '0') {
+        return { ...notification, kind: 'died', message: `Container "${containerName}" exited with code ${attributes.exitCode || 'unknown'}.` };
+    } else if (event.Action === 'oom') {
+        return { ...notification, kind: 'oom', message: `Container "${containerName}" ran out of memory.` };
+    } else if (/^health_status:\s*unhealthy$/.test(event.Action)) {
+        return { ...notification, kind: 'unhealthy', message: `Container "${containerName}" is unhealthy.` };
+    } else {
+        return undefined;
+    }
+}
+
+/**
+ * "Workspace" includes containers created by the extension's tasks for the open workspace folders and containers of compose projects in them
+ */
+function isInNotificationScope(event: IDockerEvent, scope: ContainerNotificationScope, workspaceFolderPaths: string[]): boolean {
+    const attributes: { [key: string]: string } = event.Actor.Attributes || {};
+    switch (scope) {
+        case 'All':
+            return true;
+        case 'Workspace':
+            return [workspaceFolderLabel, composeWorkingDirLabel].some(label =>
+                !!attributes[label] && workspaceFolderPaths.some(folder => isSameOrInsideFolder(attributes[label], folder)));
+        default:
+            return false;
+    }
+}
+
+function isSameOrInsideFolder(filePath: string, folder: string): boolean {
+    const relativePath: string = path.relative(folder, filePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
@@ -0,0 +1,164 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The response of `dockerode.df()` (`GET /system/df`), which isn't typed by dockerode.
+ * Sizes are -1 if the daemon didn't calculate them.
+ */
+export interface IDiskUsage {
+    LayersSize?: number;
+    Images?: IDiskUsageImage[] | null;
+    Containers?: IDiskUsageContainer[] | null;
+    Volumes?: IDiskUsageVolume[] | null;
+    BuildCache?: IDiskUsageBuildCache[] | null;
+}
+
+export interface IDiskUsageImage {
+    Id: string;
+    RepoTags?: string[] | null;
+    Size: number;
+    SharedSize: number;
+    VirtualSize?: number;
+    Containers: number;
+}
+
+export interface IDiskUsageContainer {
+    Id: string;
+    Names: string[];
+    State: string;
+    SizeRw?: number;
+}
+
+export interface IDiskUsageVolume {
+    Name: string;
+    CreatedAt?: string;
+    Labels: { [key: string]: string } | null;
+    UsageData?: { Size: number, RefCount: number } | null;
+}
+
+export interface IDiskUsageBuildCache {
+    ID: string;
+    Type?: string;
+    Description?: string;
+    InUse: boolean;
+    Shared: boolean;
+    Size: number;
+}
+
+export type DiskUsageCategoryType = 'image' | 'container' | 'volume' | 'buildCache';
+
+export interface IDiskUsageItem {
+    type: DiskUsageCategoryType;
+
+    /**
+     * The image/container id, volume name or build cache record id
+     */
+    id: string;
+    name: string;
+    size: number;
+    active: boolean;
+}
+
+export interface IDiskUsageCategory {
+    type: DiskUsageCategoryType;
+    label: string;
+    totalCount: number;
+    activeCount: number;
+    totalSize: number;
+    reclaimableSize: number;
+
+    /**
+     * Sorted from largest to smallest
+     */
+    items: IDiskUsageItem[];
+}
+
+/**
+ * Summarizes disk usage per category the same way `docker system df` does
+ */
+export function summarizeDiskUsage(diskUsage: IDiskUsage): IDiskUsageCategory[] {
+    return [
+        summarizeImages(diskUsage),
+        summarizeContainers(diskUsage.Containers || []),
+        summarizeVolumes(diskUsage.Volumes || []),
+        summarizeBuildCache(diskUsage.BuildCache || []),
+    ];
+}
+
+function summarizeImages(diskUsage: IDiskUsage): IDiskUsageCategory {
+    const images: IDiskUsageImage[] = diskUsage.Images || [];
+    const items: IDiskUsageItem[] = images.map(i => ({
+        type: <DiskUsageCategoryType>'image',
+        id: i.Id,
+        name: i.RepoTags && i.RepoTags.length > 0 && i.RepoTags[0] !== '<none>:<none>' ? i.RepoTags[0] : i.Id.replace(/^sha256:/, '').slice(0, 12),
+        size: Math.max(i.Size, 0),
+        active: i.Containers > 0
+    }));
+
+    // Layers shared with other images can't be reclaimed by removing an image, so only count the unique part of the images in use
+    let usedSize: number = 0;
+    for (const image of images) {
+        if (image.Containers > 0 && image.Size >= 0 && image.SharedSize >= 0) {
+            usedSize += image.Size - image.SharedSize;
+        }
+    }
+
+    const totalSize: number = diskUsage.LayersSize !== undefined ? diskUsage.LayersSize : sumSizes(items);
+    return createCategory('image', 'Images', items, totalSize, Math.max(totalSize - usedSize, 0));
+}
+
+function summarizeContainers(containers: IDiskUsageContainer[]): IDiskUsageCategory {
+    const items: IDiskUsageItem[] = containers.map(c => ({
+        type: <DiskUsageCategoryType>'container',
+        id: c.Id,
+        name: (c.Names[0] || c.Id).replace(/^\//, ''),
+        size: Math.max(c.SizeRw || 0, 0),
+        active: /^(running|paused|restarting)$/i.test(c.State)
+    }));
+
+    return createCategory('container', 'Containers', items, sumSizes(items), sumSizes(items.filter(i => !i.active)));
+}
+
+function summarizeVolumes(volumes: IDiskUsageVolume[]): IDiskUsageCategory {
+    const items: IDiskUsageItem[] = volumes.map(v => ({
+        type: <DiskUsageCategoryType>'volume',
+        id: v.Name,
+        name: v.Name,
+        size: v.UsageData ? Math.max(v.UsageData.Size, 0) : 0,
+        active: !!v.UsageData && v.UsageData.RefCount > 0
+    }));
+
+    return createCategory('volume', 'Local Volumes', items, sumSizes(items), sumSizes(items.filter(i => !i.active)));
+}
+
+function summarizeBuildCache(records: IDiskUsageBuildCache[]): IDiskUsageCategory {
+    const items: IDiskUsageItem[] = records.map(r => ({
+        type: <DiskUsageCategoryType>'buildCache',
+        id: r.ID,
+        name: r.Description || r.ID,
+        size: Math.max(r.Size, 0),
+        active: r.InUse
+    }));
+
+    // Shared records are also used by images, so removing the build cache doesn't free them
+    const reclaimableSize: number = sumSizes(items.filter((item, index) => !item.active && !records[index].Shared));
+    return createCategory('buildCache', 'Build Cache', items, sumSizes(items), reclaimableSize);
+}
+
+function createCategory(type: DiskUsageCategoryType, label: string, items: IDiskUsageItem[], totalSize: number, reclaimableSize: number): IDiskUsageCategory {
+    return {
+        type,
+        label,
+        totalCount: items.length,
+        activeCount: items.filter(i => i.active).length,
+        totalSize,
+        reclaimableSize,
+        items: items.sort((a, b) => b.size - a.size)
+    };
+}
+
+function sumSizes(items: IDiskUsageItem[]): number {
+    return items.reduce((total, i) => total + i.size, 0);
+}
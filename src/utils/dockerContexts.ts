@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { workspace } from 'vscode';
+import { configPrefix } from '../constants';
+import { addDockerSettingsToEnv } from './addDockerSettingsToEnv';
+import { cloneObject } from './cloneObject';
+import { CommandLineBuilder } from './commandLineBuilder';
+import { execAsync } from './spawnAsync';
+
+/**
+ * An entry of `docker context ls --format "{{json .}}"`
+ */
+export interface IDockerContextListItem {
+    Name: string;
+    Description: string;
+    DockerEndpoint: string;
+    Current: boolean;
+}
+
+export interface ICreateDockerContextOptions {
+    name: string;
+    description?: string;
+
+    /**
+     * e.g. "ssh://user@host" or "tcp://host:2376"
+     */
+    host: string;
+}
+
+// Same rule the Docker CLI enforces for context names
+export const dockerContextNameRegExp: RegExp = /^[a-zA-Z0-9][a-zA-Z0-9_.+-]*$/;
+
+/**
+ * Lists the Docker contexts. `Current` reflects the context used by the extension (the `docker.context` setting if it's set), rather than the CLI's current context.
+ */
+export async function listDockerContexts(): Promise<IDockerContextListItem[]> {
+    const { stdout } = await execDockerContextCommand('docker context ls --format "{{json .}}"');
+    const contexts: IDockerContextListItem[] = parseDockerContextList(stdout);
+
+    const selectedName: string | undefined = getSelectedDockerContext();
+    if (selectedName) {
+        for (const context of contexts) {
+            context.Current = context.Name === selectedName;
+        }
+    }
+
+    return contexts;
+}
+
+/**
+ * Gets the context selected with the `docker.context` setting or the `DOCKER_CONTEXT` environment variable, if any. It may not exist (anymore).
+ */
+export function getSelectedDockerContext(): string | undefined {
+    return workspace.getConfiguration(configPrefix).get<string>('context') || process.env.DOCKER_CONTEXT || undefined;
+}
+
+export async function createDockerContext(options: ICreateDockerContextOptions): Promise<void> {
+    const command = CommandLineBuilder
+        .create('docker', 'context', 'create', options.name)
+        .withNamedArg('--description', options.description || undefined)
+        .withNamedArg('--docker', `host=${options.host}`)
+        .build();
+    await execDockerContextCommand(command);
+}
+
+export function parseDockerContextList(stdout: string): IDockerContextListItem[] {
+    return stdout
+        .split(/\r?\n/)
+        .filter(line => !!line.trim())
+        .map(line => <IDockerContextListItem>JSON.parse(line))
+        .map(context => ({
+            Name: context.Name,
+            Description: context.Description || '',
+            DockerEndpoint: context.DockerEndpoint || '',
+            // Older CLIs format booleans as strings
+            Current: context.Current === true || String(context.Current) === 'true'
+        }));
+}
+
+/**
+ * Runs a `docker context` command with the same environment the extension's terminals get, except for `DOCKER_CONTEXT`:
+ * the CLI fails every command if it names a context that doesn't exist, which would leave no way to pick another one
+ */
+async function execDockerContextCommand(command: string): Promise<{ stdout: string, stderr: string }> {
+    const env: NodeJS.ProcessEnv = cloneObject(process.env);
+    addDockerSettingsToEnv(env, process.env);
+    delete env.DOCKER_CONTEXT;
+    return execAsync(command, { env, timeout: 10000 });
+}
@@ -0,0 +1,21 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+const units: string[] = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Formats a byte count the same way the Docker CLI does, e.g. "1.5MB" (base 1000)
+ */
+export function formatBytes(bytes: number): string {
+    let value = bytes;
+    let unitIndex = 0;
+    while (value >= 1000 && unitIndex < units.length - 1) {
+        value /= 1000;
+        unitIndex++;
+    }
+
+    const rounded = unitIndex === 0 ? value.toString() : value.toFixed(value < 10 ? 2 : 1).replace(/\.?0+$/, '');
+    return rounded + units[unitIndex];
+}
@@ -18,3 +18,30 @@ export function getValidImageName(appPath: string, tag?: string): string {
 
     return tag ? `${result}:${tag}` : result;
 }
+
+// Based on the reference grammar of https://github.com/docker/distribution/blob/master/reference/reference.go
+const domainComponent: string = '(?:[a-zA-Z0-9]|[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9])';
+const domain: string = `${domainComponent}(?:\\.${domainComponent})*(?::[0-9]+)?`;
+const pathComponent: string = '[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*';
+const tagPattern: string = '[\\w][\\w.-]{0,127}';
+const imageNameRegExp: RegExp = new RegExp(`^(?:(${domain})/)?${pathComponent}(?:/${pathComponent})*(?::${tagPattern})?$`);
+const maxRepositoryLength: number = 255;
+
+/**
+ * Checks that a name is a valid image name with an optional tag, e.g. `myregistry:5000/team/app:1.0`
+ */
+export function isValidImageName(name: string): boolean {
+    const match = imageNameRegExp.exec(name);
+    if (!match) {
+        return false;
+    }
+
+    // Like Docker, the first part is only a registry if it looks like a host name. Otherwise it's part of the (lowercase) repository path.
+    const registry: string | undefined = match[1];
+    if (registry && !/[.:]/.test(registry) && registry !== 'localhost' && !new RegExp(`^${pathComponent}$`).test(registry)) {
+        return false;
+    }
+
+    const repositoryLength: number = name.lastIndexOf(':') > name.lastIndexOf('/') ? name.lastIndexOf(':') : name.length;
+    return repositoryLength <= maxRepositoryLength;
+}
@@ -0,0 +1,100 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface ILabelFilter {
+    key: string;
+
+    /**
+     * If undefined, only the presence of the label is checked
+     */
+    value?: string;
+
+    /**
+     * True for `label!=...`
+     */
+    negate: boolean;
+}
+
+export interface IPruneFilters {
+    /**
+     * Only objects created before this time (in ms since the epoch) are pruned
+     */
+    until?: number;
+    labels: ILabelFilter[];
+}
+
+const durationUnits: { [unit: string]: number } = {
+    d: 24 * 60 * 60 * 1000,
+    h: 60 * 60 * 1000,
+    m: 60 * 1000,
+    s: 1000,
+};
+
+/**
+ * Parses filters in the same format as `docker system prune --filter`, separated by spaces, e.g. `until=24h label=env=test label!=keep`.
+ * `until` can be a duration relative to `now` (like "24h", "1h30m" or "7d") or a timestamp. Throws if the filters are invalid.
+ */
+export function parsePruneFilters(text: string, now: number = Date.now()): IPruneFilters {
+    const filters: IPruneFilters = { labels: [] };
+    for (const filter of text.split(/\s+/).filter(f => !!f)) {
+        const match = /^(until|label!?)=(.+)$/.exec(filter);
+        if (!match) {
+            throw new Error(`Invalid filter "${filter}". Supported filters are "until=<duration or timestamp>", "label=<key>[=<value>]" and "label!=<key>[=<value>]".`);
+        }
+
+        const [, name, value] = match;
+        if (name === 'until') {
+            filters.until = parseTimeFilter(name, value, now);
+        } else {
+            const separator = value.indexOf('=');
+            filters.labels.push({
+                key: separator < 0 ? value : value.slice(0, separator),
+                value: separator < 0 ? undefined : value.slice(separator + 1),
+                negate: name === 'label!'
+            });
+        }
+    }
+
+    return filters;
+}
+
+/**
+ * Returns true if an object created at `createdTime` (in ms since the epoch) with the given labels would be pruned with these filters
+ */
+export function matchesPruneFilters(filters: IPruneFilters, createdTime: number | undefined, labels: { [key: string]: string } | undefined): boolean {
+    if (filters.until !== undefined && (createdTime === undefined || createdTime >= filters.until)) {
+        return false;
+    }
+
+    return filters.labels.every(f => {
+        const hasLabel: boolean = !!labels && labels.hasOwnProperty(f.key) && (f.value === undefined || labels[f.key] === f.value);
+        return f.negate ? !hasLabel : hasLabel;
+    });
+}
+
+/**
+ * Parses a time filter like `until` or `since` (in ms since the epoch), which can be a duration relative to `now` (like "24h", "1h30m" or "7d") or a timestamp
+ */
+export function parseTimeFilter(name: string, value: string, now: number): number {
+    if (/^(\d+(\.\d+)?[dhms])+$/.test(value)) {
+        let duration: number = 0;
+        const partRegExp = /(\d+(?:\.\d+)?)([dhms])/g;
+        let part: RegExpExecArray | null;
+        while ((part = partRegExp.exec(value)) !== null) {
+            duration += parseFloat(part[1]) * durationUnits[part[2]];
+        }
+
+        return now - duration;
+    } else if (/^\d+$/.test(value)) {
+        return parseInt(value, 10) * 1000; // Unix timestamp in seconds
+    }
+
+    const timestamp: number = Date.parse(value);
+    if (isNaN(timestamp)) {
+        throw new Error(`Invalid "${name}" value "${value}". Use a duration like "24h" or a timestamp like "2020-01-31T12:00:00".`);
+    }
+
+    return timestamp;
+}
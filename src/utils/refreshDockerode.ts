@@ -45,6 +45,11 @@ export async function refreshDockerode(): Promise<void> {
         } finally {
             process.env = oldEnv;
         }
+
+        if (ext.dockerEvents) {
+            // Make sure the explorer is listening to events from the new daemon
+            await ext.dockerEvents.restart();
+        }
     } catch (error) {
         // This will be displayed in the tree
         ext.dockerodeInitError = error;
@@ -63,8 +68,8 @@ async function getDockerodeOptions(newEnv: NodeJS.ProcessEnv): Promise<DockerOpt
             newEnv.SSH_AUTH_SOCK = await getSshAuthSock();
             return undefined;
         } else if (!newEnv.DOCKER_HOST) {
-            // If DOCKER_HOST is unset, try to get default Docker context--this helps support WSL
-            return await getDefaultDockerContext();
+            // If DOCKER_HOST is unset, try to get the current Docker context (from the `docker.context` setting, if set)--this helps support WSL and remote contexts
+            return await getCurrentDockerContext(newEnv);
         }
     } catch { } // Best effort only
 
@@ -82,8 +87,8 @@ async function getSshAuthSock(): Promise<string | undefined> {
     }
 }
 
-async function getDefaultDockerContext(): Promise<DockerOptions | undefined> {
-    const { stdout } = await execAsync('docker context inspect', { timeout: 5000 });
+async function getCurrentDockerContext(newEnv: NodeJS.ProcessEnv): Promise<DockerOptions | undefined> {
+    const { stdout } = await execAsync('docker context inspect', { env: newEnv, timeout: 5000 });
     const dockerContexts = <IDockerContext[]>JSON.parse(stdout);
     const defaultHost: string =
         dockerContexts &&
@@ -101,6 +106,12 @@ async function getDefaultDockerContext(): Promise<DockerOptions | undefined> {
             socketPath: defaultHost.substring(npipe.length), // Everything after the npipe:// (expecting npipe:////./pipe/docker_engine or npipe:////./pipe/docker_wsl)
         };
     } else {
+        // Remote contexts (tcp:// or ssh://) work the same as setting DOCKER_HOST, which Dockerode picks up from the environment
+        newEnv.DOCKER_HOST = defaultHost;
+        if (SSH_URL_REGEX.test(defaultHost) && !newEnv.SSH_AUTH_SOCK) {
+            newEnv.SSH_AUTH_SOCK = await getSshAuthSock();
+        }
+
         return undefined;
     }
 }
@@ -6,9 +6,7 @@
 'use strict';
 
 import vscode = require('vscode');
-import { FROM_DIRECTIVE_PATTERN } from '../constants';
 import hub = require('../dockerHubSearch');
-import parser = require('../parser');
 
 export class SuggestSupportHelper {
     /* eslint-disable-next-line @typescript-eslint/promise-function-async */ // Grandfathered in
@@ -62,50 +60,21 @@ export class SuggestSupportHelper {
     }
 
     /* eslint-disable-next-line @typescript-eslint/promise-function-async */ // Grandfathered in
-    public getImageNameHover(line: string, _parser: parser.Parser, tokens: parser.IToken[], tokenIndex: number): Promise<vscode.MarkedString[]> {
-        // -------------
-        // Detect <<image: [["something"]]>>
-        // Detect <<image: [[something]]>>
-        let originalValue = _parser.tokenValue(line, tokens[tokenIndex]);
-
-        let keyToken: string = null;
-        tokenIndex--;
-        while (tokenIndex >= 0) {
-            let type = tokens[tokenIndex].type;
-            if (type === parser.TokenType.String || type === parser.TokenType.Text) {
+    public getImageNameHover(imageName: string): Promise<vscode.MarkedString[]> {
+        return this.searchImageInRegistryHub(imageName).then((results) => {
+            if (!results) {
                 return;
             }
-            if (type === parser.TokenType.Key) {
-                keyToken = _parser.tokenValue(line, tokens[tokenIndex]);
-                break;
-            }
-            tokenIndex--;
-        }
-
-        if (!keyToken) {
-            return;
-        }
-        let keyName = _parser.keyNameFromKeyToken(keyToken);
-        if (keyName === 'image' || keyName === 'FROM') {
-            let imageName: string;
 
-            if (keyName === 'FROM') {
-                imageName = line.match(FROM_DIRECTIVE_PATTERN)[1];
-            } else {
-                imageName = originalValue.replace(/^"/, '').replace(/"$/, '');
+            if (results[0] && results[1]) {
+                return ['**DockerHub:**', results[0], '**DockerRuntime**', results[1]];
             }
 
-            return this.searchImageInRegistryHub(imageName).then((results) => {
-                if (results[0] && results[1]) {
-                    return ['**DockerHub:**', results[0], '**DockerRuntime**', results[1]];
-                }
-
-                if (results[0]) {
-                    return [results[0]];
-                }
+            if (results[0]) {
+                return [results[0]];
+            }
 
-                return [results[1]];
-            });
-        }
+            return [results[1]];
+        });
     }
 }
@@ -0,0 +1,104 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { DockerComposeDocument, getComposeKeyInfo, IComposeMapping } from '../../extension.bundle';
+
+const composeText: string = `version: "2.1"
+x-defaults: &defaults
+  restart: always # comment
+services:
+  web:
+    <<: *defaults
+    image: "nginx:latest"
+    build:
+      context: .
+      cont
+    depends_on: [db, "cache"]
+    command: >
+      npm start
+      --port 80
+    ports:
+    - "80:80"
+    - 443:443
+  db:
+    image: postgres
+networks:
+  front:
+    ipam:
+      config:
+        - subnet: 10.0.0.0/24
+
+`;
+
+function offsetOf(text: string, delta: number = 0): number {
+    return composeText.indexOf(text) + delta;
+}
+
+suite('dockerCompose/dockerComposeDocument', () => {
+    const document = new DockerComposeDocument(composeText);
+
+    test('Parses the structure', () => {
+        assert.strictEqual(document.version, '2.1');
+        assert.strictEqual(document.getNode(['x-defaults']).anchor, 'defaults');
+        assert.deepStrictEqual((<IComposeMapping>document.getNode(['services', 'web'])).pairs.map(p => p.key.value), ['<<', 'image', 'build', 'depends_on', 'command', 'ports']);
+        assert.deepStrictEqual(document.getNode(['services', 'web', 'image']), { type: 'scalar', value: 'nginx:latest', quoted: true, start: offsetOf('"nginx'), end: offsetOf('"nginx:latest"', 14) });
+        assert.strictEqual(document.getNode(['services', 'web', 'depends_on', 1]).type, 'scalar');
+        assert.strictEqual((<{ value: string }>document.getNode(['services', 'web', 'command'])).value, 'npm start --port 80');
+        assert.strictEqual((<{ value: string }>document.getNode(['services', 'web', 'ports', 1])).value, '443:443');
+        assert.strictEqual((<{ value: string }>document.getNode(['networks', 'front', 'ipam', 'config', 0, 'subnet'])).value, '10.0.0.0/24');
+
+        const build = <IComposeMapping>document.getNode(['services', 'web', 'build']);
+        assert.deepStrictEqual(build.pairs.map(p => [p.key.value, p.hasSeparator]), [['context', true], ['cont', false]]);
+    });
+
+    test('Keys being typed above other keys', () => {
+        const text = 'services:\n  web:\n    ima\n    build:\n      context: .\n  db:\n    image: a\n';
+        const partial = new DockerComposeDocument(text);
+        assert.deepStrictEqual((<IComposeMapping>partial.getNode(['services'])).pairs.map(p => p.key.value), ['web', 'db']);
+        assert.deepStrictEqual((<IComposeMapping>partial.getNode(['services', 'web'])).pairs.map(p => [p.key.value, p.hasSeparator]), [['ima', false], ['build', true]]);
+        assert.strictEqual((<{ value: string }>partial.getNode(['services', 'db', 'image'])).value, 'a');
+        assert.deepStrictEqual(partial.getNodeAt(text.indexOf('context')).path, ['services', 'web', 'build', 'context']);
+        assert.deepStrictEqual(partial.getKeyPathAt(text.indexOf('ima') + 3), ['services', 'web']);
+
+        // Plain values can still continue on the next lines
+        assert.strictEqual((<{ value: string }>new DockerComposeDocument('command:\n  npm\n  start\n').getNode(['command'])).value, 'npm start');
+    });
+
+    test('Versions', () => {
+        assert.strictEqual(new DockerComposeDocument('web:\n  image: nginx\n').version, '1');
+        assert.strictEqual(new DockerComposeDocument('services:\n  web:\n    image: nginx\n').version, undefined);
+    });
+
+    test('Nodes at offsets', () => {
+        const key = document.getNodeAt(offsetOf('context', 2));
+        assert.deepStrictEqual(key.path, ['services', 'web', 'build', 'context']);
+        assert.strictEqual(key.isKey, true);
+
+        const value = document.getNodeAt(offsetOf('postgres', 1));
+        assert.deepStrictEqual(value.path, ['services', 'db', 'image']);
+        assert.strictEqual(value.isKey, false);
+
+        assert.deepStrictEqual(document.getNodeAt(offsetOf('"cache"', 1)).path, ['services', 'web', 'depends_on', 1]);
+    });
+
+    test('Key paths based on indentation', () => {
+        assert.deepStrictEqual(document.getKeyPathAt(offsetOf('cont\n', 4)), ['services', 'web', 'build']);
+        assert.deepStrictEqual(document.getKeyPathAt(offsetOf('  db:', 2)), ['services']);
+        assert.deepStrictEqual(document.getKeyPathAt(offsetOf('subnet', 3)), ['networks', 'front', 'ipam', 'config', 0]);
+        assert.deepStrictEqual(document.getKeyPathAt(composeText.length), []);
+    });
+
+    test('Keys depend on where they are', () => {
+        assert.ok(getComposeKeyInfo('2.1', ['services', 'web', 'build']).context);
+        assert.strictEqual(getComposeKeyInfo('2.1', ['services', 'web']).context, undefined);
+        assert.ok(getComposeKeyInfo('2.1', ['services', 'web']).image);
+        assert.ok(getComposeKeyInfo('2.1', ['networks', 'front']).internal);
+        assert.strictEqual(getComposeKeyInfo('2', ['networks', 'front']).internal, undefined);
+        assert.notStrictEqual(getComposeKeyInfo('2', []).volumes, getComposeKeyInfo('2', ['services', 'web']).volumes);
+        assert.ok(getComposeKeyInfo('1', ['web']).image);
+        assert.deepStrictEqual(getComposeKeyInfo('2', ['services', 'web', 'ports']), {});
+    });
+});
@@ -0,0 +1,125 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ComposeEnvironment, DockerComposeDocument, getComposeEnvironment, getComposeVariableProblems, getComposeVariables, getServiceEnvFileVariables, interpolateComposeDocument, parseEnvFile, resolveComposeVariable } from '../../extension.bundle';
+
+const composeText: string = `version: "3.8"
+# $COMMENTED isn't a variable
+services:
+  web:
+    image: "nginx:\${TAG:-latest}"
+    command: echo $$HOME $GREETING
+    environment:
+      EMPTY: \${EMPTY:-fallback}
+      DEBUG: \${DEBUG+on}
+      TOKEN: \${TOKEN:?token is required}
+      MISSING: $MISSING
+`;
+
+function createEnvironment(values: { [name: string]: string }): ComposeEnvironment {
+    const environment: ComposeEnvironment = new Map();
+    for (const name of Object.keys(values)) {
+        environment.set(name, { value: values[name], source: '.env' });
+    }
+
+    return environment;
+}
+
+suite('dockerCompose/dockerComposeInterpolation', () => {
+    const document = new DockerComposeDocument(composeText);
+    const variables = getComposeVariables(document);
+
+    test('Finds variables in values', () => {
+        assert.deepStrictEqual(variables.map(v => [v.name, v.operator, v.argument]), [
+            ['TAG', ':-', 'latest'],
+            ['GREETING', undefined, undefined],
+            ['EMPTY', ':-', 'fallback'],
+            ['DEBUG', '+', 'on'],
+            ['TOKEN', ':?', 'token is required'],
+            ['MISSING', undefined, undefined]
+        ]);
+        assert.strictEqual(composeText.slice(variables[0].start, variables[0].end), '${TAG:-latest}');
+    });
+
+    test('Resolves variables', () => {
+        const environment = createEnvironment({ TAG: '1.19', EMPTY: '', DEBUG: '' });
+        assert.deepStrictEqual(variables.map(v => resolveComposeVariable(v, environment)), ['1.19', '', 'fallback', 'on', undefined, '']);
+        assert.deepStrictEqual(variables.map(v => resolveComposeVariable(v, createEnvironment({}))), ['latest', '', 'fallback', '', undefined, '']);
+    });
+
+    test('Reports variables that are not set', () => {
+        const problems = getComposeVariableProblems(variables, createEnvironment({ GREETING: 'hi' }));
+        assert.deepStrictEqual(problems.map(p => [p.variable.name, p.severity]), [['TOKEN', 'error'], ['MISSING', 'warning']]);
+        assert.strictEqual(problems[0].message, 'The "TOKEN" variable is required: token is required');
+    });
+
+    test('Interpolates the document', () => {
+        const result = interpolateComposeDocument(document, createEnvironment({ GREETING: 'hi', MISSING: 'found' }));
+        assert.ok(result.includes('image: "nginx:latest"'));
+        assert.ok(result.includes('command: echo $HOME hi'));
+        assert.ok(result.includes('TOKEN: ${TOKEN:?token is required}'));
+        assert.ok(result.includes('MISSING: found'));
+        assert.ok(result.includes("# $COMMENTED isn't a variable"));
+    });
+
+    test('Escapes values for their scalars', () => {
+        const text = `services:
+  web:
+    command: echo $QUOTE
+    image: "nginx:$QUOTE"
+    entrypoint: 'sh $QUOTE'
+    working_dir: $LINES
+    labels:
+      single: 'x $LINES'
+      block: |
+        first $LINES
+`;
+        const result = interpolateComposeDocument(new DockerComposeDocument(text), createEnvironment({ QUOTE: 'say "it\'s"', LINES: 'a\nb' }));
+        assert.strictEqual(result, `services:
+  web:
+    command: echo say "it's"
+    image: "nginx:say \\"it's\\""
+    entrypoint: 'sh say "it''s"'
+    working_dir: "a\\nb"
+    labels:
+      single: "x a\\nb"
+      block: |
+        first a
+        b
+`);
+
+        const resolved = new DockerComposeDocument(result);
+        const getValue = (...keys: string[]) => (<{ value: string }>resolved.getNode(['services', 'web', ...keys])).value;
+        assert.deepStrictEqual(
+            [getValue('command'), getValue('image'), getValue('entrypoint'), getValue('working_dir'), getValue('labels', 'single'), getValue('labels', 'block')],
+            ['echo say "it\'s"', 'nginx:say "it\'s"', 'sh say "it\'s"', 'a\nb', 'x a\nb', 'first a\nb']);
+    });
+
+    test('Ignores env files that can\'t be read', async () => {
+        const tempDir = path.join(os.tmpdir(), `composeInterpolationTest${Date.now()}`);
+        try {
+            await fse.ensureDir(path.join(tempDir, '.env'));
+            await fse.ensureDir(path.join(tempDir, 'web.env'));
+            const composeFilePath = path.join(tempDir, 'docker-compose.yml');
+
+            const environment = await getComposeEnvironment(composeFilePath, { TAG: '1.19' });
+            assert.deepStrictEqual([...environment.keys()], ['TAG']);
+
+            const document = new DockerComposeDocument('services:\n  web:\n    env_file: [web.env, missing.env]\n');
+            assert.strictEqual((await getServiceEnvFileVariables(composeFilePath, document, 'web')).size, 0);
+        } finally {
+            await fse.remove(tempDir);
+        }
+    });
+
+    test('Parses .env files', () => {
+        const values = parseEnvFile('# comment\nTAG=1.19\nexport NAME = "web app"\n\nEMPTY=\nINVALID\n');
+        assert.deepStrictEqual([...values.entries()], [['TAG', '1.19'], ['NAME', 'web app'], ['EMPTY', '']]);
+    });
+});
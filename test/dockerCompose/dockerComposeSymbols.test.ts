@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { DockerComposeDocument, getComposeSymbols } from '../../extension.bundle';
+
+function getSymbols(text: string): string[] {
+    return getComposeSymbols(new DockerComposeDocument(text)).map(s => `${s.isDefinition ? 'definition' : 'reference'} ${s.kind} ${text.slice(s.start, s.end)}`);
+}
+
+suite('dockerCompose/dockerComposeSymbols', () => {
+    test('Services', () => {
+        assert.deepStrictEqual(getSymbols(`version: "2"
+services:
+  web:
+    depends_on: [db, "cache"]
+    links:
+      - "db:database"
+    volumes_from:
+      - db:ro
+      - container:other
+    network_mode: service:cache
+    extends:
+      service: base
+  db:
+    image: postgres
+`), [
+            'definition service web',
+            'definition service db',
+            'reference service db',
+            'reference service cache',
+            'reference service db',
+            'reference service db',
+            'reference service cache',
+            'reference service base'
+        ]);
+    });
+
+    test('Networks, volumes, secrets and configs', () => {
+        assert.deepStrictEqual(getSymbols(`version: "3.8"
+services:
+  web:
+    networks:
+      front:
+        aliases: [www]
+    volumes:
+      - data:/var/lib/data:ro
+      - ./src:/src
+      - C:\\logs:/logs
+      - type: volume
+        source: cache
+        target: /cache
+    secrets:
+      - password
+      - source: "key"
+        target: api_key
+networks:
+  front:
+volumes:
+  data:
+  cache:
+secrets:
+  password:
+    file: ./password.txt
+x-unused: {}
+`), [
+            'definition service web',
+            'reference network front',
+            'reference volume data',
+            'reference volume cache',
+            'reference secret password',
+            'reference secret key',
+            'definition network front',
+            'definition volume data',
+            'definition volume cache',
+            'definition secret password'
+        ]);
+    });
+
+    test('v1 services', () => {
+        assert.deepStrictEqual(getSymbols('web:\n  links: [db]\ndb:\n  image: postgres\n'), ['definition service web', 'definition service db', 'reference service db']);
+    });
+});
@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { DockerComposeDocument, validateComposeDocument } from '../../extension.bundle';
+
+function validate(text: string): string[] {
+    return validateComposeDocument(new DockerComposeDocument(text)).map(p => `${p.severity}: ${text.slice(p.start, p.end)}`);
+}
+
+suite('dockerCompose/dockerComposeValidator', () => {
+    test('Valid files', () => {
+        assert.deepStrictEqual(validate(`version: "3.8"
+x-logging: &logging
+  driver: json-file
+services:
+  web:
+    image: nginx
+    logging: *logging
+    ports:
+      - "80:80"
+      - target: 443
+        published: 8443
+    deploy:
+      replicas: 2
+      resources:
+        limits:
+          cpus: '0.5'
+    healthcheck:
+      test: ["CMD", "curl", "-f", "http://localhost"]
+      retries: 3
+    secrets:
+      - source: password
+        target: db_password
+secrets:
+  password:
+    file: ./password.txt
+`), []);
+
+        assert.deepStrictEqual(validate('services:\n  web:\n    image: nginx\n    profiles: [debug]\n    x-custom: 1\n'), []);
+        assert.deepStrictEqual(validate('web:\n  image: nginx\n  net: host\n'), []);
+        assert.deepStrictEqual(validate(`name: app
+include:
+  - ./common.yml
+services:
+  web:
+    image: nginx
+    build:
+      context: .
+      ssh: [default]
+      platforms: [linux/amd64, linux/arm64]
+    ports:
+      - target: 80
+        host_ip: 127.0.0.1
+    healthcheck:
+      test: ["CMD", "true"]
+      start_interval: 5s
+    deploy:
+      resources:
+        reservations:
+          devices:
+            - driver: nvidia
+              count: 1
+              capabilities: [gpu]
+`), []);
+        assert.deepStrictEqual(validate('version: "2.4"\nx-defaults: {}\nservices:\n  web:\n    runtime: nvidia\n    platform: linux/amd64\n'), []);
+    });
+
+    test('Unknown keys and missing separators', () => {
+        assert.deepStrictEqual(validate('version: "2"\nservices:\n  web:\n    imag: nginx\n    build:\n      contxt: .\n      cont\n'), ['warning: imag', 'warning: contxt', 'error: cont']);
+        assert.deepStrictEqual(validate('version: "2"\nservices:\n  web:\n    image: nginx\n    image: redis\n'), ['error: image']);
+    });
+
+    test('Value types', () => {
+        assert.deepStrictEqual(
+            validate('version: "3"\nservices:\n  web:\n    ports: "80:80"\n    privileged: "true"\n    tty: yes\n    environment: [A=1]\n    deploy:\n      replicas: two\n'),
+            ['error: "80:80"', 'error: "true"', 'error: two']);
+        assert.deepStrictEqual(
+            validate('version: "3"\nservices:\n  web:\n    privileged: ${PRIV:-false}\n    tty: $TTY\n    deploy:\n      replicas: ${R:-1}\n'),
+            []);
+        assert.deepStrictEqual(validate('version: "3"\nservices:\n  web:\n    privileged: $$PRIV\n'), ['error: $$PRIV']);
+    });
+
+    test('Keys from other versions', () => {
+        assert.deepStrictEqual(validate('version: "2"\nservices:\n  web:\n    image: nginx\n    deploy:\n      replicas: 2\n'), ['warning: deploy']);
+        assert.deepStrictEqual(validate('version: "3"\nservices:\n  web:\n    image: nginx\n    volumes_from: [db]\n'), ['warning: volumes_from']);
+        assert.deepStrictEqual(validate('version: "3.2"\nx-defaults: {}\nservices: {}\n'), ['warning: x-defaults']);
+        assert.deepStrictEqual(validate('version: "3.7"\nservices:\n  web:\n    init: true\n'), []);
+        assert.deepStrictEqual(validate('version: "4"\nservices:\n  web:\n    deploy: {}\n    imag: nginx\n'), ['warning: imag']);
+        assert.deepStrictEqual(validate('version: "2"\nservices: {}\nsecrets: {}\nconfigs: {}\n'), ['warning: secrets', 'warning: configs']);
+        assert.deepStrictEqual(validate('version: "3.8"\nservices:\n  web:\n    runtime: nvidia\n'), ['warning: runtime']);
+    });
+});
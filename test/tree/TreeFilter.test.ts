@@ -0,0 +1,28 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ITreeFilterTerm, parseTreeFilter } from '../../extension.bundle';
+
+suite('Tree filter', () => {
+    const properties: string[] = ['ContainerName', 'State', 'Tag'];
+
+    function testParse(query: string, expected: ITreeFilterTerm[]): void {
+        test(query || '(empty)', () => {
+            assert.deepStrictEqual(parseTreeFilter(query, properties), expected);
+        });
+    }
+
+    testParse('', []);
+    testParse('   ', []);
+    testParse('nginx', [{ value: 'nginx' }]);
+    testParse('nginx redis', [{ value: 'nginx' }, { value: 'redis' }]);
+    testParse('state:running', [{ property: 'State', value: 'running' }]);
+    testParse('STATE:running nginx', [{ property: 'State', value: 'running' }, { value: 'nginx' }]);
+    testParse('containername:"my app"', [{ property: 'ContainerName', value: 'my app' }]);
+    testParse('"my app"', [{ value: 'my app' }]);
+    testParse('localhost:5000/app', [{ value: 'localhost:5000/app' }]);
+    testParse('tag:', [{ value: 'tag:' }]);
+});
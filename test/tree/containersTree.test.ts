@@ -53,6 +53,10 @@ const testContainers: Partial<ContainerInfo>[] = [
         ],
         State: "running",
         Status: "Up 8 minutes",
+        Labels: {
+            "com.docker.compose.project": "myapp",
+            "com.docker.compose.service": "web"
+        }
     },
     {
         Id: "ee098ec2fb0b337e4f480a1a33dd1d396ef6b242579bb8b874e480957c053f34",
@@ -73,6 +77,10 @@ const testContainers: Partial<ContainerInfo>[] = [
         Ports: [{ "IP": "0.0.0.0", "PrivatePort": 80, "PublicPort": 80, "Type": "tcp" }],
         State: "running",
         Status: "Up 32 hours",
+        Labels: {
+            "com.docker.compose.project": "myapp",
+            "com.docker.compose.service": "db"
+        }
     },
     {
         Id: "531005593f5da6f15ce13a6149a9b4866608fad5bddc600d37239e3d9976f00f",
@@ -381,6 +389,35 @@ suite('Containers Tree', async () => {
             ]);
     });
 
+    test('GroupBy ComposeProjectName', async () => {
+        await validateContainersTree(
+            {
+                groupBy: 'ComposeProjectName',
+                label: 'ContainerName',
+                description: ["ComposeServiceName"]
+            },
+            [
+                {
+                    label: "<none>",
+                    children: [
+                        { label: "vigorous_booth", description: "<none>" },
+                        { label: "elegant_knuth", description: "<none>" },
+                        { label: "focused_cori", description: "<none>" },
+                        { label: "admiring_leavitt", description: "<none>" },
+                        { label: "elegant_mendel", description: "<none>" },
+                        { label: "devtest", description: "<none>" }
+                    ]
+                },
+                {
+                    label: "myapp",
+                    children: [
+                        { label: "zealous_napier", description: "web" },
+                        { label: "inspiring_brattain", description: "db" }
+                    ]
+                }
+            ]);
+    });
+
     /**
      * This test verifies we maintain support for the "Attach Visual Studio Code" context menu item that the "Remote Containers" extension adds to our tree (specifically running containers)
      * https://marketplace.visualstudio.com/items?itemName=ms-vscode-remote.remote-containers
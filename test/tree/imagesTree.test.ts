@@ -3,8 +3,9 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as assert from 'assert';
 import { ImageInfo } from 'dockerode';
-import { ext } from '../../extension.bundle';
+import { ext, getLayerInstruction } from '../../extension.bundle';
 import { runWithSetting } from '../runWithSetting';
 import { generateCreatedTimeInSec, ITestTreeItem, IValidateTreeOptions, validateTree } from './validateTree';
 
@@ -52,7 +53,8 @@ const testImages: Partial<ImageInfo>[] = [
     {
         RepoTags: ['127.0.0.1:5443/registry:v2'],
         Id: 'sha256:ad8fe06eeca42a64aa28ca767b0f3fbe8713c087a6dcc66be949cefbe2131287',
-        Created: generateCreatedTimeInSec(58)
+        Created: generateCreatedTimeInSec(58),
+        Size: 26000000
     },
     {
         RepoTags: ['127.0.0.1:5443/hello-world/sub:latest'],
@@ -65,7 +67,8 @@ const testImages: Partial<ImageInfo>[] = [
             'hello-world:v1'
         ],
         Id: 'sha256:8a093bef2179f2c76b1b1d3254862e85ee6c26ee649fadad220e46527042f436',
-        Created: generateCreatedTimeInSec(60)
+        Created: generateCreatedTimeInSec(60),
+        Size: 13336
     },
     {
         RepoTags: ['namespace1/abc:v3'],
@@ -80,7 +83,8 @@ const testImages: Partial<ImageInfo>[] = [
     {
         RepoTags: ['localhost:8080/abc'],
         Id: 'sha256:e05f39ada67afbe24e68a22eeb9a45c59d0aab31f0a1585870a75893981fae75',
-        Created: generateCreatedTimeInSec(368)
+        Created: generateCreatedTimeInSec(368),
+        Size: 5
     },
 ];
 
@@ -389,6 +393,33 @@ suite('Images Tree', async () => {
             ]);
     });
 
+    test('FullTag sortBy Size', async () => {
+        await validateImagesTree(
+            {
+                label: 'FullTag',
+                description: [],
+                groupBy: 'None',
+                sortBy: 'Size',
+            },
+            [
+                { label: "127.0.0.1:5443/registry:v2" },
+                { label: "hello-world:latest" },
+                { label: "hello-world:v1" },
+                { label: 'localhost:8080/abc' },
+                { label: "127.0.0.1:5443/hello-world/sub:latest" },
+                { label: "a" },
+                { label: "a.b/abcdefghijklmnopqrstuvwxyz:latest" },
+                { label: "abcdefghijklmnopqrstuvw.xyz/abcdefghijklmnopqrstuvwxyz:latest" },
+                { label: "abcdefghijklmnopqrstuvw.xyz/abcdefghijklmnopqrstuvwxyz/abcdefghijklmnopqrstuvw.xyz/abcdefghijklmnopqrstuvwxyz:latest" },
+                { label: "abcdefghijklmnopqrstuvw.xyz/abcdefghijklmnopqrstuvwxyz/abcdefghijklmnopqrstuvwxyz:latest" },
+                { label: "abcdefghijklmnopqrstuvwxyz" },
+                { label: "abcdefghijklmnopqrstuvwxyz:version1.0.test" },
+                { label: 'localhost/abc:v4' },
+                { label: 'namespace1/abc:v3' },
+                { label: "registry.gitlab.com/sweatherford/hello-world/sub:latest" },
+            ]);
+    });
+
     test('FullTag truncate false', async () => {
         await validateImagesTree(
             {
@@ -987,5 +1018,16 @@ suite('Images Tree', async () => {
                 { label: 'abc', description: 'a year ago - localhost:8080' },
             ]);
     });
-});
 
+    test('Layer instructions', () => {
+        assert.strictEqual(getLayerInstruction('/bin/sh -c #(nop)  CMD ["node" "index.js"]'), 'CMD ["node" "index.js"]');
+        assert.strictEqual(getLayerInstruction('/bin/sh -c #(nop) ADD file:1a2b3c in / '), 'ADD file:1a2b3c in /');
+        assert.strictEqual(getLayerInstruction('/bin/sh -c npm install'), 'RUN npm install');
+        assert.strictEqual(getLayerInstruction('|2 NODE_ENV=production PORT=80 /bin/sh -c npm install'), 'RUN npm install');
+        assert.strictEqual(getLayerInstruction('RUN /bin/sh -c npm install # buildkit'), 'RUN npm install');
+        assert.strictEqual(getLayerInstruction('RUN |1 NODE_ENV=production /bin/sh -c npm install # buildkit'), 'RUN npm install');
+        assert.strictEqual(getLayerInstruction('COPY . . # buildkit'), 'COPY . .');
+        assert.strictEqual(getLayerInstruction('cmd /S /C dotnet restore'), 'RUN dotnet restore');
+        assert.strictEqual(getLayerInstruction(''), '<missing>');
+    });
+});
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { VolumeInspectInfo } from 'dockerode';
+import { ContainerInfo, VolumeInspectInfo } from 'dockerode';
 import { ext } from '../../extension.bundle';
 import { generateCreatedTimeISOString, ITestTreeItem, IValidateTreeOptions, validateTree } from './validateTree';
 
@@ -130,5 +130,48 @@ suite('Volumes Tree', async () => {
                 },
             ]);
     });
-});
 
+    test('GroupBy InUse', async () => {
+        const testContainers: Partial<ContainerInfo>[] = [
+            {
+                Id: '9330566c414439f4873edd95689b559466993681f7fe8b7c4b1b1dc3d6ec7d24',
+                Names: ['/nginx'],
+                State: 'running',
+                Mounts: [
+                    { Type: 'volume', Name: 'nginxVol', Source: '', Destination: '/usr/share/nginx/html', Mode: 'z', RW: true, Propagation: '' },
+                    { Type: 'bind', Source: '/home/me/conf', Destination: '/etc/nginx/conf.d', Mode: '', RW: false, Propagation: 'rprivate' },
+                ]
+            },
+            {
+                Id: 'faeb6f02af06df748a0040476ba7c335fb8aaefb87364a2e9cef2dbf7f5c5e9c',
+                Names: ['/backup'],
+                State: 'exited',
+                Mounts: [
+                    { Type: 'volume', Name: 'zz', Source: '', Destination: '/data', Mode: '', RW: false, Propagation: '' },
+                ]
+            },
+        ];
+
+        await validateTree(
+            ext.volumesRoot,
+            'volumes',
+            { groupBy: 'InUse', description: [] },
+            { volumes: testVolumes, containers: testContainers },
+            [
+                {
+                    label: "In use",
+                    children: [
+                        { label: "nginxVol" },
+                        { label: "zz" },
+                    ]
+                },
+                {
+                    label: "Not in use",
+                    children: [
+                        { label: "my-vol" },
+                        { label: "83c3eaffa92c0caf9ab34df3931f37b094464cb0daaab274c482010129fc7c73" },
+                    ]
+                },
+            ]);
+    });
+});
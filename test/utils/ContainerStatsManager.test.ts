@@ -0,0 +1,111 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as Dockerode from 'dockerode';
+import { PassThrough } from 'stream';
+import { ContainerStatsManager, ext, formatBytes, IContainerStatsSample, parseContainerStats } from '../../extension.bundle';
+
+function createStats(totalUsage: number, preTotalUsage: number, memoryUsage: number): Dockerode.ContainerStats {
+    return <Dockerode.ContainerStats><any>{
+        read: '2020-01-01T00:00:01Z',
+        pid_stats: { current: 3 },
+        networks: {
+            eth0: { rx_bytes: 1000, tx_bytes: 500 },
+            eth1: { rx_bytes: 24, tx_bytes: 12 }
+        },
+        memory_stats: { usage: memoryUsage, limit: 2000000000, stats: { total_inactive_file: 1000000 } },
+        blkio_stats: {
+            io_service_bytes_recursive: [
+                { op: 'Read', value: 4096 },
+                { op: 'Write', value: 8192 },
+                { op: 'Total', value: 12288 }
+            ]
+        },
+        cpu_stats: { cpu_usage: { total_usage: totalUsage, percpu_usage: [0, 0] }, system_cpu_usage: 2000, online_cpus: 2 },
+        precpu_stats: { cpu_usage: { total_usage: preTotalUsage, percpu_usage: [0, 0] }, system_cpu_usage: 1000, online_cpus: 2 }
+    };
+}
+
+suite('utils/ContainerStatsManager', () => {
+    test('parseContainerStats', () => {
+        const sample: IContainerStatsSample = parseContainerStats(createStats(150, 100, 11000000));
+        assert.strictEqual(sample.cpuPercent, 10); // 50 / 1000 * 2 CPUs * 100
+        assert.strictEqual(sample.memoryUsage, 10000000);
+        assert.strictEqual(sample.memoryLimit, 2000000000);
+        assert.strictEqual(sample.networkRx, 1024);
+        assert.strictEqual(sample.networkTx, 512);
+        assert.strictEqual(sample.blockRead, 4096);
+        assert.strictEqual(sample.blockWrite, 8192);
+        assert.strictEqual(sample.pids, 3);
+    });
+
+    test('parseContainerStats - no previous sample', () => {
+        const sample: IContainerStatsSample = parseContainerStats(<Dockerode.ContainerStats><any>{ read: '2020-01-01T00:00:01Z' });
+        assert.strictEqual(sample.cpuPercent, 0);
+        assert.strictEqual(sample.memoryUsage, 0);
+        assert.strictEqual(sample.networkRx, 0);
+    });
+
+    test('Streaming keeps session history', async () => {
+        const oldDockerode = ext.dockerode;
+        const stream = new PassThrough();
+        try {
+            ext.dockerode = <Dockerode><any>{
+                getContainer: () => { return { stats: async () => stream }; }
+            };
+
+            const manager = new ContainerStatsManager();
+            const streaming = await manager.startStreaming('abc');
+            assert.ok(manager.isStreaming('abc'));
+
+            stream.write(JSON.stringify(createStats(150, 100, 11000000)) + '\n' + JSON.stringify(createStats(200, 100, 21000000)).slice(0, 10));
+            stream.write(JSON.stringify(createStats(200, 100, 21000000)).slice(10) + '\n');
+            await new Promise(resolve => setImmediate(resolve));
+
+            assert.deepStrictEqual(manager.getHistory('abc').map(s => s.memoryUsage), [10000000, 20000000]);
+            assert.strictEqual(manager.getLatestSample('abc')?.cpuPercent, 20);
+
+            streaming.dispose();
+            assert.ok(!manager.isStreaming('abc'));
+            assert.strictEqual(manager.getHistory('abc').length, 2, 'History should be kept after streaming stops');
+            manager.dispose();
+        } finally {
+            ext.dockerode = oldDockerode;
+        }
+    });
+
+    test('Drops the history of removed containers', async () => {
+        const oldDockerode = ext.dockerode;
+        const stream = new PassThrough();
+        try {
+            ext.dockerode = <Dockerode><any>{
+                getContainer: () => { return { stats: async () => stream }; }
+            };
+
+            const manager = new ContainerStatsManager();
+            const streaming = await manager.startStreaming('abc');
+            stream.write(JSON.stringify(createStats(150, 100, 11000000)) + '\n');
+            await new Promise(resolve => setImmediate(resolve));
+            streaming.dispose();
+
+            manager.pruneHistory(['abc', 'def']);
+            assert.strictEqual(manager.getHistory('abc').length, 1);
+            manager.pruneHistory(['def']);
+            assert.strictEqual(manager.getHistory('abc').length, 0);
+            manager.dispose();
+        } finally {
+            ext.dockerode = oldDockerode;
+        }
+    });
+
+    test('formatBytes', () => {
+        assert.strictEqual(formatBytes(0), '0B');
+        assert.strictEqual(formatBytes(999), '999B');
+        assert.strictEqual(formatBytes(1500), '1.5KB');
+        assert.strictEqual(formatBytes(24500000), '24.5MB');
+        assert.strictEqual(formatBytes(3000000000), '3GB');
+    });
+});
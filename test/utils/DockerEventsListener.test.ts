@@ -0,0 +1,70 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as Dockerode from 'dockerode';
+import { PassThrough } from 'stream';
+import { DockerEventsListener, ext, IDockerEvent } from '../../extension.bundle';
+
+suite('utils/DockerEventsListener', () => {
+    let oldDockerode: Dockerode;
+    let oldInitError: unknown;
+    let stream: PassThrough;
+
+    setup(() => {
+        oldDockerode = ext.dockerode;
+        oldInitError = ext.dockerodeInitError;
+        stream = new PassThrough();
+        ext.dockerodeInitError = undefined;
+        ext.dockerode = <Dockerode><any>{
+            getEvents: async () => stream
+        };
+    });
+
+    teardown(() => {
+        ext.dockerode = oldDockerode;
+        ext.dockerodeInitError = oldInitError;
+    });
+
+    test('Parses events split across chunks', async () => {
+        const listener = new DockerEventsListener();
+        const events: IDockerEvent[] = [];
+        listener.onDidReceiveEvent(e => events.push(e));
+
+        assert.equal(await listener.listen(), true);
+        stream.write('{"Type":"container","Action":"start","Actor":{"ID":"abc"},"time":1}\n{"Type":"ima');
+        stream.write('ge","Action":"pull","Actor":{"ID":"node:8"},"time":2}\nnot json\n');
+
+        await new Promise(resolve => setImmediate(resolve));
+        listener.dispose();
+
+        assert.deepEqual(events.map(e => `${e.Type}:${e.Action}`), ['container:start', 'image:pull']);
+    });
+
+    test('Reports when the stream drops', async () => {
+        const listener = new DockerEventsListener();
+        const states: boolean[] = [];
+        listener.onDidChangeListening(listening => states.push(listening));
+
+        await listener.listen();
+        assert.equal(listener.isListening, true);
+
+        stream.end();
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.equal(listener.isListening, false);
+        assert.deepEqual(states, [true, false]);
+        listener.dispose();
+    });
+
+    test('Does not listen if Docker failed to initialize', async () => {
+        ext.dockerodeInitError = new Error('Failed to initialize');
+        const listener = new DockerEventsListener();
+
+        assert.equal(await listener.listen(), false);
+        assert.equal(listener.isListening, false);
+        listener.dispose();
+    });
+});
@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { groupContainerChanges, IContainerChange } from '../../extension.bundle';
+
+suite('utils/containerChanges', () => {
+    test('Groups by kind and leaves out folders with changes below them', () => {
+        const changes: IContainerChange[] = [
+            { Path: '/etc', Kind: 0 },
+            { Path: '/etc/hosts', Kind: 0 },
+            { Path: '/app', Kind: 1 },
+            { Path: '/app/server.js', Kind: 1 },
+            { Path: '/app/package.json', Kind: 1 },
+            { Path: '/tmp', Kind: 0 },
+            { Path: '/var/cache/old.log', Kind: 2 },
+            { Path: '/var', Kind: 0 },
+            { Path: '/var/cache', Kind: 0 },
+        ];
+
+        assert.deepStrictEqual(groupContainerChanges(changes), {
+            added: ['/app/package.json', '/app/server.js'],
+            changed: ['/etc/hosts', '/tmp'],
+            deleted: ['/var/cache/old.log'],
+        });
+    });
+
+    test('No changes', () => {
+        assert.deepStrictEqual(groupContainerChanges(null), { added: [], changed: [], deleted: [] });
+    });
+});
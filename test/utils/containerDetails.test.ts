@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ContainerInspectInfo } from 'dockerode';
+import { getContainerDetails, IContainerDetailsCategory } from '../../extension.bundle';
+
+suite('utils/containerDetails', () => {
+    const info = <ContainerInspectInfo><unknown>{
+        Config: {
+            Env: ['PATH=/usr/local/bin:/usr/bin', 'NODE_ENV=production', 'EMPTY='],
+            Labels: { 'com.docker.compose.service': 'web', 'com.docker.compose.project': 'app' }
+        },
+        Mounts: [
+            { Type: 'volume', Name: 'data', Source: '/var/lib/docker/volumes/data/_data', Destination: '/data', RW: true },
+            { Type: 'bind', Source: '/home/me/src', Destination: '/src', RW: false },
+        ],
+        NetworkSettings: {
+            Ports: {
+                '80/tcp': [{ HostIp: '0.0.0.0', HostPort: '8080' }, { HostIp: '::', HostPort: '8080' }],
+                '53/udp': [{ HostIp: '127.0.0.1', HostPort: '5353' }],
+                '443/tcp': null
+            },
+            Networks: {
+                'app_default': { IPAddress: '172.18.0.2' }
+            }
+        }
+    };
+
+    function getCategory(type: string): IContainerDetailsCategory {
+        const category = getContainerDetails(info).find(c => c.type === type);
+        assert.ok(category, type);
+        return category;
+    }
+
+    test('Environment', () => {
+        assert.deepStrictEqual(getCategory('environment').details.map(d => [d.label, d.value]), [
+            ['PATH', '/usr/local/bin:/usr/bin'],
+            ['NODE_ENV', 'production'],
+            ['EMPTY', ''],
+        ]);
+    });
+
+    test('Mounts', () => {
+        const details = getCategory('mounts').details;
+        assert.deepStrictEqual(details.map(d => [d.label, d.description, d.volumeName]), [
+            ['/data', 'data', 'data'],
+            ['/src', '/home/me/src (read-only)', undefined],
+        ]);
+    });
+
+    test('Published ports', () => {
+        const details = getCategory('ports').details;
+        assert.deepStrictEqual(details.map(d => d.label), ['0.0.0.0:8080', '[::]:8080', '127.0.0.1:5353']);
+        assert.deepStrictEqual(details[2].port, { containerPort: 53, protocol: 'udp', hostIp: '127.0.0.1', hostPort: '5353' });
+    });
+
+    test('Labels are sorted', () => {
+        assert.deepStrictEqual(getCategory('labels').details.map(d => d.label), ['com.docker.compose.project', 'com.docker.compose.service']);
+    });
+
+    test('Networks', () => {
+        assert.deepStrictEqual(getCategory('networks').details, [{ label: 'app_default', description: '172.18.0.2', value: '172.18.0.2' }]);
+    });
+
+    test('Empty categories are left out', () => {
+        const categories = getContainerDetails(<ContainerInspectInfo><unknown>{ Config: { Env: [] }, Mounts: [], NetworkSettings: {} });
+        assert.deepStrictEqual(categories, []);
+    });
+});
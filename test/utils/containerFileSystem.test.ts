@@ -0,0 +1,71 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as Dockerode from 'dockerode';
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar';
+import { getContainerPathType, listContainerDirectory, readContainerFile } from '../../extension.bundle';
+
+suite('utils/containerFileSystem', () => {
+    let tempDir: string;
+
+    // Mimics the archive API, which returns a tar with entries relative to the parent of the requested path
+    const container = <Dockerode.Container><any>{
+        getArchive: async (options: { path: string }) => {
+            return tar.c({ cwd: path.join(tempDir, path.dirname(options.path)) }, [path.basename(options.path)]);
+        }
+    };
+
+    suiteSetup(async () => {
+        tempDir = path.join(os.tmpdir(), `containerFileSystemTest${Date.now()}`);
+        await fse.outputFile(path.join(tempDir, 'app', 'package.json'), '{ "name": "test" }');
+        await fse.outputFile(path.join(tempDir, 'app', 'src', 'index.js'), 'console.log("hello");');
+        await fse.outputFile(path.join(tempDir, 'app', '.env'), 'A=1');
+    });
+
+    suiteTeardown(async () => {
+        await fse.remove(tempDir);
+    });
+
+    test('List directory with archive', async () => {
+        const files = await listContainerDirectory(container, '/app', false);
+        assert.deepStrictEqual(files, [
+            { name: 'src', path: '/app/src', type: 'directory' },
+            { name: '.env', path: '/app/.env', type: 'file' },
+            { name: 'package.json', path: '/app/package.json', type: 'file' },
+        ]);
+    });
+
+    test('Read file', async () => {
+        const contents = await readContainerFile(container, '/app/src/index.js');
+        assert.strictEqual(contents.toString(), 'console.log("hello");');
+    });
+
+    test('Read directory fails', async () => {
+        await assert.rejects(async () => readContainerFile(container, '/app/src'), /not a file/);
+    });
+
+    test('Get path type', async () => {
+        // The modes are Go os.FileModes, as returned by the daemon
+        const modes: { [path: string]: number } = {
+            '/app': 2147484141, // directory, 0755
+            '/app/package.json': 420, // 0644
+            '/app/link': 134218239, // symlink, 0777
+        };
+        const statContainer = <Dockerode.Container><any>{
+            infoArchive: async (options: { path: string }) => {
+                const stat = Buffer.from(JSON.stringify({ name: path.posix.basename(options.path), mode: modes[options.path] })).toString('base64');
+                return { headers: { 'x-docker-container-path-stat': stat }, resume: () => { /* no body */ } };
+            }
+        };
+
+        assert.strictEqual(await getContainerPathType(statContainer, '/app'), 'directory');
+        assert.strictEqual(await getContainerPathType(statContainer, '/app/package.json'), 'file');
+        assert.strictEqual(await getContainerPathType(statContainer, '/app/link'), 'symlink');
+    });
+});
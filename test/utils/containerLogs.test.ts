@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ContainerLogParser, defaultContainerLogsOptions, formatLogLine, IContainerLogLine, IContainerLogsOptions, insertLogLines, matchesLogFilter } from '../../extension.bundle';
+
+function frame(streamType: number, text: string): Buffer {
+    const payload = Buffer.from(text);
+    const header = Buffer.alloc(8);
+    header[0] = streamType;
+    header.writeUInt32BE(payload.length, 4);
+    return Buffer.concat([header, payload]);
+}
+
+suite('utils/containerLogs', () => {
+    suite('ContainerLogParser', () => {
+        test('Multiplexed frames split across chunks', () => {
+            const parser = new ContainerLogParser(true, true);
+            const data = Buffer.concat([
+                frame(1, '2020-01-31T12:00:00.123456789Z hello\n2020-01-31T12:00:01Z wor'),
+                frame(2, '2020-01-31T12:00:02Z oops\r\n'),
+                frame(1, 'ld\n'),
+            ]);
+
+            const lines: IContainerLogLine[] = [];
+            for (let i = 0; i < data.length; i += 5) {
+                lines.push(...parser.write(data.slice(i, i + 5)));
+            }
+            lines.push(...parser.end());
+
+            assert.deepStrictEqual(lines, [
+                { stream: 'stdout', timestamp: '2020-01-31T12:00:00.123456789Z', text: 'hello' },
+                { stream: 'stderr', timestamp: '2020-01-31T12:00:02Z', text: 'oops' },
+                { stream: 'stdout', timestamp: '2020-01-31T12:00:01Z', text: 'world' },
+            ]);
+        });
+
+        test('Raw text from containers with a TTY', () => {
+            const parser = new ContainerLogParser(false, false);
+            assert.deepStrictEqual(parser.write(Buffer.from('a\r\nb')), [{ stream: 'stdout', text: 'a' }]);
+            assert.deepStrictEqual(parser.end(), [{ stream: 'stdout', text: 'b' }]);
+        });
+    });
+
+    suite('Display', () => {
+        const lines: IContainerLogLine[] = [
+            { stream: 'stdout', timestamp: '2020-01-31T12:00:00Z', text: 'Listening on port 80' },
+            { stream: 'stderr', timestamp: '2020-01-31T12:00:01Z', text: 'Error: connection refused' },
+        ];
+
+        function display(options: Partial<IContainerLogsOptions>): string[] {
+            const fullOptions: IContainerLogsOptions = { ...defaultContainerLogsOptions, ...options };
+            return lines.filter(l => matchesLogFilter(l, fullOptions)).map(l => formatLogLine(l, fullOptions));
+        }
+
+        test('Both streams with timestamps', () => {
+            assert.deepStrictEqual(display({}), [
+                '2020-01-31T12:00:00Z [out] Listening on port 80',
+                '2020-01-31T12:00:01Z [err] Error: connection refused',
+            ]);
+        });
+
+        test('One stream without timestamps', () => {
+            assert.deepStrictEqual(display({ timestamps: false, stdout: false }), ['Error: connection refused']);
+        });
+
+        test('Filter is case-insensitive', () => {
+            assert.deepStrictEqual(display({ timestamps: false, filter: 'PORT' }), ['[out] Listening on port 80']);
+        });
+    });
+
+    suite('Several containers', () => {
+        test('Lines are interleaved by timestamp', () => {
+            const lines: IContainerLogLine[] = [];
+            insertLogLines(lines, [
+                { stream: 'stdout', timestamp: '2020-01-31T12:00:00.5Z', text: 'web 1', containerName: 'web' },
+                { stream: 'stdout', timestamp: '2020-01-31T12:00:02Z', text: 'web 2', containerName: 'web' },
+            ]);
+            insertLogLines(lines, [
+                // Fractional seconds are trimmed, so "00.123" is before "00.5"
+                { stream: 'stdout', timestamp: '2020-01-31T12:00:00.123Z', text: 'db 1', containerName: 'db' },
+                { stream: 'stdout', timestamp: '2020-01-31T12:00:01Z', text: 'db 2', containerName: 'db' },
+                { stream: 'stdout', timestamp: '2020-01-31T12:00:03Z', text: 'db 3', containerName: 'db' },
+            ]);
+
+            assert.deepStrictEqual(lines.map(l => l.text), ['db 1', 'web 1', 'db 2', 'web 2', 'db 3']);
+        });
+
+        test('Prefixes are aligned', () => {
+            const options: IContainerLogsOptions = { ...defaultContainerLogsOptions, timestamps: false, stderr: false };
+            assert.strictEqual(formatLogLine({ stream: 'stdout', text: 'ready', containerName: 'db' }, options, 5), '[db]    ready');
+            assert.strictEqual(formatLogLine({ stream: 'stdout', text: 'ready', containerName: 'proxy' }, options, 5), '[proxy] ready');
+        });
+    });
+});
@@ -0,0 +1,46 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { getContainerNotification, IDockerEvent } from '../../extension.bundle';
+
+const workspaceFolder: string = path.resolve('/src/app');
+
+function createEvent(action: string, attributes: { [key: string]: string }): IDockerEvent {
+    return { Type: 'container', Action: action, Actor: { ID: '0123456789abcdef', Attributes: { name: 'web', ...attributes } }, time: 0 };
+}
+
+suite('utils/containerNotifications', () => {
+    test('Reports non-zero exits, OOMs and unhealthy containers', () => {
+        const died = getContainerNotification(createEvent('die', { exitCode: '137' }), 'All', []);
+        assert.deepStrictEqual(died, { containerId: '0123456789abcdef', containerName: 'web', kind: 'died', message: 'Container "web" exited with code 137.' });
+        assert.strictEqual(getContainerNotification(createEvent('oom', {}), 'All', [])!.kind, 'oom');
+        assert.strictEqual(getContainerNotification(createEvent('health_status: unhealthy', {}), 'All', [])!.kind, 'unhealthy');
+    });
+
+    test('Ignores normal exits and other events', () => {
+        assert.strictEqual(getContainerNotification(createEvent('die', { exitCode: '0' }), 'All', []), undefined);
+        assert.strictEqual(getContainerNotification(createEvent('health_status: healthy', {}), 'All', []), undefined);
+        assert.strictEqual(getContainerNotification(createEvent('start', {}), 'All', []), undefined);
+        assert.strictEqual(getContainerNotification({ ...createEvent('die', { exitCode: '1' }), Type: 'network' }, 'All', []), undefined);
+    });
+
+    test('Workspace scope', () => {
+        const taskEvent = createEvent('die', { exitCode: '1', 'com.microsoft.created-by': 'visual-studio-code', 'com.microsoft.vscode.workspace-folder': workspaceFolder });
+        const otherTaskEvent = createEvent('die', { exitCode: '1', 'com.microsoft.created-by': 'visual-studio-code', 'com.microsoft.vscode.workspace-folder': path.resolve('/src/other') });
+        const composeEvent = createEvent('die', { exitCode: '1', 'com.docker.compose.project.working_dir': path.join(workspaceFolder, 'services') });
+        const otherComposeEvent = createEvent('die', { exitCode: '1', 'com.docker.compose.project.working_dir': path.resolve('/src/application') });
+        const otherEvent = createEvent('die', { exitCode: '1' });
+
+        assert.ok(getContainerNotification(taskEvent, 'Workspace', [workspaceFolder]));
+        assert.strictEqual(getContainerNotification(taskEvent, 'Workspace', []), undefined);
+        assert.strictEqual(getContainerNotification(otherTaskEvent, 'Workspace', [workspaceFolder]), undefined);
+        assert.ok(getContainerNotification(composeEvent, 'Workspace', [workspaceFolder]));
+        assert.strictEqual(getContainerNotification(otherComposeEvent, 'Workspace', [workspaceFolder]), undefined);
+        assert.strictEqual(getContainerNotification(otherEvent, 'Workspace', [workspaceFolder]), undefined);
+        assert.strictEqual(getContainerNotification(taskEvent, 'None', [workspaceFolder]), undefined);
+    });
+});
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { IDiskUsage, IDiskUsageCategory, summarizeDiskUsage } from '../../extension.bundle';
+
+suite('utils/diskUsage', () => {
+    const diskUsage: IDiskUsage = {
+        LayersSize: 1000,
+        Images: [
+            { Id: 'sha256:aaaaaaaaaaaaaaaa', RepoTags: ['node:12'], Size: 600, SharedSize: 100, Containers: 1 },
+            { Id: 'sha256:bbbbbbbbbbbbbbbb', RepoTags: ['<none>:<none>'], Size: 300, SharedSize: 100, Containers: 0 },
+            { Id: 'sha256:cccccccccccccccc', RepoTags: null, Size: 200, SharedSize: -1, Containers: 0 },
+        ],
+        Containers: [
+            { Id: 'c1', Names: ['/web'], State: 'running', SizeRw: 10 },
+            { Id: 'c2', Names: ['/old'], State: 'exited', SizeRw: 50 },
+        ],
+        Volumes: [
+            { Name: 'data', Labels: null, UsageData: { Size: 500, RefCount: 1 } },
+            { Name: 'unused', Labels: null, UsageData: { Size: 70, RefCount: 0 } },
+            { Name: 'unknown', Labels: null, UsageData: { Size: -1, RefCount: -1 } },
+        ],
+        BuildCache: [
+            { ID: 'b1', Description: 'RUN npm install', InUse: false, Shared: false, Size: 40 },
+            { ID: 'b2', InUse: false, Shared: true, Size: 30 },
+            { ID: 'b3', InUse: true, Shared: false, Size: 20 },
+        ],
+    };
+
+    function getCategory(type: string): IDiskUsageCategory {
+        const category = summarizeDiskUsage(diskUsage).find(c => c.type === type);
+        assert.ok(category);
+        return <IDiskUsageCategory>category;
+    }
+
+    test('Images', () => {
+        const images = getCategory('image');
+        assert.strictEqual(images.totalSize, 1000);
+        assert.strictEqual(images.reclaimableSize, 500, 'Only the unique part of images in use should be excluded');
+        assert.strictEqual(images.activeCount, 1);
+        assert.deepStrictEqual(images.items.map(i => i.name), ['node:12', 'bbbbbbbbbbbb', 'cccccccccccc']);
+    });
+
+    test('Containers', () => {
+        const containers = getCategory('container');
+        assert.strictEqual(containers.totalSize, 60);
+        assert.strictEqual(containers.reclaimableSize, 50);
+        assert.deepStrictEqual(containers.items.map(i => i.name), ['old', 'web']);
+    });
+
+    test('Volumes', () => {
+        const volumes = getCategory('volume');
+        assert.strictEqual(volumes.totalCount, 3);
+        assert.strictEqual(volumes.activeCount, 1);
+        assert.strictEqual(volumes.totalSize, 570);
+        assert.strictEqual(volumes.reclaimableSize, 70);
+    });
+
+    test('Build cache', () => {
+        const buildCache = getCategory('buildCache');
+        assert.strictEqual(buildCache.totalSize, 90);
+        assert.strictEqual(buildCache.reclaimableSize, 40, 'Shared and in-use records should not be reclaimable');
+        assert.deepStrictEqual(buildCache.items.map(i => i.name), ['RUN npm install', 'b2', 'b3']);
+    });
+
+    test('Empty', () => {
+        const categories = summarizeDiskUsage({ Images: null, Containers: null, Volumes: null, BuildCache: null });
+        assert.deepStrictEqual(categories.map(c => [c.type, c.totalCount, c.totalSize]), [['image', 0, 0], ['container', 0, 0], ['volume', 0, 0], ['buildCache', 0, 0]]);
+    });
+});
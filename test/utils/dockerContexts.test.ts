@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { dockerContextNameRegExp, IDockerContextListItem, parseDockerContextList } from '../../extension.bundle';
+
+suite('utils/dockerContexts', () => {
+    suite('parseDockerContextList', () => {
+        test('Parses one context per line', () => {
+            const stdout: string = [
+                '{"Current":true,"Description":"Current DOCKER_HOST based configuration","DockerEndpoint":"unix:///var/run/docker.sock","KubernetesEndpoint":"","Name":"default","StackOrchestrator":"swarm"}',
+                '{"Current":false,"Description":"","DockerEndpoint":"ssh://me@build","KubernetesEndpoint":"","Name":"build","StackOrchestrator":"swarm"}',
+                ''
+            ].join('\n');
+
+            const contexts: IDockerContextListItem[] = parseDockerContextList(stdout);
+            assert.deepStrictEqual(contexts, [
+                { Name: 'default', Description: 'Current DOCKER_HOST based configuration', DockerEndpoint: 'unix:///var/run/docker.sock', Current: true },
+                { Name: 'build', Description: '', DockerEndpoint: 'ssh://me@build', Current: false },
+            ]);
+        });
+
+        test('Handles booleans formatted as strings and CRLF', () => {
+            const contexts: IDockerContextListItem[] = parseDockerContextList('{"Current":"true","Name":"a"}\r\n{"Current":"false","Name":"b"}\r\n');
+            assert.deepStrictEqual(contexts.map(c => c.Current), [true, false]);
+            assert.deepStrictEqual(contexts.map(c => c.DockerEndpoint), ['', '']);
+        });
+
+        test('Empty output', () => {
+            assert.deepStrictEqual(parseDockerContextList(''), []);
+        });
+    });
+
+    suite('dockerContextNameRegExp', () => {
+        test('Valid names', () => {
+            for (const name of ['default', 'build-server', 'my_ctx.1', 'A+B']) {
+                assert.ok(dockerContextNameRegExp.test(name), name);
+            }
+        });
+
+        test('Invalid names', () => {
+            for (const name of ['', '-build', 'has space', 'a/b']) {
+                assert.ok(!dockerContextNameRegExp.test(name), name);
+            }
+        });
+    });
+});
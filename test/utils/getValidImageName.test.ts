@@ -0,0 +1,21 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { isValidImageName } from '../../extension.bundle';
+
+suite('utils/getValidImageName', () => {
+    test('Valid image names', () => {
+        for (const name of ['app', 'app:latest', 'my-app_1.0', 'team/app:1.0-rc.1', 'localhost/app', 'localhost:5000/app:dev', 'registry.example.com/team-a/app', 'MyRegistry.io/app']) {
+            assert.ok(isValidImageName(name), name);
+        }
+    });
+
+    test('Invalid image names', () => {
+        for (const name of ['', 'App', 'my app', 'MyTeam/app', 'app:', 'app:-tag', 'app//web', '-app', 'app-', 'app@sha256:abc', `app:${'a'.repeat(129)}`, 'a'.repeat(256)]) {
+            assert.ok(!isValidImageName(name), name);
+        }
+    });
+});
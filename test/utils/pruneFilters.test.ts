@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See LICENSE.md in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { matchesPruneFilters, parsePruneFilters } from '../../extension.bundle';
+
+suite('utils/pruneFilters', () => {
+    const now = Date.UTC(2020, 0, 31, 12);
+    const hour = 60 * 60 * 1000;
+
+    test('Empty', () => {
+        assert.deepStrictEqual(parsePruneFilters('  ', now), { labels: [] });
+    });
+
+    test('Until duration', () => {
+        assert.strictEqual(parsePruneFilters('until=24h', now).until, now - 24 * hour);
+        assert.strictEqual(parsePruneFilters('until=1h30m', now).until, now - 1.5 * hour);
+        assert.strictEqual(parsePruneFilters('until=7d', now).until, now - 7 * 24 * hour);
+    });
+
+    test('Until timestamp', () => {
+        assert.strictEqual(parsePruneFilters('until=1580472000', now).until, now);
+        assert.strictEqual(parsePruneFilters('until=2020-01-31T12:00:00Z', now).until, now);
+    });
+
+    test('Labels', () => {
+        assert.deepStrictEqual(parsePruneFilters('label=env=test label!=keep label=a=b=c', now).labels, [
+            { key: 'env', value: 'test', negate: false },
+            { key: 'keep', value: undefined, negate: true },
+            { key: 'a', value: 'b=c', negate: false },
+        ]);
+    });
+
+    test('Invalid', () => {
+        assert.throws(() => parsePruneFilters('dangling=true', now), /Invalid filter "dangling=true"/);
+        assert.throws(() => parsePruneFilters('until=yesterday', now), /Invalid "until" value/);
+    });
+
+    test('Match', () => {
+        const filters = parsePruneFilters('until=24h label=env=test label!=keep', now);
+        assert.strictEqual(matchesPruneFilters(filters, now - 48 * hour, { env: 'test' }), true);
+        assert.strictEqual(matchesPruneFilters(filters, now - hour, { env: 'test' }), false, 'Too new');
+        assert.strictEqual(matchesPruneFilters(filters, undefined, { env: 'test' }), false, 'Unknown creation time');
+        assert.strictEqual(matchesPruneFilters(filters, now - 48 * hour, { env: 'prod' }), false, 'Wrong label value');
+        assert.strictEqual(matchesPruneFilters(filters, now - 48 * hour, { env: 'test', keep: '' }), false, 'Excluded label');
+        assert.strictEqual(matchesPruneFilters(filters, now - 48 * hour, undefined), false, 'No labels');
+        assert.strictEqual(matchesPruneFilters(parsePruneFilters('', now), undefined, undefined), true);
+    });
+});